@@ -5,11 +5,17 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Game from "@/pages/game";
+import Profile from "@/pages/profile";
+import Editor from "@/pages/editor";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Game} />
+      <Route path="/">
+        <Game />
+      </Route>
+      <Route path="/profile" component={Profile} />
+      <Route path="/editor" component={Editor} />
       <Route component={NotFound} />
     </Switch>
   );
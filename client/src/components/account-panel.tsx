@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { LogIn, LogOut, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { describeApiError } from "@/lib/queryClient";
+
+export function AccountPanel() {
+  const { user, loginMutation, registerMutation, logoutMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-3 text-white/80" data-testid="account-signed-in">
+        <span>
+          Signed in as <span className="font-bold text-white">{user.username}</span>
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => logoutMutation.mutate()}
+          className="text-white/70"
+          data-testid="button-logout"
+        >
+          <LogOut className="w-4 h-4 mr-1" />
+          Log out
+        </Button>
+      </div>
+    );
+  }
+
+  const pending = loginMutation.isPending || registerMutation.isPending;
+  const error = loginMutation.error ?? registerMutation.error;
+  const credentials = { username: username.trim(), password };
+  const canSubmit = !!credentials.username && !!password && !pending;
+
+  return (
+    <form
+      className="flex flex-col items-center gap-2"
+      // Keep typing here from reaching the game's keyboard controls
+      onKeyDown={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSubmit) loginMutation.mutate(credentials);
+      }}
+      data-testid="form-account"
+    >
+      <p className="text-white/60 text-sm">Log in to post your scores to the leaderboard</p>
+      <div className="flex flex-wrap justify-center gap-2">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          className="bg-gray-800 text-white px-3 py-2 rounded border-2 border-gray-600 focus:border-green-500 outline-none w-36"
+          maxLength={12}
+          data-testid="input-username"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="current-password"
+          className="bg-gray-800 text-white px-3 py-2 rounded border-2 border-gray-600 focus:border-green-500 outline-none w-36"
+          data-testid="input-password"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" variant="outline" disabled={!canSubmit} className="border-white/30 text-white" data-testid="button-login">
+          <LogIn className="w-4 h-4 mr-1" />
+          Log in
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={!canSubmit}
+          onClick={() => registerMutation.mutate(credentials)}
+          className="text-white/70"
+          data-testid="button-register"
+        >
+          <UserPlus className="w-4 h-4 mr-1" />
+          Register
+        </Button>
+      </div>
+      {error && (
+        <p className="text-red-400 text-sm" data-testid="text-account-error">
+          {describeApiError(error)}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Play, Star, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest, describeApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useCommunityLevels } from "@/hooks/use-community-levels";
+import { useToast } from "@/hooks/use-toast";
+import { BIOMES } from "@shared/engine/biomes";
+import type { Level } from "@shared/engine/level";
+import type { CommunityLevelSummary, LevelLeaderboardPage, LevelListQuery } from "@shared/schema";
+
+const PAGE_SIZE = 5;
+const SCORES_SHOWN = 5;
+
+interface CommunityPanelProps {
+  onPlay: (level: Level) => void;
+}
+
+// Best escapes on one level, shown under it when expanded
+function LevelScores({ levelId }: { levelId: string }) {
+  const { data: page } = useQuery<LevelLeaderboardPage>({
+    queryKey: ["/api/levels", levelId, "scores"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/levels/${levelId}/scores?limit=${SCORES_SHOWN}`);
+      return res.json();
+    },
+  });
+
+  if (!page) return null;
+  if (page.entries.length === 0) {
+    return <p className="text-white/40 text-xs mt-1">Nobody has escaped yet</p>;
+  }
+  return (
+    <div className="mt-1 space-y-0.5" data-testid={`level-scores-${levelId}`}>
+      {page.entries.map((entry) => (
+        <div key={entry.id} className="flex justify-between text-xs text-white/70">
+          <span>#{entry.rank} {entry.playerName}</span>
+          <span className="font-mono">{entry.score.toLocaleString()}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StarRating({ level, canRate, onRate }: { level: CommunityLevelSummary; canRate: boolean; onRate: (stars: number) => void }) {
+  const filled = Math.round(level.rating ?? 0);
+  return (
+    <span className="flex items-center" title={level.rating === null ? "Not rated yet" : `${level.rating.toFixed(1)} from ${level.ratings}`}>
+      {[1, 2, 3, 4, 5].map((stars) => (
+        <button
+          key={stars}
+          type="button"
+          disabled={!canRate}
+          onClick={() => onRate(stars)}
+          className="disabled:cursor-default"
+          data-testid={`button-rate-${level.id}-${stars}`}
+        >
+          <Star className={`w-3 h-3 ${stars <= filled ? "fill-yellow-400 text-yellow-400" : "text-white/30"}`} />
+        </button>
+      ))}
+      <span className="ml-1 text-white/40 text-xs">({level.ratings})</span>
+    </span>
+  );
+}
+
+// Levels other players have published from the editor
+export function CommunityPanel({ onPlay }: CommunityPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [sort, setSort] = useState<LevelListQuery["sort"]>("top");
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { page, isLoading, rateMutation, loadLevel } = useCommunityLevels(sort, offset, PAGE_SIZE);
+
+  const play = async (levelId: string) => {
+    try {
+      onPlay(await loadLevel(levelId));
+    } catch (error) {
+      toast({ title: "Could not load level", description: describeApiError(error), variant: "destructive" });
+    }
+  };
+
+  const rate = (levelId: string, stars: number) => {
+    rateMutation.mutate({ levelId, stars }, {
+      onError: (error) => toast({ title: "Rating not saved", description: describeApiError(error), variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="mt-4 bg-black/40 rounded-lg p-4 w-full max-w-sm" data-testid="panel-community">
+      <Tabs
+        value={sort}
+        onValueChange={(value) => {
+          setSort(value as LevelListQuery["sort"]);
+          setOffset(0);
+        }}
+      >
+        <TabsList className="grid w-full grid-cols-2 bg-black/40">
+          <TabsTrigger value="top" className="text-xs" data-testid="tab-community-top">Top Rated</TabsTrigger>
+          <TabsTrigger value="new" className="text-xs" data-testid="tab-community-new">Newest</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="space-y-3 mt-3 min-h-[9rem]">
+        {isLoading && <p className="text-white/50 text-center text-sm">Loading...</p>}
+        {page && page.levels.length === 0 && (
+          <p className="text-white/50 text-center text-sm" data-testid="text-community-empty">
+            No levels published yet
+          </p>
+        )}
+        {page?.levels.map((level) => (
+          <div key={level.id} data-testid={`community-level-${level.id}`}>
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-left min-w-0">
+                <div className="text-white text-sm font-semibold truncate">{level.name}</div>
+                <div className="text-white/40 text-xs">
+                  by {level.authorName} - {BIOMES[level.biome].name}
+                </div>
+                <StarRating
+                  level={level}
+                  canRate={!!user && user.id !== level.authorId && !rateMutation.isPending}
+                  onRate={(stars) => rate(level.id, stars)}
+                />
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setExpanded(expanded === level.id ? null : level.id)}
+                  className={expanded === level.id ? "text-yellow-400" : "text-white/70"}
+                  title="Best escapes"
+                  data-testid={`button-level-scores-${level.id}`}
+                >
+                  <Trophy className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => play(level.id)}
+                  className="border-white/30 text-white"
+                  data-testid={`button-play-community-${level.id}`}
+                >
+                  <Play className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+            {expanded === level.id && <LevelScores levelId={level.id} />}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={offset === 0}
+          onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+          className="text-white/70"
+          data-testid="button-community-prev"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={!page || offset + PAGE_SIZE >= page.total}
+          onClick={() => setOffset(offset + PAGE_SIZE)}
+          className="text-white/70"
+          data-testid="button-community-next"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
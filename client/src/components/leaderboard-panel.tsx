@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Ghost, LocateFixed } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { DailyLeaderboardPage, LeaderboardPage, LeaderboardPeriod } from "@shared/schema";
+import { replaySchema, type Replay } from "@shared/engine/replay";
+import { CHARACTERS } from "@shared/engine/characters";
+
+const PAGE_SIZE = 5;
+
+// The daily challenge has its own board alongside the regular periods
+type LeaderboardTab = LeaderboardPeriod | "daily";
+
+const TAB_LABELS: Record<LeaderboardTab, string> = {
+  day: "Today",
+  week: "This Week",
+  all: "All Time",
+  daily: "Daily Heist",
+};
+
+function rankColor(rank: number) {
+  if (rank === 1) return "text-yellow-400";
+  if (rank === 2) return "text-gray-300";
+  if (rank === 3) return "text-amber-600";
+  return "";
+}
+
+interface LeaderboardPanelProps {
+  // Called with an entry's replay when the player picks it as a ghost to race
+  onRaceGhost?: (replay: Replay, name: string) => void;
+}
+
+export function LeaderboardPanel({ onRaceGhost }: LeaderboardPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tab, setTab] = useState<LeaderboardTab>("all");
+  const [offset, setOffset] = useState(0);
+  const [aroundMe, setAroundMe] = useState(false);
+  const around = aroundMe && user ? user.username : undefined;
+
+  // Keyed under the endpoint's prefix so submitting a score invalidates every page
+  const { data: page, isLoading } = useQuery<LeaderboardPage | DailyLeaderboardPage>({
+    queryKey: tab === "daily"
+      ? ["/api/daily", "scores", offset, around]
+      : ["/api/highscores", tab, offset, around],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (around) params.set("around", around);
+      if (tab !== "daily") params.set("period", tab);
+      const url = tab === "daily" ? "/api/daily/scores" : "/api/highscores";
+      const res = await apiRequest("GET", `${url}?${params}`);
+      return res.json();
+    },
+  });
+
+  const raceGhost = async (entryId: string, name: string) => {
+    if (!onRaceGhost) return;
+    try {
+      const url = tab === "daily" ? `/api/daily/scores/${entryId}/replay` : `/api/highscores/${entryId}/replay`;
+      const res = await apiRequest("GET", url);
+      onRaceGhost(replaySchema.parse(await res.json()), name);
+    } catch (error) {
+      toast({ title: "No ghost available", description: "This run's replay is missing or from an older version of the game.", variant: "destructive" });
+    }
+  };
+
+  // The server re-centres the page on `around`; paging continues from there
+  const pageOffset = page?.offset ?? offset;
+  const goToOffset = (next: number) => {
+    setAroundMe(false);
+    setOffset(Math.max(0, next));
+  };
+
+  return (
+    <div className="mt-4 bg-black/40 rounded-lg p-4 w-full max-w-sm" data-testid="panel-leaderboard">
+      <Tabs
+        value={tab}
+        onValueChange={(value) => {
+          setTab(value as LeaderboardTab);
+          setOffset(0);
+        }}
+      >
+        <TabsList className="grid w-full grid-cols-4 bg-black/40">
+          {(Object.keys(TAB_LABELS) as LeaderboardTab[]).map((t) => (
+            <TabsTrigger key={t} value={t} className="px-1 text-xs" data-testid={`tab-leaderboard-${t}`}>
+              {TAB_LABELS[t]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="space-y-2 mt-3 min-h-[9rem]">
+        {isLoading && <p className="text-white/50 text-center text-sm">Loading...</p>}
+        {page && page.entries.length === 0 && (
+          <p className="text-white/50 text-center text-sm" data-testid="text-leaderboard-empty">
+            {tab === "all" ? "No runs yet" : tab === "daily" ? "No Daily Heist runs yet today" : `No runs ${TAB_LABELS[tab].toLowerCase()} yet`}
+          </p>
+        )}
+        {page?.entries.map((entry) => {
+          const isMe = user?.id != null && entry.userId === user.id;
+          return (
+            <div
+              key={entry.id}
+              className={`flex items-center justify-between px-2 rounded ${isMe ? "bg-green-500/20 text-white" : "text-white/80"}`}
+              data-testid={`leaderboard-entry-${entry.rank}`}
+            >
+              <span className="flex items-center gap-2">
+                <span className={`font-bold ${rankColor(entry.rank)}`}>#{entry.rank}</span>
+                <span>{entry.playerName}</span>
+                <span className="text-xs text-white/40" data-testid={`text-leaderboard-character-${entry.rank}`}>
+                  {CHARACTERS[entry.character].name}
+                </span>
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="font-mono">{entry.score.toLocaleString()}</span>
+                {onRaceGhost && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => raceGhost(entry.id, entry.playerName)}
+                    className="h-6 w-6 text-white/50 hover:text-white"
+                    title={`Race ${entry.playerName}'s ghost`}
+                    data-testid={`button-race-ghost-${entry.rank}`}
+                  >
+                    <Ghost className="w-4 h-4" />
+                  </Button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={pageOffset === 0}
+          onClick={() => goToOffset(pageOffset - PAGE_SIZE)}
+          className="text-white/70"
+          data-testid="button-leaderboard-prev"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        {user && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setAroundMe(true)}
+            className={aroundMe ? "text-green-400" : "text-white/70"}
+            data-testid="button-leaderboard-around-me"
+          >
+            <LocateFixed className="w-4 h-4 mr-1" />
+            Find Me
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={!page || pageOffset + PAGE_SIZE >= page.total}
+          onClick={() => goToOffset(pageOffset + PAGE_SIZE)}
+          className="text-white/70"
+          data-testid="button-leaderboard-next"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
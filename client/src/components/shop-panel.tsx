@@ -0,0 +1,72 @@
+import { Coins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useProfile } from "@/hooks/use-profile";
+import { useToast } from "@/hooks/use-toast";
+import { describeApiError } from "@/lib/queryClient";
+import { UPGRADES, UPGRADE_IDS } from "@shared/engine/upgrades";
+import { getUpgradeCost } from "@shared/profile";
+
+export function ShopPanel() {
+  const { user } = useAuth();
+  const { profile, buyMutation } = useProfile();
+  const { toast } = useToast();
+
+  return (
+    <div className="mt-4 bg-black/40 rounded-lg p-4 w-full max-w-sm" data-testid="panel-shop">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-white font-bold">Upgrade Shop</span>
+        <span className="flex items-center gap-1 text-yellow-400 font-mono" data-testid="text-wallet-coins">
+          <Coins className="w-4 h-4" />
+          {profile.coins.toLocaleString()}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {UPGRADE_IDS.map((id) => {
+          const { name, description, costs } = UPGRADES[id];
+          const level = profile.upgrades[id];
+          const cost = getUpgradeCost(profile, id);
+          return (
+            <div key={id} className="flex items-center justify-between gap-3" data-testid={`shop-item-${id}`}>
+              <div className="text-left">
+                <div className="text-white text-sm font-semibold">{name}</div>
+                <div className="text-white/50 text-xs">{description}</div>
+                <div className="flex gap-1 mt-1">
+                  {costs.map((_, i) => (
+                    <span key={i} className={`h-1.5 w-4 rounded-full ${i < level ? "bg-green-400" : "bg-white/15"}`} />
+                  ))}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={cost === null || profile.coins < cost || buyMutation.isPending}
+                onClick={() =>
+                  buyMutation.mutate(id, {
+                    onError: (error) => toast({ title: "Purchase failed", description: describeApiError(error), variant: "destructive" }),
+                  })
+                }
+                className="border-white/30 text-white shrink-0"
+                data-testid={`button-buy-${id}`}
+              >
+                {cost === null ? "Maxed" : (
+                  <span className="flex items-center gap-1">
+                    <Coins className="w-3 h-3 text-yellow-400" />
+                    {cost}
+                  </span>
+                )}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {!user && (
+        <p className="text-white/40 text-xs mt-3" data-testid="text-shop-guest">
+          Guest progress is saved in this browser only. Log in to keep your coins on your account.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { Check, Lock, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BIOMES } from "@shared/engine/biomes";
+import { STORY_LEVELS } from "@shared/story";
+
+interface StoryPanelProps {
+  // How many levels, from the first, have been cleared; the next one is playable
+  cleared: number;
+  onPlay: (index: number) => void;
+}
+
+export function StoryPanel({ cleared, onPlay }: StoryPanelProps) {
+  return (
+    <div className="mt-4 bg-black/40 rounded-lg p-4 w-full max-w-sm" data-testid="panel-story">
+      <div className="text-white font-bold mb-3">Story</div>
+
+      <div className="space-y-3">
+        {STORY_LEVELS.map((level, index) => {
+          const locked = index > cleared;
+          return (
+            <div key={level.id} className="flex items-center justify-between gap-3" data-testid={`story-level-${level.id}`}>
+              <div className="text-left">
+                <div className="flex items-center gap-1 text-white text-sm font-semibold">
+                  {index + 1}. {level.name}
+                  {index < cleared && <Check className="w-4 h-4 text-green-400" />}
+                </div>
+                <div className="text-white/50 text-xs">{level.description}</div>
+                <div className="text-white/40 text-xs">{BIOMES[level.biome].name}</div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={locked}
+                onClick={() => onPlay(index)}
+                className="border-white/30 text-white shrink-0"
+                data-testid={`button-play-level-${level.id}`}
+              >
+                {locked ? <Lock className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { PublicUser } from "@shared/schema";
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+export function useAuth() {
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (authedUser: PublicUser) => {
+    queryClient.setQueryData(["/api/user"], authedUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  return { user, isLoading, loginMutation, registerMutation, logoutMutation };
+}
@@ -0,0 +1,49 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { levelSchema, type Level } from "@shared/engine/level";
+import type { Replay } from "@shared/engine/replay";
+import type { CommunityLevelPage, CommunityLevelSummary, LevelListQuery } from "@shared/schema";
+
+// One page of published levels, with rating and loading for the ones listed
+export function useCommunityLevels(sort: LevelListQuery["sort"], offset: number, limit: number) {
+  // Keyed under the endpoint's prefix so publishing or rating refreshes every page
+  const { data: page, isLoading } = useQuery<CommunityLevelPage>({
+    queryKey: ["/api/levels", sort, offset, limit],
+    queryFn: async () => {
+      const params = new URLSearchParams({ sort, offset: String(offset), limit: String(limit) });
+      const res = await apiRequest("GET", `/api/levels?${params}`);
+      return res.json();
+    },
+  });
+
+  const rateMutation = useMutation({
+    mutationFn: async ({ levelId, stars }: { levelId: string; stars: number }) => {
+      const res = await apiRequest("POST", `/api/levels/${levelId}/ratings`, { stars });
+      return (await res.json()) as CommunityLevelSummary;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/levels"] });
+    },
+  });
+
+  const loadLevel = async (levelId: string): Promise<Level> => {
+    const res = await apiRequest("GET", `/api/levels/${levelId}`);
+    return levelSchema.parse((await res.json()).level);
+  };
+
+  return { page, isLoading, rateMutation, loadLevel };
+}
+
+// Publishes a level with a run that beats it; the server re-simulates the run
+// and turns the level down if it doesn't reach the helicopter
+export function usePublishLevel() {
+  return useMutation({
+    mutationFn: async ({ level, replay }: { level: Level; replay: Replay }) => {
+      const res = await apiRequest("POST", "/api/levels", { level, replay });
+      return (await res.json()) as CommunityLevelSummary;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/levels"] });
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { levelSchema, type Level } from "@shared/engine/level";
+import type { LevelDraftSummary } from "@shared/schema";
+
+// The signed-in player's saved editor levels. Guests have no drafts; they
+// export and import level files instead.
+export function useLevelDrafts() {
+  const { user } = useAuth();
+
+  const { data: drafts = [] } = useQuery<LevelDraftSummary[]>({
+    queryKey: ["/api/levels/drafts", user?.id ?? null],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/levels/drafts");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (level: Level) => {
+      const res = await apiRequest("PUT", `/api/levels/drafts/${level.id}`, level);
+      return (await res.json()) as LevelDraftSummary;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/levels/drafts"] });
+    },
+  });
+
+  const loadDraft = async (levelId: string): Promise<Level> => {
+    const res = await apiRequest("GET", `/api/levels/drafts/${levelId}`);
+    return levelSchema.parse(await res.json());
+  };
+
+  return { drafts, saveMutation, loadDraft };
+}
@@ -0,0 +1,82 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { addRunToProfile, createSaveProfile, parseSaveProfile, purchaseCharacter, purchaseUpgrade, type SaveProfile } from "@shared/profile";
+import type { CharacterId } from "@shared/engine/characters";
+import type { RunStats } from "@shared/engine/stats";
+import type { Replay } from "@shared/engine/replay";
+import type { UpgradeId } from "@shared/engine/upgrades";
+
+const GUEST_PROFILE_KEY = "runnerProfile";
+
+function loadGuestProfile(): SaveProfile {
+  try {
+    return parseSaveProfile(JSON.parse(localStorage.getItem(GUEST_PROFILE_KEY) ?? "null"));
+  } catch {
+    return createSaveProfile();
+  }
+}
+
+function saveGuestProfile(profile: SaveProfile) {
+  localStorage.setItem(GUEST_PROFILE_KEY, JSON.stringify(profile));
+  return profile;
+}
+
+// The player's save profile (wallet, upgrades, characters, stats and achievements): kept on the server for accounts and
+// in localStorage for guests, behind the same interface.
+export function useProfile() {
+  const { user } = useAuth();
+  const queryKey = ["/api/profile", user?.id ?? "guest"];
+
+  const { data: profile = createSaveProfile(), isLoading } = useQuery<SaveProfile>({
+    queryKey,
+    queryFn: async () => {
+      if (!user) return loadGuestProfile();
+      const res = await apiRequest("GET", "/api/profile");
+      return parseSaveProfile(await res.json());
+    },
+  });
+
+  const onSaved = (updated: SaveProfile) => {
+    queryClient.setQueryData(queryKey, updated);
+  };
+
+  // Banks a finished run's coins and stats. Accounts send the replay so the
+  // server can count them itself.
+  const bankMutation = useMutation({
+    mutationFn: async ({ replay, stats }: { replay: Replay; stats: RunStats }) => {
+      if (!user) return saveGuestProfile(addRunToProfile(loadGuestProfile(), stats));
+      const res = await apiRequest("POST", "/api/profile/runs", { replay });
+      return parseSaveProfile(await res.json());
+    },
+    onSuccess: onSaved,
+  });
+
+  const buyMutation = useMutation({
+    mutationFn: async (upgrade: UpgradeId) => {
+      if (!user) {
+        const updated = purchaseUpgrade(loadGuestProfile(), upgrade);
+        if (!updated) throw new Error("Not enough coins");
+        return saveGuestProfile(updated);
+      }
+      const res = await apiRequest("POST", "/api/profile/upgrades", { upgrade });
+      return parseSaveProfile(await res.json());
+    },
+    onSuccess: onSaved,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (character: CharacterId) => {
+      if (!user) {
+        const updated = purchaseCharacter(loadGuestProfile(), character);
+        if (!updated) throw new Error("Not enough coins");
+        return saveGuestProfile(updated);
+      }
+      const res = await apiRequest("POST", "/api/profile/characters", { character });
+      return parseSaveProfile(await res.json());
+    },
+    onSuccess: onSaved,
+  });
+
+  return { profile, isLoading, bankMutation, buyMutation, unlockMutation };
+}
@@ -113,12 +113,113 @@ export function useSound({ enabled }: SoundOptions) {
     oscillator.stop(ctx.currentTime + 0.15);
   }, [enabled, getAudioContext]);
 
+  const playBounce = useCallback(() => {
+    if (!enabled) return;
+    const ctx = getAudioContext();
+    // Springy "boing" for bounce pads
+    const oscillator = ctx.createOscillator();
+    const gainNode = ctx.createGain();
+    
+    oscillator.connect(gainNode);
+    gainNode.connect(ctx.destination);
+    
+    oscillator.type = "sine";
+    oscillator.frequency.setValueAtTime(150, ctx.currentTime);
+    oscillator.frequency.exponentialRampToValueAtTime(700, ctx.currentTime + 0.12);
+    oscillator.frequency.exponentialRampToValueAtTime(450, ctx.currentTime + 0.25);
+    
+    gainNode.gain.setValueAtTime(0.25, ctx.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.3);
+    
+    oscillator.start();
+    oscillator.stop(ctx.currentTime + 0.3);
+  }, [enabled, getAudioContext]);
+
+  // Sweep a single oscillator between frequencies; used by the pursuer sounds
+  const playSweep = useCallback((type: OscillatorType, from: number, to: number, duration: number, volume: number) => {
+    const ctx = getAudioContext();
+    const oscillator = ctx.createOscillator();
+    const gainNode = ctx.createGain();
+    
+    oscillator.connect(gainNode);
+    gainNode.connect(ctx.destination);
+    
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(from, ctx.currentTime);
+    oscillator.frequency.exponentialRampToValueAtTime(to, ctx.currentTime + duration);
+    
+    gainNode.gain.setValueAtTime(volume, ctx.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + duration);
+    
+    oscillator.start();
+    oscillator.stop(ctx.currentTime + duration);
+  }, [getAudioContext]);
+
+  const playEngineRev = useCallback(() => {
+    if (!enabled) return;
+    // Motorbike throttle blip
+    playSweep("sawtooth", 90, 260, 0.4, 0.12);
+  }, [enabled, playSweep]);
+
+  const playSkid = useCallback(() => {
+    if (!enabled) return;
+    // Motorbike going down
+    playSweep("sawtooth", 320, 60, 0.45, 0.15);
+  }, [enabled, playSweep]);
+
+  const playBark = useCallback(() => {
+    if (!enabled) return;
+    // Two short barks for the K-9 unit
+    playSweep("square", 520, 300, 0.08, 0.12);
+    setTimeout(() => playSweep("square", 560, 320, 0.08, 0.1), 140);
+  }, [enabled, playSweep]);
+
+  const playRotor = useCallback(() => {
+    if (!enabled) return;
+    const ctx = getAudioContext();
+    // Low rotor thumps as the helicopter arrives
+    for (let i = 0; i < 6; i++) {
+      setTimeout(() => createOscillatorSound(ctx, 70, 0.06, "triangle", 0.25), i * 90);
+    }
+  }, [enabled, getAudioContext]);
+
+  const playSpotlight = useCallback(() => {
+    if (!enabled) return;
+    const ctx = getAudioContext();
+    // Alarm blip when caught in the helicopter's beam
+    createOscillatorSound(ctx, 880, 0.1, "square", 0.08);
+    setTimeout(() => createOscillatorSound(ctx, 660, 0.12, "square", 0.08), 110);
+  }, [enabled, getAudioContext]);
+
+  const playPowerUp = useCallback(() => {
+    if (!enabled) return;
+    const ctx = getAudioContext();
+    // Quick rising arpeggio for a pickup
+    [523, 659, 784, 1047].forEach((frequency, i) => {
+      setTimeout(() => createOscillatorSound(ctx, frequency, 0.08, "triangle", 0.15), i * 50);
+    });
+  }, [enabled, getAudioContext]);
+
+  const playShieldBreak = useCallback(() => {
+    if (!enabled) return;
+    // Glassy crack as the shield takes a hit
+    playSweep("square", 1400, 200, 0.3, 0.12);
+  }, [enabled, playSweep]);
+
   return {
     playJump,
+    playBounce,
     playCoin,
     playGameOver,
     playSiren,
     playVineGrab,
     playVineRelease,
+    playEngineRev,
+    playSkid,
+    playBark,
+    playRotor,
+    playSpotlight,
+    playPowerUp,
+    playShieldBreak,
   };
 }
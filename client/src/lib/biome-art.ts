@@ -0,0 +1,352 @@
+import { BIOME_LENGTH, getBiomeAt, type BiomeId } from "@shared/engine/biomes";
+
+// World pixels either side of a biome boundary over which the art crossfades
+export const BIOME_BLEND_WIDTH = 1200;
+
+type SceneryShape = "spires" | "trees" | "foliage" | "towers" | "buildings" | "lamps" | "waterTowers" | "chimneys" | "arches" | "pipes" | "grates" | "cranes" | "containers" | "signals";
+
+interface SceneryLayer {
+  shape: SceneryShape;
+  color: string;
+  // Lit windows, lamp glow and the like
+  accent?: string;
+  count: number;
+  spacing: number;
+  parallax: number;
+  // How far off screen a shape may sit before it wraps round
+  margin: number;
+}
+
+export interface BiomeArt {
+  // Top, middle and bottom of the sky gradient
+  sky: [string, string, string];
+  fog: string;
+  fogAlpha: number;
+  // Slanted light shafts behind the middle layer
+  rays: boolean;
+  fireflies: number;
+  // Far, middle and near parallax layers
+  layers: [SceneryLayer, SceneryLayer, SceneryLayer];
+  ground: { soil: string; stoneTop: string; stoneBottom: string; edge: string; edgeHighlight: string };
+  // Tint laid over the whole world for the biome's mood
+  grade: string;
+  gradeAlpha: number;
+}
+
+const far = (shape: SceneryShape, color: string, accent?: string): SceneryLayer =>
+  ({ shape, color, accent, count: 8, spacing: 300, parallax: 0.05, margin: 300 });
+const mid = (shape: SceneryShape, color: string, accent?: string): SceneryLayer =>
+  ({ shape, color, accent, count: 10, spacing: 220, parallax: 0.2, margin: 200 });
+const near = (shape: SceneryShape, color: string, accent?: string): SceneryLayer =>
+  ({ shape, color, accent, count: 12, spacing: 150, parallax: 0.4, margin: 150 });
+
+export const BIOME_ART: Record<BiomeId, BiomeArt> = {
+  city: {
+    sky: ["#0f172a", "#1e293b", "#334155"],
+    fog: "#94a3b8",
+    fogAlpha: 0.15,
+    rays: false,
+    fireflies: 0,
+    layers: [far("towers", "#111827", "#1e3a8a"), mid("buildings", "#1f2937", "#fbbf24"), near("lamps", "#0b1220", "#fde68a")],
+    ground: { soil: "#1f2937", stoneTop: "#4b5563", stoneBottom: "#1f2937", edge: "#374151", edgeHighlight: "#9ca3af" },
+    grade: "#f59e0b",
+    gradeAlpha: 0.05,
+  },
+  rooftops: {
+    sky: ["#312e81", "#9d174d", "#f97316"],
+    fog: "#fb923c",
+    fogAlpha: 0.2,
+    rays: true,
+    fireflies: 0,
+    layers: [far("towers", "#3b0764", "#f9a8d4"), mid("waterTowers", "#1e1b4b"), near("chimneys", "#0f0a1f")],
+    ground: { soil: "#292524", stoneTop: "#57534e", stoneBottom: "#292524", edge: "#78716c", edgeHighlight: "#d6d3d1" },
+    grade: "#f472b6",
+    gradeAlpha: 0.06,
+  },
+  sewers: {
+    sky: ["#0c0a09", "#1c1917", "#1a2e05"],
+    fog: "#84cc16",
+    fogAlpha: 0.18,
+    rays: false,
+    fireflies: 0,
+    layers: [far("arches", "#1c1917"), mid("pipes", "#3f3f46", "#52525b"), near("grates", "#0c0a09")],
+    ground: { soil: "#1c1917", stoneTop: "#44403c", stoneBottom: "#1c1917", edge: "#365314", edgeHighlight: "#84cc16" },
+    grade: "#65a30d",
+    gradeAlpha: 0.08,
+  },
+  trainYard: {
+    sky: ["#27272a", "#52525b", "#a8a29e"],
+    fog: "#d6d3d1",
+    fogAlpha: 0.2,
+    rays: false,
+    fireflies: 0,
+    layers: [far("cranes", "#3f3f46"), mid("containers", "#7c2d12", "#9a3412"), near("signals", "#18181b", "#ef4444")],
+    ground: { soil: "#292524", stoneTop: "#78716c", stoneBottom: "#292524", edge: "#44403c", edgeHighlight: "#a8a29e" },
+    grade: "#ea580c",
+    gradeAlpha: 0.05,
+  },
+  jungle: {
+    sky: ["#022c22", "#064e3b", "#065f46"],
+    fog: "#14b8a6",
+    fogAlpha: 0.2,
+    rays: true,
+    fireflies: 1,
+    layers: [far("spires", "#011c15"), mid("trees", "#022c22"), near("foliage", "#01211b")],
+    ground: { soil: "#2d1b0d", stoneTop: "#4a3728", stoneBottom: "#2d1b0d", edge: "#064e3b", edgeHighlight: "#10b981" },
+    grade: "#10b981",
+    gradeAlpha: 0,
+  },
+};
+
+export interface BiomeBlend {
+  from: BiomeId;
+  to: BiomeId;
+  // 0 is all `from`, 1 is all `to`
+  t: number;
+}
+
+// How far the art at worldX has faded from one biome into the next
+export function getBiomeBlend(worldX: number): BiomeBlend {
+  const boundary = Math.round(worldX / BIOME_LENGTH) * BIOME_LENGTH;
+  const offset = worldX - boundary;
+  if (boundary === 0 || Math.abs(offset) >= BIOME_BLEND_WIDTH / 2) {
+    const biome = getBiomeAt(worldX);
+    return { from: biome, to: biome, t: 0 };
+  }
+  const linear = (offset + BIOME_BLEND_WIDTH / 2) / BIOME_BLEND_WIDTH;
+  return {
+    from: getBiomeAt(boundary - 1),
+    to: getBiomeAt(boundary),
+    t: linear * linear * (3 - 2 * linear),
+  };
+}
+
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export function mixColor(from: string, to: string, t: number): string {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  const [r, g, bl] = a.map((channel, i) => Math.round(channel + (b[i] - channel) * t));
+  return `rgb(${r}, ${g}, ${bl})`;
+}
+
+export function withAlpha(hex: string, alpha: number): string {
+  const [r, g, b] = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+export type BlendedBiomeArt = ReturnType<typeof blendBiomeArt>;
+
+// A biome's art with every colour and amount blended between two biomes
+export function blendBiomeArt({ from, to, t }: BiomeBlend) {
+  const a = BIOME_ART[from];
+  const b = BIOME_ART[to];
+  const groundKeys = Object.keys(a.ground) as (keyof BiomeArt["ground"])[];
+  return {
+    sky: a.sky.map((color, i) => mixColor(color, b.sky[i], t)),
+    fog: mixColor(a.fog, b.fog, t),
+    fogAlpha: a.fogAlpha + (b.fogAlpha - a.fogAlpha) * t,
+    fireflies: a.fireflies + (b.fireflies - a.fireflies) * t,
+    ground: Object.fromEntries(groundKeys.map((key) => [key, mixColor(a.ground[key], b.ground[key], t)])) as BiomeArt["ground"],
+  };
+}
+
+export interface SceneryView {
+  cameraX: number;
+  // Left edge and width of the area to cover, which is wider than the canvas when zoomed out
+  offX: number;
+  extW: number;
+  height: number;
+}
+
+const drawShape = (ctx: CanvasRenderingContext2D, layer: SceneryLayer, x: number, i: number, ground: number) => {
+  switch (layer.shape) {
+    case "spires": {
+      const height = 200 + (i % 3) * 80;
+      ctx.fillRect(x, ground - height - 100, 40, height + 100);
+      ctx.beginPath();
+      ctx.moveTo(x - 60, ground - height - 80);
+      ctx.lineTo(x + 20, ground - height - 150);
+      ctx.lineTo(x + 100, ground - height - 80);
+      ctx.fill();
+      break;
+    }
+    case "trees": {
+      const height = 150 + (i % 4) * 50;
+      ctx.fillRect(x, ground - height - 150, 50, height + 150);
+      ctx.beginPath();
+      ctx.arc(x + 25, ground - height - 150, 60, 0, Math.PI * 2);
+      ctx.arc(x - 10, ground - height - 120, 45, 0, Math.PI * 2);
+      ctx.arc(x + 60, ground - height - 120, 45, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+    case "foliage": {
+      const height = 80 + (i % 3) * 40;
+      ctx.beginPath();
+      ctx.ellipse(x + 75, ground - 100, 60, height / 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+    case "towers": {
+      const height = 260 + (i % 4) * 70;
+      const width = 90 + (i % 3) * 30;
+      ctx.fillRect(x, ground - height, width, height);
+      ctx.fillRect(x + width / 2 - 2, ground - height - 40, 4, 40);
+      if (layer.accent) {
+        ctx.fillStyle = layer.accent;
+        for (let row = 0; row < height / 30 - 1; row += 2) {
+          ctx.fillRect(x + 10, ground - height + 15 + row * 30, width - 20, 3);
+        }
+        ctx.fillStyle = layer.color;
+      }
+      break;
+    }
+    case "buildings": {
+      const height = 160 + (i % 4) * 40;
+      ctx.fillRect(x, ground - height - 100, 120, height + 100);
+      if (layer.accent) {
+        ctx.fillStyle = layer.accent;
+        for (let row = 0; row < 5; row++) {
+          for (let col = 0; col < 3; col++) {
+            // Fixed pattern of lit windows, so they don't flicker frame to frame
+            if ((i * 7 + row * 3 + col * 5) % 4 !== 0) continue;
+            ctx.fillRect(x + 15 + col * 35, ground - height - 80 + row * 35, 16, 20);
+          }
+        }
+        ctx.fillStyle = layer.color;
+      }
+      break;
+    }
+    case "lamps": {
+      ctx.fillRect(x + 70, ground - 220, 6, 220);
+      ctx.fillRect(x + 70, ground - 220, 36, 6);
+      if (layer.accent) {
+        ctx.fillStyle = withAlpha(layer.accent, 0.35);
+        ctx.beginPath();
+        ctx.arc(x + 104, ground - 212, 18, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = layer.color;
+      }
+      break;
+    }
+    case "waterTowers": {
+      const top = ground - 200 - (i % 3) * 40;
+      ctx.fillRect(x, top + 80, 8, ground - top - 80);
+      ctx.fillRect(x + 72, top + 80, 8, ground - top - 80);
+      ctx.fillRect(x - 5, top, 90, 85);
+      ctx.beginPath();
+      ctx.moveTo(x - 10, top);
+      ctx.lineTo(x + 40, top - 35);
+      ctx.lineTo(x + 90, top);
+      ctx.fill();
+      ctx.fillRect(x + 140, top - 60, 3, ground - top + 60);
+      break;
+    }
+    case "chimneys": {
+      const height = 60 + (i % 3) * 30;
+      ctx.fillRect(x + 40, ground - 100 - height, 40, height);
+      ctx.fillRect(x + 34, ground - 108 - height, 52, 10);
+      break;
+    }
+    case "arches": {
+      // Brick tunnel mouth: two piers under a thick arch
+      const springY = ground - 110 - (i % 2) * 40;
+      ctx.fillRect(x, springY, 40, ground - springY);
+      ctx.fillRect(x + 260, springY, 40, ground - springY);
+      ctx.save();
+      ctx.strokeStyle = layer.color;
+      ctx.lineWidth = 40;
+      ctx.beginPath();
+      ctx.arc(x + 150, springY, 130, Math.PI, 0);
+      ctx.stroke();
+      ctx.restore();
+      break;
+    }
+    case "pipes": {
+      const y = ground - 260 - (i % 3) * 50;
+      ctx.fillRect(x - 100, y, 320, 24);
+      ctx.fillRect(x + 60, y, 24, ground - y);
+      if (layer.accent) {
+        ctx.fillStyle = layer.accent;
+        ctx.fillRect(x + 54, y - 4, 36, 32);
+        ctx.fillStyle = layer.color;
+      }
+      break;
+    }
+    case "grates": {
+      for (let bar = 0; bar < 5; bar++) {
+        ctx.fillRect(x + 40 + bar * 14, ground - 180, 5, 100);
+      }
+      ctx.fillRect(x + 34, ground - 186, 66, 8);
+      break;
+    }
+    case "cranes": {
+      const height = 300 + (i % 3) * 50;
+      ctx.fillRect(x, ground - height, 16, height);
+      ctx.fillRect(x - 60, ground - height, 220, 12);
+      ctx.fillRect(x + 140, ground - height + 12, 2, 90 + (i % 4) * 30);
+      break;
+    }
+    case "containers": {
+      const stack = 1 + (i % 3);
+      for (let level = 0; level < stack; level++) {
+        ctx.fillStyle = level % 2 === 0 ? layer.color : layer.accent ?? layer.color;
+        ctx.fillRect(x + (level % 2) * 20, ground - 150 - (level + 1) * 55, 160, 52);
+      }
+      ctx.fillStyle = layer.color;
+      break;
+    }
+    case "signals": {
+      ctx.fillRect(x + 60, ground - 230, 6, 150);
+      ctx.fillRect(x + 50, ground - 250, 26, 40);
+      if (layer.accent) {
+        ctx.fillStyle = layer.accent;
+        ctx.beginPath();
+        ctx.arc(x + 63, ground - 238, 6, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = layer.color;
+      }
+      break;
+    }
+  }
+};
+
+const drawRays = (ctx: CanvasRenderingContext2D, cameraX: number) => {
+  ctx.save();
+  ctx.globalCompositeOperation = "screen";
+  const rayGradient = ctx.createLinearGradient(0, 0, 200, 400);
+  rayGradient.addColorStop(0, "rgba(255, 255, 200, 0.15)");
+  rayGradient.addColorStop(1, "rgba(255, 255, 200, 0)");
+  ctx.fillStyle = rayGradient;
+  for (let i = 0; i < 5; i++) {
+    const startX = (i * 250 - (cameraX * 0.1) % 400) + 100;
+    ctx.beginPath();
+    ctx.moveTo(startX, 0);
+    ctx.lineTo(startX + 150, 0);
+    ctx.lineTo(startX - 200, 600);
+    ctx.lineTo(startX - 350, 600);
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+// Draws a biome's light shafts and parallax layers. Callers crossfade two
+// biomes by drawing each with the matching globalAlpha.
+export function drawBiomeScenery(ctx: CanvasRenderingContext2D, biome: BiomeId, view: SceneryView) {
+  const art = BIOME_ART[biome];
+  art.layers.forEach((layer, depth) => {
+    if (depth === 1 && art.rays) drawRays(ctx, view.cameraX);
+    const wrapWidth = view.extW + layer.margin * 2;
+    ctx.fillStyle = layer.color;
+    for (let i = 0; i < layer.count; i++) {
+      const scrolled = i * layer.spacing - view.cameraX * layer.parallax;
+      // Wrap into [0, wrapWidth) even once the camera has scrolled past the start
+      const x = ((scrolled % wrapWidth) + wrapWidth) % wrapWidth - layer.margin + view.offX;
+      drawShape(ctx, layer, x, i, view.height);
+    }
+  });
+}
@@ -0,0 +1,281 @@
+import { BASE_GROUND_Y, CANVAS_HEIGHT, CANVAS_WIDTH, SLIDE_HEIGHT } from "@shared/engine/constants";
+import { DEFAULT_OBSTACLE_HEIGHTS, LEVEL_VERSION, MAX_LEVEL_LENGTH, type Level } from "@shared/engine/level";
+import type { HeistSimulation } from "@shared/engine/simulation";
+
+// Editing helpers for the level editor. They all take a level and return a
+// new one, so the editor can keep its draft in React state.
+
+type ObstacleType = Level["obstacles"][number]["type"];
+
+export type EditorTool = "select" | "terrain" | ObstacleType | "vine" | "coin" | "platform" | "checkpoint";
+
+export const EDITOR_TOOLS: { id: EditorTool; name: string }[] = [
+  { id: "select", name: "Select" },
+  { id: "terrain", name: "Ground Point" },
+  { id: "spike", name: "Spike" },
+  { id: "low_beam", name: "Low Beam" },
+  { id: "gap", name: "Gap" },
+  { id: "ramp", name: "Ramp" },
+  { id: "mushroom", name: "Bounce Pad" },
+  { id: "vine", name: "Vine" },
+  { id: "coin", name: "Coin" },
+  { id: "platform", name: "Platform" },
+  { id: "checkpoint", name: "Checkpoint" },
+];
+
+// Width an obstacle gets when first placed
+const DEFAULT_OBSTACLE_WIDTHS: Record<ObstacleType, number> = {
+  spike: 40,
+  low_beam: 60,
+  gap: 200,
+  ramp: 120,
+  mushroom: 60,
+  warning: 40,
+};
+
+// Something in the level, by the list it lives in and its index there
+export type EditorSelection =
+  | { kind: "terrain" | "obstacle" | "vine" | "coin" | "platform" | "checkpoint"; index: number }
+  | { kind: "extraction" };
+
+export interface TerrainPoint {
+  x: number;
+  y: number;
+}
+
+// Closest distance between terrain points, so no segment collapses to nothing
+const MIN_SEGMENT_WIDTH = 20;
+// How close (in pixels) a click must be to grab something
+const GRAB_RADIUS = 14;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const clampX = (x: number) => Math.round(clamp(x, 0, MAX_LEVEL_LENGTH));
+const clampY = (y: number) => Math.round(clamp(y, 0, CANVAS_HEIGHT));
+
+// Flat ground with the helicopter a short run away: a starting point to build on
+export function createBlankLevel(): Level {
+  const extractionX = 3000;
+  return {
+    version: LEVEL_VERSION,
+    id: "my-level",
+    name: "My Level",
+    description: "",
+    biome: "city",
+    chase: true,
+    terrain: [{ startX: 0, endX: extractionX + CANVAS_WIDTH, startY: BASE_GROUND_Y, endY: BASE_GROUND_Y }],
+    obstacles: [],
+    platforms: [],
+    vines: [],
+    coins: [],
+    powerUps: [],
+    checkpoints: [],
+    extraction: { x: extractionX, y: 100 },
+  };
+}
+
+// The ground as the points where its segments meet, which is what the editor drags
+export function getTerrainPoints(level: Level): TerrainPoint[] {
+  const { terrain } = level;
+  return [
+    { x: terrain[0].startX, y: terrain[0].startY },
+    ...terrain.map((segment) => ({ x: segment.endX, y: segment.endY })),
+  ];
+}
+
+function withTerrainPoints(level: Level, points: TerrainPoint[]): Level {
+  const terrain = points.slice(1).map((point, i) => ({
+    startX: points[i].x,
+    startY: points[i].y,
+    endX: point.x,
+    endY: point.y,
+  }));
+  return { ...level, terrain };
+}
+
+// Ground height at x along the level's own segments, ignoring gaps
+export function getGroundY(level: Level, x: number): number {
+  const segment = level.terrain.find((s) => x >= s.startX && x < s.endX) ?? level.terrain[level.terrain.length - 1];
+  const t = clamp((x - segment.startX) / (segment.endX - segment.startX), 0, 1);
+  return segment.startY + (segment.endY - segment.startY) * t;
+}
+
+// Adds a ground point at (x, y), splitting the segment under it
+export function addTerrainPoint(level: Level, x: number, y: number): { level: Level; selection: EditorSelection } {
+  const points = getTerrainPoints(level);
+  const index = points.findIndex((point) => point.x > x);
+  if (index <= 0) {
+    // Past the end of the ground: extend it
+    points.push({ x: clampX(Math.max(x, points[points.length - 1].x + MIN_SEGMENT_WIDTH)), y: clampY(y) });
+    return { level: withTerrainPoints(level, points), selection: { kind: "terrain", index: points.length - 1 } };
+  }
+  if (x - points[index - 1].x < MIN_SEGMENT_WIDTH || points[index].x - x < MIN_SEGMENT_WIDTH) {
+    return { level, selection: { kind: "terrain", index: x - points[index - 1].x < MIN_SEGMENT_WIDTH ? index - 1 : index } };
+  }
+  points.splice(index, 0, { x: Math.round(x), y: clampY(y) });
+  return { level: withTerrainPoints(level, points), selection: { kind: "terrain", index } };
+}
+
+// Places a new item with `tool` at the clicked point. Obstacles and
+// checkpoints go on the ground, the rest where the click was.
+export function placeItem(level: Level, tool: EditorTool, x: number, y: number): { level: Level; selection: EditorSelection } | null {
+  x = clampX(x);
+  y = clampY(y);
+  switch (tool) {
+    case "select":
+      return null;
+    case "terrain":
+      return addTerrainPoint(level, x, y);
+    case "vine": {
+      const vines = [...level.vines, { x, length: 200, angle: -Math.PI / 4, anchorY: Math.min(y, 200) }];
+      return { level: { ...level, vines }, selection: { kind: "vine", index: vines.length - 1 } };
+    }
+    case "coin": {
+      const coins = [...level.coins, { x, y }];
+      return { level: { ...level, coins }, selection: { kind: "coin", index: coins.length - 1 } };
+    }
+    case "platform": {
+      const platforms = [...level.platforms, { kind: "ledge" as const, x, y, width: 240 }];
+      return { level: { ...level, platforms }, selection: { kind: "platform", index: platforms.length - 1 } };
+    }
+    case "checkpoint": {
+      const checkpoints = [...level.checkpoints, x].sort((a, b) => a - b);
+      return { level: { ...level, checkpoints }, selection: { kind: "checkpoint", index: checkpoints.indexOf(x) } };
+    }
+    default: {
+      const width = DEFAULT_OBSTACLE_WIDTHS[tool];
+      const obstacles = [...level.obstacles, { type: tool, x: clampX(x - width / 2), width }];
+      return { level: { ...level, obstacles }, selection: { kind: "obstacle", index: obstacles.length - 1 } };
+    }
+  }
+}
+
+// The topmost item under (x, y). `sim` is the level loaded into a simulation,
+// which knows the ground height obstacles are drawn at.
+export function hitTest(level: Level, sim: HeistSimulation, x: number, y: number): EditorSelection | null {
+  const near = (px: number, py: number) => Math.hypot(px - x, py - y) <= GRAB_RADIUS;
+
+  const pointIndex = getTerrainPoints(level).findIndex((point) => near(point.x, point.y));
+  if (pointIndex !== -1) return { kind: "terrain", index: pointIndex };
+
+  if (Math.abs(level.extraction.x - x) <= 70 && Math.abs(level.extraction.y - y) <= 40) return { kind: "extraction" };
+
+  const coinIndex = level.coins.findIndex((coin) => near(coin.x, coin.y));
+  if (coinIndex !== -1) return { kind: "coin", index: coinIndex };
+
+  const vineIndex = level.vines.findIndex((vine) =>
+    near(vine.x, vine.anchorY) ||
+    near(vine.x + Math.sin(vine.angle) * vine.length, vine.anchorY + Math.cos(vine.angle) * vine.length));
+  if (vineIndex !== -1) return { kind: "vine", index: vineIndex };
+
+  const platformIndex = level.platforms.findIndex((platform) =>
+    x >= platform.x && x <= platform.x + platform.width && y >= platform.y - 10 && y <= platform.y + 20);
+  if (platformIndex !== -1) return { kind: "platform", index: platformIndex };
+
+  const checkpointIndex = level.checkpoints.findIndex((checkpointX) =>
+    Math.abs(checkpointX - x) <= 10 && y <= getGroundY(level, checkpointX) && y >= getGroundY(level, checkpointX) - 90);
+  if (checkpointIndex !== -1) return { kind: "checkpoint", index: checkpointIndex };
+
+  // Later obstacles are drawn on top, so they win
+  for (let i = sim.obstacles.length - 1; i >= 0; i--) {
+    const obstacle = sim.obstacles[i];
+    if (x < obstacle.x || x > obstacle.x + obstacle.width) continue;
+    const groundY = sim.getTerrainHeight(obstacle.x + obstacle.width / 2);
+    const top = obstacle.type === "gap" ? BASE_GROUND_Y : obstacle.type === "low_beam" ? 0 : groundY - obstacle.height;
+    const bottom = obstacle.type === "gap" ? CANVAS_HEIGHT : obstacle.type === "low_beam" ? groundY - SLIDE_HEIGHT - 20 : groundY;
+    if (y >= top - GRAB_RADIUS && y <= bottom + GRAB_RADIUS) return { kind: "obstacle", index: i };
+  }
+  return null;
+}
+
+// Where a selected item is, for dragging it by an offset
+export function getSelectionPosition(level: Level, selection: EditorSelection): TerrainPoint {
+  switch (selection.kind) {
+    case "terrain":
+      return getTerrainPoints(level)[selection.index];
+    case "obstacle": {
+      const obstacle = level.obstacles[selection.index];
+      return { x: obstacle.x, y: getGroundY(level, obstacle.x) };
+    }
+    case "vine":
+      return { x: level.vines[selection.index].x, y: level.vines[selection.index].anchorY };
+    case "coin":
+      return level.coins[selection.index];
+    case "platform":
+      return level.platforms[selection.index];
+    case "checkpoint":
+      return { x: level.checkpoints[selection.index], y: getGroundY(level, level.checkpoints[selection.index]) };
+    case "extraction":
+      return level.extraction;
+  }
+}
+
+// Moves the selected item to (x, y). Checkpoints stay in order, so the
+// selection may point somewhere new afterwards.
+export function moveSelection(level: Level, selection: EditorSelection, x: number, y: number): { level: Level; selection: EditorSelection } {
+  x = clampX(x);
+  y = clampY(y);
+  const replace = <T>(items: T[], index: number, item: T) => items.map((current, i) => (i === index ? item : current));
+
+  switch (selection.kind) {
+    case "terrain": {
+      const points = getTerrainPoints(level);
+      const { index } = selection;
+      // The ground always starts at x=0
+      const minX = index === 0 ? 0 : points[index - 1].x + MIN_SEGMENT_WIDTH;
+      const maxX = index === 0 ? 0 : index === points.length - 1 ? MAX_LEVEL_LENGTH : points[index + 1].x - MIN_SEGMENT_WIDTH;
+      points[index] = { x: clamp(x, minX, maxX), y };
+      return { level: withTerrainPoints(level, points), selection };
+    }
+    case "obstacle": {
+      const obstacle = level.obstacles[selection.index];
+      return { level: { ...level, obstacles: replace(level.obstacles, selection.index, { ...obstacle, x }) }, selection };
+    }
+    case "vine": {
+      const vine = level.vines[selection.index];
+      return { level: { ...level, vines: replace(level.vines, selection.index, { ...vine, x, anchorY: y }) }, selection };
+    }
+    case "coin":
+      return { level: { ...level, coins: replace(level.coins, selection.index, { x, y }) }, selection };
+    case "platform": {
+      const platform = level.platforms[selection.index];
+      return { level: { ...level, platforms: replace(level.platforms, selection.index, { ...platform, x, y }) }, selection };
+    }
+    case "checkpoint": {
+      const checkpoints = replace(level.checkpoints, selection.index, x);
+      const sorted = [...checkpoints].sort((a, b) => a - b);
+      return { level: { ...level, checkpoints: sorted }, selection: { kind: "checkpoint", index: sorted.indexOf(x) } };
+    }
+    case "extraction":
+      return { level: { ...level, extraction: { x, y: clamp(y, 40, 250) } }, selection };
+  }
+}
+
+export function removeSelection(level: Level, selection: EditorSelection): Level {
+  const without = <T>(items: T[], index: number) => items.filter((_, i) => i !== index);
+  switch (selection.kind) {
+    case "terrain": {
+      const points = getTerrainPoints(level);
+      // The first point and at least one segment have to stay
+      if (selection.index === 0 || points.length <= 2) return level;
+      return withTerrainPoints(level, without(points, selection.index));
+    }
+    case "obstacle":
+      return { ...level, obstacles: without(level.obstacles, selection.index) };
+    case "vine":
+      return { ...level, vines: without(level.vines, selection.index) };
+    case "coin":
+      return { ...level, coins: without(level.coins, selection.index) };
+    case "platform":
+      return { ...level, platforms: without(level.platforms, selection.index) };
+    case "checkpoint":
+      return { ...level, checkpoints: without(level.checkpoints, selection.index) };
+    case "extraction":
+      // Every level needs its helicopter
+      return level;
+  }
+}
+
+// Height an obstacle is drawn and collides at, filling in the default
+export function getObstacleHeight(obstacle: Level["obstacles"][number]) {
+  return obstacle.height ?? DEFAULT_OBSTACLE_HEIGHTS[obstacle.type];
+}
@@ -0,0 +1,65 @@
+import { POWER_UP_STYLES } from "@/lib/power-up-styles";
+import type { SimulationEventBus } from "@shared/engine/events";
+import type { HeistSimulation } from "@shared/engine/simulation";
+
+// What the renderer exposes for event effects
+export interface ParticleEffects {
+  createParticles: (x: number, y: number, color: string, count: number) => void;
+  shake: (amount: number) => void;
+  // Squashes the bounce pad centred at x
+  squashPad: (x: number) => void;
+}
+
+// Particles and screen shake for simulation events. Returns the unsubscribe.
+export function subscribeParticleEffects(
+  events: SimulationEventBus,
+  sim: HeistSimulation,
+  { createParticles, shake, squashPad }: ParticleEffects,
+): () => void {
+  const unsubscribes = [
+    events.on("jump", (event) => createParticles(event.x, event.y, "#8d6e63", 3)),
+    events.on("land", (event) => {
+      createParticles(event.x, event.y, "#8d6e63", 2);
+      shake(8);
+    }),
+    events.on("bounce", (event) => {
+      createParticles(event.x, event.y, "#ff4081", 12);
+      squashPad(event.x);
+    }),
+    events.on("slideBoost", (event) => {
+      createParticles(event.x, event.y, "#ffffff", event.speed > 30 ? 8 : 2); // Speed air
+      if (sim.frameCount % 2 === 0) {
+        createParticles(event.x, event.y, "#4a3728", 1); // Ground smoke/friction
+      }
+    }),
+    events.on("vineRelease", (event) => createParticles(event.x, event.y, "#4caf50", 10)),
+    events.on("coin", (event) => createParticles(event.x, event.y, "#fbbf24", 5)),
+    events.on("powerUp", (event) => {
+      createParticles(event.x, event.y, POWER_UP_STYLES[event.kind].color, 15);
+      if (event.kind === "smokeBomb") {
+        // Cloud left behind for the police to drive into
+        createParticles(sim.player.x - 40, sim.player.y + 20, "#71717a", 40);
+        shake(12);
+      }
+    }),
+    events.on("shieldBreak", (event) => {
+      createParticles(event.x, event.y, POWER_UP_STYLES.shield.color, 25);
+      shake(10);
+    }),
+    events.on("wallHit", (event) => {
+      shake(10);
+      createParticles(event.x, event.y, "#f59e0b", 5); // Sparks
+    }),
+    events.on("crash", (event) => createParticles(event.x, event.y, "#e53935", 10)),
+    events.on("caught", (event) => createParticles(event.x, event.y, "#ef4444", 20)),
+    events.on("pursuerHalted", (event) => {
+      if (event.kind === "motorbike") createParticles(event.x, event.y - 20, "#f59e0b", 12); // Sparks off the spike
+    }),
+    events.on("checkpoint", (event) => createParticles(event.x, event.y, "#4ade80", 30)), // Green confetti
+    events.on("respawn", (event) => {
+      shake(20);
+      createParticles(event.x, event.y, "#4ade80", 50); // Green respawn particles
+    }),
+  ];
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,10 @@
+import { CloudFog, Magnet, Shield, Zap, type LucideIcon } from "lucide-react";
+import type { PowerUpKind } from "@shared/engine/types";
+
+// HUD icon and accent colour for each power-up (also used for the pickup art)
+export const POWER_UP_STYLES: Record<PowerUpKind, { icon: LucideIcon; color: string }> = {
+  magnet: { icon: Magnet, color: "#f43f5e" },
+  shield: { icon: Shield, color: "#38bdf8" },
+  smokeBomb: { icon: CloudFog, color: "#a1a1aa" },
+  speedBurst: { icon: Zap, color: "#facc15" },
+};
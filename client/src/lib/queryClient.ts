@@ -23,6 +23,17 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors look like `401: {"error":"..."}`; pull out just the message
+export function describeApiError(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
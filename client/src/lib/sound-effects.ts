@@ -0,0 +1,33 @@
+import type { useSound } from "@/hooks/useSound";
+import type { SimulationEventBus } from "@shared/engine/events";
+
+type Sounds = ReturnType<typeof useSound>;
+
+// Plays the sound for each simulation event. `getSounds` is read on every
+// event so toggling sound takes effect mid-run. Returns the unsubscribe.
+export function subscribeSoundEffects(events: SimulationEventBus, getSounds: () => Sounds): () => void {
+  const unsubscribes = [
+    events.on("jump", () => getSounds().playJump()),
+    events.on("bounce", () => getSounds().playBounce()),
+    events.on("vineGrab", () => getSounds().playVineGrab()),
+    events.on("vineRelease", () => getSounds().playVineRelease()),
+    events.on("coin", () => getSounds().playCoin()),
+    events.on("powerUp", () => getSounds().playPowerUp()),
+    events.on("shieldBreak", () => getSounds().playShieldBreak()),
+    events.on("pursuerArrived", (event) => {
+      if (event.kind === "motorbike") getSounds().playEngineRev();
+      else if (event.kind === "k9") getSounds().playBark();
+      else getSounds().playRotor();
+    }),
+    events.on("pursuerLeap", (event) => {
+      if (event.kind === "k9") getSounds().playBark();
+      else getSounds().playEngineRev();
+    }),
+    events.on("pursuerHalted", (event) => {
+      if (event.kind === "motorbike") getSounds().playSkid();
+      else getSounds().playBark();
+    }),
+    events.on("spotlight", () => getSounds().playSpotlight()),
+  ];
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,628 @@
+import { BASE_GROUND_Y, CANVAS_HEIGHT, CANVAS_WIDTH, SLIDE_HEIGHT } from "@shared/engine/constants";
+import type { HeistSimulation } from "@shared/engine/simulation";
+import type { Coin, Obstacle, Platform, PowerUp, TerrainSegment, Vine } from "@shared/engine/types";
+import { BIOME_ART, drawBiomeScenery, withAlpha, type BiomeBlend, type BlendedBiomeArt } from "@/lib/biome-art";
+import { POWER_UP_STYLES } from "@/lib/power-up-styles";
+
+// Drawing for the world itself (sky, ground, obstacles, pickups), shared by
+// the game and the level editor. Everything is read from a simulation and
+// drawn relative to cameraX; actors and effects stay with the game.
+export interface WorldScene {
+  ctx: CanvasRenderingContext2D;
+  sim: HeistSimulation;
+  cameraX: number;
+  zoom: number;
+  biomeBlend: BiomeBlend;
+  art: BlendedBiomeArt;
+  // Most recent bounce, so that pad can be drawn squashing
+  padSquash: { x: number; frame: number };
+}
+
+export function drawBackground(scene: WorldScene) {
+  const { ctx, cameraX, art, biomeBlend, zoom } = scene;
+  const zs = 1 / zoom;
+  const extW = CANVAS_WIDTH * zs + 100;
+  const extH = CANVAS_HEIGHT * zs + 100;
+  const offX = -((extW - CANVAS_WIDTH) / 2);
+  const offY = -((extH - CANVAS_HEIGHT) / 2);
+
+  // Sky gradient - covers extended area
+  const skyGradient = ctx.createLinearGradient(0, offY, 0, offY + extH);
+  skyGradient.addColorStop(0, art.sky[0]);
+  skyGradient.addColorStop(0.4, art.sky[1]);
+  skyGradient.addColorStop(1, art.sky[2]);
+  ctx.fillStyle = skyGradient;
+  ctx.fillRect(offX, offY, extW, extH);
+
+  // Atmospheric Fog / Horizon Depth
+  const fogGradient = ctx.createLinearGradient(0, CANVAS_HEIGHT * 0.4, 0, offY + extH);
+  fogGradient.addColorStop(0, withAlpha(art.fog, 0));
+  fogGradient.addColorStop(1, withAlpha(art.fog, art.fogAlpha));
+  ctx.fillStyle = fogGradient;
+  ctx.fillRect(offX, CANVAS_HEIGHT * 0.4, extW, extH * 0.6);
+
+  // Parallax scenery, crossfading into the next biome near a boundary
+  const scenery = { cameraX, offX, extW, height: CANVAS_HEIGHT };
+  ctx.save();
+  ctx.globalAlpha = 1 - biomeBlend.t;
+  drawBiomeScenery(ctx, biomeBlend.from, scenery);
+  if (biomeBlend.t > 0) {
+    ctx.globalAlpha = biomeBlend.t;
+    drawBiomeScenery(ctx, biomeBlend.to, scenery);
+  }
+  ctx.restore();
+}
+
+// Mood tint over the world, blended the same way as the scenery
+export function drawColorGrade(scene: WorldScene) {
+  const { ctx, biomeBlend } = scene;
+  ctx.save();
+  const from = BIOME_ART[biomeBlend.from];
+  const to = BIOME_ART[biomeBlend.to];
+  ctx.fillStyle = withAlpha(from.grade, from.gradeAlpha * (1 - biomeBlend.t));
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.fillStyle = withAlpha(to.grade, to.gradeAlpha * biomeBlend.t);
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.restore();
+}
+
+export function drawTerrain(scene: WorldScene) {
+  const { ctx, sim, cameraX, art } = scene;
+  ctx.save();
+  const visibleStart = cameraX - 100;
+  const visibleEnd = cameraX + CANVAS_WIDTH + 100;
+
+  // Helper to draw a contiguous terrain block
+  const drawBlock = (segments: TerrainSegment[], layer: "soil" | "stone" | "moss") => {
+    if (segments.length === 0) return;
+
+    ctx.beginPath();
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+
+    if (layer === "soil") {
+      ctx.moveTo(first.startX - cameraX, first.startY + 40);
+      segments.forEach(s => ctx.lineTo(s.endX - cameraX, s.endY + 40));
+      ctx.lineTo(last.endX - cameraX, CANVAS_HEIGHT);
+      ctx.lineTo(first.startX - cameraX, CANVAS_HEIGHT);
+      ctx.fill();
+    } else if (layer === "stone") {
+      ctx.moveTo(first.startX - cameraX, first.startY);
+      segments.forEach(s => ctx.lineTo(s.endX - cameraX, s.endY));
+      ctx.lineTo(last.endX - cameraX, CANVAS_HEIGHT);
+      ctx.lineTo(first.startX - cameraX, CANVAS_HEIGHT);
+      ctx.fill();
+    } else { // moss
+      ctx.moveTo(first.startX - cameraX, first.startY);
+      segments.forEach(s => ctx.lineTo(s.endX - cameraX, s.endY));
+      ctx.stroke();
+    }
+  };
+
+  // Group segments into "mainland" blocks separated by gaps
+  const blocks: TerrainSegment[][] = [];
+  let currentBlock: TerrainSegment[] = [];
+
+  sim.terrain.forEach((segment: TerrainSegment) => {
+    if (segment.endX < visibleStart || segment.startX > visibleEnd) return;
+
+    // Check for interactions with gaps
+    const overlappingGaps = sim.obstacles.filter((o: Obstacle) => o.type === "gap" &&
+      !(segment.endX <= o.x || segment.startX >= o.x + o.width)
+    ).sort((a, b) => a.x - b.x);
+
+    if (overlappingGaps.length === 0) {
+      currentBlock.push({
+        startX: segment.startX,
+        endX: segment.endX,
+        startY: sim.getTerrainHeight(segment.startX, true),
+        endY: sim.getTerrainHeight(segment.endX, true),
+      });
+    } else {
+      // Complex case: Segment hits one or more gaps.
+      // We need to carve it up.
+      let cursor = segment.startX;
+
+      overlappingGaps.forEach(gap => {
+        // 1. Draw solid ground BEFORE the gap
+        if (cursor < gap.x) {
+          // Create a temp segment for the solid part
+          const end = Math.min(segment.endX, gap.x);
+          currentBlock.push({
+            startX: cursor,
+            endX: end,
+            startY: sim.getTerrainHeight(cursor, true),
+            endY: sim.getTerrainHeight(end, true)
+          });
+        }
+
+        // 2. We hit a gap. End the current block to break the visual mesh.
+        if (currentBlock.length > 0) blocks.push(currentBlock);
+        currentBlock = [];
+
+        // 3. Move cursor to end of gap
+        cursor = Math.max(cursor, gap.x + gap.width);
+      });
+
+      // 4. Trail after the last gap?
+      if (cursor < segment.endX) {
+        currentBlock.push({
+          startX: cursor,
+          endX: segment.endX,
+          startY: sim.getTerrainHeight(cursor, true),
+          endY: sim.getTerrainHeight(segment.endX, true)
+        });
+      }
+    }
+  });
+  if (currentBlock.length > 0) blocks.push(currentBlock);
+
+  // 1. Deep soil
+  ctx.fillStyle = art.ground.soil;
+  blocks.forEach(b => drawBlock(b, "soil"));
+
+  // 2. Stone/Earth
+  const stoneGradient = ctx.createLinearGradient(0, BASE_GROUND_Y, 0, CANVAS_HEIGHT);
+  stoneGradient.addColorStop(0, art.ground.stoneTop);
+  stoneGradient.addColorStop(1, art.ground.stoneBottom);
+  ctx.fillStyle = stoneGradient;
+  blocks.forEach(b => drawBlock(b, "stone"));
+
+  // 3. Top edge (moss, kerb, parapet...)
+  ctx.strokeStyle = art.ground.edge;
+  ctx.lineWidth = 14;
+  ctx.lineJoin = "round";
+  blocks.forEach(b => drawBlock(b, "moss"));
+
+  ctx.strokeStyle = art.ground.edgeHighlight;
+  ctx.lineWidth = 6;
+  blocks.forEach(b => drawBlock(b, "moss"));
+
+  ctx.restore();
+}
+
+export function drawObstacle(scene: WorldScene, obs: Obstacle) {
+  const { ctx, sim, cameraX, padSquash } = scene;
+  const screenX = obs.x - cameraX;
+  const groundY = sim.getTerrainHeight(obs.x + obs.width / 2);
+
+  ctx.save();
+
+  switch (obs.type) {
+    case "spike":
+      const spikeGradient = ctx.createLinearGradient(screenX, groundY, screenX, groundY - obs.height);
+      spikeGradient.addColorStop(0, "#44403c"); // Dark steel
+      spikeGradient.addColorStop(0.5, "#a8a29e"); // Highlight
+      spikeGradient.addColorStop(1, "#44403c");
+      ctx.fillStyle = spikeGradient;
+      ctx.beginPath();
+      ctx.moveTo(screenX, groundY);
+      ctx.lineTo(screenX + obs.width / 2, groundY - obs.height);
+      ctx.lineTo(screenX + obs.width, groundY);
+      ctx.fill();
+      // Sharp edge highlight
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      break;
+
+    case "mushroom": {
+      // Squash right after a bounce, then spring back with a wobble
+      const sinceBounce = sim.frameCount - padSquash.frame;
+      const justBounced = padSquash.x === obs.x + obs.width / 2 && sinceBounce < 20;
+      const squash = justBounced ? 1 - 0.35 * Math.cos(sinceBounce * 0.5) * (1 - sinceBounce / 20) : 1;
+      const padHeight = obs.height * squash;
+      const capY = groundY - padHeight * 0.45;
+
+      // Stalk with texture
+      ctx.fillStyle = "#f5f5f4";
+      ctx.fillRect(screenX + obs.width / 3, capY, obs.width / 3, groundY - capY);
+
+      // Organic Cap Gradient (dome resting on the stalk)
+      const capGradient = ctx.createRadialGradient(screenX + obs.width / 2, capY, 0, screenX + obs.width / 2, capY, obs.width / 2);
+      capGradient.addColorStop(0, "#ef4444");
+      capGradient.addColorStop(0.8, "#991b1b");
+      capGradient.addColorStop(1, "#450a0a");
+      ctx.fillStyle = capGradient;
+      ctx.beginPath();
+      ctx.ellipse(screenX + obs.width / 2, capY, obs.width / 2, padHeight * 0.55, 0, Math.PI, Math.PI * 2);
+      ctx.closePath();
+      ctx.fill();
+
+      // Bioluminescent glow spots
+      ctx.shadowBlur = 10;
+      ctx.shadowColor = "#ffffff";
+      ctx.fillStyle = "#ffffff";
+      ctx.beginPath(); ctx.arc(screenX + obs.width / 2, capY - padHeight * 0.3, 5, 0, Math.PI * 2); ctx.fill();
+      ctx.beginPath(); ctx.arc(screenX + obs.width / 4, capY - padHeight * 0.12, 4, 0, Math.PI * 2); ctx.fill();
+      ctx.beginPath(); ctx.arc(screenX + obs.width / 1.4, capY - padHeight * 0.12, 4, 0, Math.PI * 2); ctx.fill();
+      ctx.shadowBlur = 0;
+      break;
+    }
+
+
+
+    case "gap":
+      // Draw the ABYSS first (fill the hole with darkness)
+      ctx.fillStyle = "#000000";
+      ctx.fillRect(screenX, BASE_GROUND_Y, obs.width, CANVAS_HEIGHT - BASE_GROUND_Y);
+
+      ctx.save();
+      // Side Walls (Depth) - subtle gradient to suggest dirt walls
+      const sideWallGradient = ctx.createLinearGradient(screenX, BASE_GROUND_Y, screenX, CANVAS_HEIGHT);
+      sideWallGradient.addColorStop(0, "#2d1b0d");
+      sideWallGradient.addColorStop(1, "#000000");
+
+      ctx.fillStyle = sideWallGradient;
+      // Left Wall
+      ctx.fillRect(screenX, BASE_GROUND_Y, 20, CANVAS_HEIGHT - BASE_GROUND_Y);
+      // Right Wall
+      ctx.fillRect(screenX + obs.width - 20, BASE_GROUND_Y, 20, CANVAS_HEIGHT - BASE_GROUND_Y);
+
+      // Sharp Moss edges
+      ctx.strokeStyle = "#064e3b";
+      ctx.lineWidth = 14;
+      ctx.beginPath();
+      ctx.moveTo(screenX, BASE_GROUND_Y);
+      ctx.lineTo(screenX, BASE_GROUND_Y + 10);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(screenX + obs.width, BASE_GROUND_Y);
+      ctx.lineTo(screenX + obs.width, BASE_GROUND_Y + 10);
+      ctx.stroke();
+
+      ctx.strokeStyle = "#10b981";
+      ctx.lineWidth = 6;
+      ctx.beginPath(); ctx.moveTo(screenX, BASE_GROUND_Y); ctx.lineTo(screenX, BASE_GROUND_Y + 10); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(screenX + obs.width, BASE_GROUND_Y); ctx.lineTo(screenX + obs.width, BASE_GROUND_Y + 10); ctx.stroke();
+
+      ctx.restore();
+      break;
+
+    case "ramp":
+      const rampGradient = ctx.createLinearGradient(screenX, groundY, screenX + obs.width, groundY - obs.height);
+      rampGradient.addColorStop(0, "#065f46");
+      rampGradient.addColorStop(1, "#10b981");
+      ctx.fillStyle = rampGradient;
+      ctx.beginPath();
+      ctx.moveTo(screenX, groundY);
+      ctx.lineTo(screenX + obs.width, groundY - obs.height);
+      ctx.lineTo(screenX + obs.width, groundY);
+      ctx.closePath();
+      ctx.fill();
+      break;
+
+    case "low_beam":
+      // "Slide Wall" - Big wall with a gap at the bottom
+      // Draw from top of screen down to the slide height
+      const gapHeight = SLIDE_HEIGHT + 20; // Enough space to slide under
+      const wallBottom = groundY - gapHeight;
+
+      // Wall Body
+      ctx.fillStyle = "#334155"; // Slate-700
+      ctx.fillRect(screenX, 0, obs.width, wallBottom);
+
+      // Tech details / reinforcement
+      ctx.fillStyle = "#1e293b"; // Slate-800
+      ctx.fillRect(screenX + 5, 0, obs.width - 10, wallBottom - 5);
+
+      // Hazard Stripes at the bottom edge
+      const stripeSize = 10;
+      ctx.fillStyle = "#f59e0b"; // Warning Orange
+      ctx.fillRect(screenX, wallBottom - 20, obs.width, 20);
+
+      ctx.fillStyle = "#000000";
+      for (let i = 0; i < obs.width / stripeSize; i++) {
+        if (i % 2 === 0) {
+          ctx.fillRect(screenX + i * stripeSize, wallBottom - 20, stripeSize, 20);
+        }
+      }
+      break;
+
+    case "warning":
+      // Warning Sign
+      ctx.fillStyle = "#fbbf24"; // Yellow board
+      ctx.beginPath();
+      ctx.moveTo(screenX + 20, groundY - 80); // Top
+      ctx.lineTo(screenX + 40, groundY - 20); // Right
+      ctx.lineTo(screenX, groundY - 20); // Left
+      ctx.fill();
+
+      // Exclamation
+      ctx.fillStyle = "#000000";
+      ctx.font = "bold 40px sans-serif";
+      ctx.fillText("!", screenX + 12, groundY - 30);
+
+      // Post
+      ctx.fillStyle = "#78350f";
+      ctx.fillRect(screenX + 18, groundY - 20, 4, 20);
+      break;
+  }
+  ctx.restore();
+}
+
+export function drawPlatform(scene: WorldScene, platform: Platform) {
+  const { ctx, sim, cameraX } = scene;
+  const screenX = platform.x - cameraX;
+  if (screenX + platform.width < -50 || screenX > CANVAS_WIDTH + 50) return;
+  const { y, width } = platform;
+  ctx.save();
+
+  switch (platform.kind) {
+    case "ledge": {
+      // Concrete slab on a pair of brackets
+      ctx.fillStyle = "#292524";
+      ctx.beginPath();
+      ctx.moveTo(screenX + 20, y + 14);
+      ctx.lineTo(screenX + 20, y + 44);
+      ctx.lineTo(screenX + 50, y + 14);
+      ctx.moveTo(screenX + width - 20, y + 14);
+      ctx.lineTo(screenX + width - 20, y + 44);
+      ctx.lineTo(screenX + width - 50, y + 14);
+      ctx.fill();
+      const slab = ctx.createLinearGradient(0, y, 0, y + 14);
+      slab.addColorStop(0, "#a8a29e");
+      slab.addColorStop(1, "#57534e");
+      ctx.fillStyle = slab;
+      ctx.fillRect(screenX, y, width, 14);
+      ctx.fillStyle = "#d6d3d1";
+      ctx.fillRect(screenX, y, width, 3);
+      break;
+    }
+    case "fireEscape": {
+      // Iron grating with a railing and a ladder hanging from it
+      ctx.strokeStyle = "#1f2937";
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(screenX, y - 30);
+      ctx.lineTo(screenX + width, y - 30);
+      for (let x = 0; x <= width; x += 40) {
+        ctx.moveTo(screenX + x, y);
+        ctx.lineTo(screenX + x, y - 30);
+      }
+      ctx.stroke();
+      ctx.fillStyle = "#374151";
+      ctx.fillRect(screenX, y, width, 6);
+      ctx.fillStyle = "#111827";
+      for (let x = 4; x < width; x += 10) ctx.fillRect(screenX + x, y + 1, 4, 4);
+      ctx.strokeStyle = "#4b5563";
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(screenX + width - 40, y + 6);
+      ctx.lineTo(screenX + width - 40, y + 80);
+      ctx.moveTo(screenX + width - 20, y + 6);
+      ctx.lineTo(screenX + width - 20, y + 80);
+      for (let rung = y + 16; rung < y + 80; rung += 14) {
+        ctx.moveTo(screenX + width - 40, rung);
+        ctx.lineTo(screenX + width - 20, rung);
+      }
+      ctx.stroke();
+      break;
+    }
+    case "awning": {
+      // Striped canvas on two poles
+      ctx.fillStyle = "#1c1917";
+      ctx.fillRect(screenX + 8, y, 4, sim.getTerrainHeight(platform.x + 10, true) - y);
+      ctx.fillRect(screenX + width - 12, y, 4, sim.getTerrainHeight(platform.x + width - 10, true) - y);
+      const stripe = 20;
+      for (let x = 0; x < width; x += stripe) {
+        ctx.fillStyle = (x / stripe) % 2 === 0 ? "#dc2626" : "#f5f5f4";
+        ctx.fillRect(screenX + x, y, Math.min(stripe, width - x), 10);
+      }
+      // Scalloped trim
+      ctx.fillStyle = "#b91c1c";
+      for (let x = 0; x < width; x += stripe) {
+        ctx.beginPath();
+        ctx.arc(screenX + x + stripe / 2, y + 10, stripe / 2, 0, Math.PI);
+        ctx.fill();
+      }
+      break;
+    }
+  }
+
+  ctx.restore();
+}
+
+export function drawVine(scene: WorldScene, vine: Vine) {
+  const { ctx, cameraX } = scene;
+  ctx.save();
+  const screenX = vine.x - cameraX;
+  const endX = screenX + Math.sin(vine.angle) * vine.length;
+  const endY = vine.anchorY + Math.cos(vine.angle) * vine.length;
+
+  ctx.strokeStyle = "#2e7d32";
+  ctx.lineWidth = 8;
+  ctx.lineCap = "round";
+  ctx.beginPath();
+  ctx.moveTo(screenX, vine.anchorY);
+
+  const cp1x = screenX + Math.sin(vine.angle * 0.5) * vine.length * 0.3;
+  const cp1y = vine.anchorY + vine.length * 0.3;
+  const cp2x = screenX + Math.sin(vine.angle * 0.8) * vine.length * 0.7;
+  const cp2y = vine.anchorY + vine.length * 0.7;
+
+  ctx.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, endX, endY);
+  ctx.stroke();
+
+  ctx.strokeStyle = "#1b5e20";
+  ctx.lineWidth = 4;
+  ctx.stroke();
+
+  ctx.fillStyle = "#4caf50";
+  for (let i = 0; i < 5; i++) {
+    const t = (i + 1) / 6;
+    const leafX = screenX + Math.sin(vine.angle * t) * vine.length * t;
+    const leafY = vine.anchorY + vine.length * t;
+    ctx.beginPath();
+    ctx.ellipse(leafX + 10, leafY, 8, 4, Math.PI / 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = "#8d6e63";
+  ctx.beginPath();
+  ctx.arc(screenX, vine.anchorY, 10, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = "#ff5722";
+  ctx.beginPath();
+  ctx.arc(endX, endY, 8, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+export function drawPowerUp(scene: WorldScene, powerUp: PowerUp) {
+  const { ctx, sim, cameraX } = scene;
+  const screenX = powerUp.x - cameraX;
+  if (screenX < -40 || screenX > CANVAS_WIDTH + 40) return;
+  const color = POWER_UP_STYLES[powerUp.kind].color;
+  const bob = Math.sin(sim.frameCount * 0.08 + powerUp.x) * 4;
+
+  ctx.save();
+  ctx.translate(screenX, powerUp.y + bob);
+
+  // Glowing bubble
+  ctx.shadowBlur = 15;
+  ctx.shadowColor = color;
+  ctx.fillStyle = "rgba(15, 23, 42, 0.75)";
+  ctx.beginPath(); ctx.arc(0, 0, 16, 0, Math.PI * 2); ctx.fill();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  switch (powerUp.kind) {
+    case "magnet":
+      ctx.lineWidth = 5;
+      ctx.beginPath(); ctx.arc(0, -2, 6, Math.PI, 0, true); ctx.stroke();
+      ctx.fillStyle = "#e5e7eb";
+      ctx.fillRect(-8.5, -4, 5, 5);
+      ctx.fillRect(3.5, -4, 5, 5);
+      break;
+    case "shield":
+      ctx.beginPath();
+      ctx.moveTo(0, -9); ctx.lineTo(8, -5); ctx.lineTo(6, 5); ctx.lineTo(0, 10); ctx.lineTo(-6, 5); ctx.lineTo(-8, -5);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case "smokeBomb":
+      ctx.beginPath(); ctx.arc(0, 2, 7, 0, Math.PI * 2); ctx.fill();
+      ctx.strokeStyle = "#fbbf24";
+      ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.moveTo(3, -4); ctx.quadraticCurveTo(6, -10, 9, -8); ctx.stroke();
+      break;
+    case "speedBurst":
+      ctx.beginPath();
+      ctx.moveTo(2, -10); ctx.lineTo(-6, 2); ctx.lineTo(0, 2); ctx.lineTo(-2, 10); ctx.lineTo(6, -2); ctx.lineTo(0, -2);
+      ctx.closePath();
+      ctx.fill();
+      break;
+  }
+  ctx.restore();
+}
+
+export function drawCoin(scene: WorldScene, coin: Coin) {
+  const { ctx, cameraX } = scene;
+  if (coin.collected) return;
+
+  const screenX = coin.x - cameraX;
+
+  ctx.save();
+  ctx.translate(screenX, coin.y);
+  ctx.rotate(coin.rotation);
+
+  const scale = Math.abs(Math.cos(coin.rotation));
+  ctx.scale(scale * 0.8 + 0.2, 1);
+
+  const coinGradient = ctx.createRadialGradient(0, -2, 0, 0, 0, 12);
+  coinGradient.addColorStop(0, "#fff59d");
+  coinGradient.addColorStop(0.5, "#ffd700");
+  coinGradient.addColorStop(1, "#ff8f00");
+  ctx.fillStyle = coinGradient;
+  ctx.beginPath();
+  ctx.arc(0, 0, 12, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.strokeStyle = "#ff6f00";
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.fillStyle = "#ff8f00";
+  ctx.font = "bold 12px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("$", 0, 1);
+
+  ctx.restore();
+}
+
+// The getaway helicopter, hovering at the extraction point or flying in to it
+export function drawExtractionHelicopter(scene: WorldScene) {
+  const { ctx, sim, cameraX } = scene;
+  if (sim.plane.state === "hidden") return;
+
+  const helX = sim.plane.x - cameraX;
+  const helY = sim.plane.y;
+
+  ctx.save();
+
+  // Body (Dark Green Military)
+  ctx.fillStyle = "#3f6212";
+  ctx.beginPath();
+  ctx.ellipse(helX, helY, 70, 30, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Tail
+  ctx.beginPath();
+  ctx.moveTo(helX - 50, helY);
+  ctx.lineTo(helX - 120, helY - 10);
+  ctx.lineTo(helX - 120, helY + 10);
+  ctx.lineTo(helX - 50, helY + 10);
+  ctx.fill();
+
+  // Tail Rotor
+  ctx.save();
+  ctx.translate(helX - 120, helY);
+  ctx.rotate(sim.plane.rotorAngle * 2);
+  ctx.fillStyle = "#cbd5e1";
+  ctx.fillRect(-5, -20, 10, 40);
+  ctx.fillRect(-20, -5, 40, 10);
+  ctx.restore();
+
+  // Cockpit window
+  ctx.fillStyle = "#93c5fd";
+  ctx.beginPath();
+  ctx.arc(helX + 30, helY - 10, 20, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Skids
+  ctx.strokeStyle = "#1e293b";
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.moveTo(helX - 40, helY + 30);
+  ctx.lineTo(helX + 40, helY + 30);
+  ctx.moveTo(helX - 30, helY + 20);
+  ctx.lineTo(helX - 40, helY + 30);
+  ctx.moveTo(helX + 30, helY + 20);
+  ctx.lineTo(helX + 40, helY + 30);
+  ctx.stroke();
+
+  // Main Rotor (Blur effect)
+  ctx.fillStyle = `rgba(203, 213, 225, 0.5)`; // Semi-transparent blade blur
+  ctx.fillRect(helX - 140, helY - 35, 280, 4);
+  // Active blade
+  ctx.fillStyle = "#cbd5e1";
+  ctx.save();
+  ctx.translate(helX, helY - 35);
+  // Scale X to simulate rotation
+  ctx.scale(Math.sin(sim.plane.rotorAngle), 1);
+  ctx.fillRect(-140, -5, 280, 10);
+  ctx.restore();
+
+  // Rotor mast
+  ctx.fillStyle = "#1e293b";
+  ctx.fillRect(helX - 5, helY - 35, 10, 15);
+
+  ctx.restore();
+}
@@ -0,0 +1,645 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Download, FilePlus, Play, Save, Share2, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/use-auth";
+import { usePublishLevel } from "@/hooks/use-community-levels";
+import { useLevelDrafts } from "@/hooks/use-level-drafts";
+import { useToast } from "@/hooks/use-toast";
+import { describeApiError } from "@/lib/queryClient";
+import { blendBiomeArt } from "@/lib/biome-art";
+import {
+  EDITOR_TOOLS,
+  createBlankLevel,
+  getGroundY,
+  getObstacleHeight,
+  getSelectionPosition,
+  getTerrainPoints,
+  hitTest,
+  moveSelection,
+  placeItem,
+  removeSelection,
+  type EditorSelection,
+  type EditorTool,
+} from "@/lib/level-editor";
+import {
+  drawBackground,
+  drawCoin,
+  drawColorGrade,
+  drawExtractionHelicopter,
+  drawObstacle,
+  drawPlatform,
+  drawPowerUp,
+  drawTerrain,
+  drawVine,
+  type WorldScene,
+} from "@/lib/world-render";
+import Game from "@/pages/game";
+import { BIOMES, BIOME_IDS, type BiomeId } from "@shared/engine/biomes";
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from "@shared/engine/constants";
+import { MAX_LEVEL_LENGTH, levelSchema, type Level } from "@shared/engine/level";
+import { PLATFORM_KINDS } from "@shared/engine/platforms";
+import type { Replay } from "@shared/engine/replay";
+import { HeistSimulation } from "@shared/engine/simulation";
+import { NO_UPGRADES } from "@shared/engine/upgrades";
+import { STORY_LEVELS } from "@shared/story";
+
+// Where every run starts, marked on the canvas
+const START_X = CANVAS_WIDTH / 3;
+// World pixels between ruler ticks along the top of the canvas
+const RULER_STEP = 500;
+
+const inputClass = "bg-gray-800 text-white px-2 py-1 rounded border border-gray-600 focus:border-green-500 outline-none w-full";
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  testId: string;
+}
+
+function NumberField({ label, value, onChange, step = 1, testId }: NumberFieldProps) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm">
+      <span className="text-white/60 shrink-0">{label}</span>
+      <input
+        type="number"
+        value={Number.isInteger(value) ? value : value.toFixed(2)}
+        step={step}
+        onChange={(e) => {
+          const next = parseFloat(e.target.value);
+          if (!Number.isNaN(next)) onChange(next);
+        }}
+        className={`${inputClass} w-28`}
+        data-testid={testId}
+      />
+    </label>
+  );
+}
+
+// Flags, the start line, ground handles and the selection outline, drawn over the world
+function drawEditorOverlay(ctx: CanvasRenderingContext2D, level: Level, cameraX: number, selection: EditorSelection | null) {
+  ctx.save();
+  ctx.font = "12px sans-serif";
+
+  // Ruler
+  ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.3)";
+  for (let x = Math.ceil(cameraX / RULER_STEP) * RULER_STEP; x < cameraX + CANVAS_WIDTH; x += RULER_STEP) {
+    ctx.beginPath();
+    ctx.moveTo(x - cameraX, 0);
+    ctx.lineTo(x - cameraX, 10);
+    ctx.stroke();
+    ctx.fillText(`${x}`, x - cameraX + 3, 20);
+  }
+
+  // Start line
+  ctx.strokeStyle = "#22c55e";
+  ctx.setLineDash([6, 6]);
+  ctx.beginPath();
+  ctx.moveTo(START_X - cameraX, 30);
+  ctx.lineTo(START_X - cameraX, getGroundY(level, START_X));
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.fillStyle = "#22c55e";
+  ctx.fillText("START", START_X - cameraX + 4, 40);
+
+  // Checkpoint flags
+  level.checkpoints.forEach((x) => {
+    const groundY = getGroundY(level, x);
+    ctx.fillStyle = "#e5e7eb";
+    ctx.fillRect(x - cameraX - 2, groundY - 80, 4, 80);
+    ctx.fillStyle = "#3b82f6";
+    ctx.beginPath();
+    ctx.moveTo(x - cameraX + 2, groundY - 80);
+    ctx.lineTo(x - cameraX + 32, groundY - 70);
+    ctx.lineTo(x - cameraX + 2, groundY - 60);
+    ctx.fill();
+  });
+
+  // Ground handles
+  getTerrainPoints(level).forEach(({ x, y }, index) => {
+    const selected = selection?.kind === "terrain" && selection.index === index;
+    ctx.fillStyle = selected ? "#facc15" : "#ffffff";
+    ctx.strokeStyle = "#000000";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(x - cameraX, y, selected ? 8 : 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  });
+
+  // Selection outline
+  if (selection && selection.kind !== "terrain") {
+    const bounds = getSelectionBounds(level, selection);
+    ctx.strokeStyle = "#facc15";
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(bounds.x - cameraX, bounds.y, bounds.width, bounds.height);
+  }
+  ctx.restore();
+}
+
+// Box around a selected item in world pixels, for the outline
+function getSelectionBounds(level: Level, selection: EditorSelection) {
+  switch (selection.kind) {
+    case "terrain": {
+      const point = getTerrainPoints(level)[selection.index];
+      return { x: point.x - 10, y: point.y - 10, width: 20, height: 20 };
+    }
+    case "obstacle": {
+      const obstacle = level.obstacles[selection.index];
+      const groundY = getGroundY(level, obstacle.x + obstacle.width / 2);
+      if (obstacle.type === "low_beam") return { x: obstacle.x - 4, y: 0, width: obstacle.width + 8, height: groundY };
+      if (obstacle.type === "gap") return { x: obstacle.x - 4, y: groundY - 10, width: obstacle.width + 8, height: CANVAS_HEIGHT - groundY + 10 };
+      const height = getObstacleHeight(obstacle);
+      return { x: obstacle.x - 4, y: groundY - height - 4, width: obstacle.width + 8, height: height + 8 };
+    }
+    case "vine": {
+      const vine = level.vines[selection.index];
+      const endX = vine.x + Math.sin(vine.angle) * vine.length;
+      const endY = vine.anchorY + Math.cos(vine.angle) * vine.length;
+      return { x: Math.min(vine.x, endX) - 14, y: Math.min(vine.anchorY, endY) - 14, width: Math.abs(endX - vine.x) + 28, height: Math.abs(endY - vine.anchorY) + 28 };
+    }
+    case "coin": {
+      const coin = level.coins[selection.index];
+      return { x: coin.x - 16, y: coin.y - 16, width: 32, height: 32 };
+    }
+    case "platform": {
+      const platform = level.platforms[selection.index];
+      return { x: platform.x - 4, y: platform.y - 4, width: platform.width + 8, height: 22 };
+    }
+    case "checkpoint": {
+      const x = level.checkpoints[selection.index];
+      const groundY = getGroundY(level, x);
+      return { x: x - 6, y: groundY - 86, width: 42, height: 90 };
+    }
+    case "extraction":
+      return { x: level.extraction.x - 145, y: level.extraction.y - 45, width: 290, height: 85 };
+  }
+}
+
+export default function Editor() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const levelFileRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { drafts, saveMutation, loadDraft } = useLevelDrafts();
+  const publishMutation = usePublishLevel();
+  const [level, setLevel] = useState<Level>(createBlankLevel);
+  const [tool, setTool] = useState<EditorTool>("select");
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [cameraX, setCameraX] = useState(0);
+  // The validated level being playtested, or null while editing
+  const [playtest, setPlaytest] = useState<Level | null>(null);
+  // The last playtest that reached the helicopter. Publishing sends it as
+  // proof, so it only counts while the level is unchanged since.
+  const [solution, setSolution] = useState<{ level: Level; replay: Replay } | null>(null);
+  // What's being dragged: the item, or the view itself when dragging empty space
+  const drag = useRef<{ selection: EditorSelection | null; startX: number; startY: number; origin: { x: number; y: number } } | null>(null);
+
+  const validation = useMemo(() => levelSchema.safeParse(level), [level]);
+  const solved = useMemo(
+    () => solution !== null && validation.success && JSON.stringify(solution.level) === JSON.stringify(validation.data),
+    [solution, validation],
+  );
+  // The draft loaded the way a run would load it, so the canvas shows exactly what will be played
+  const sim = useMemo(() => {
+    const preview = new HeistSimulation(0, [], NO_UPGRADES, "classic", level);
+    preview.plane = { ...preview.plane, x: level.extraction.x, y: level.extraction.y, state: "waiting" };
+    return preview;
+  }, [level]);
+  const levelEnd = level.terrain[level.terrain.length - 1].endX;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!ctx || playtest) return;
+    const biomeBlend = { from: level.biome, to: level.biome, t: 0 };
+    const scene: WorldScene = {
+      ctx,
+      sim,
+      cameraX,
+      zoom: 1,
+      biomeBlend,
+      art: blendBiomeArt(biomeBlend),
+      padSquash: { x: 0, frame: -Infinity },
+    };
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    drawBackground(scene);
+    sim.vines.forEach((vine) => drawVine(scene, vine));
+    drawTerrain(scene);
+    sim.platforms.forEach((platform) => drawPlatform(scene, platform));
+    sim.obstacles.forEach((obstacle) => drawObstacle(scene, obstacle));
+    sim.coinsList.forEach((coin) => drawCoin(scene, coin));
+    sim.powerUps.forEach((powerUp) => drawPowerUp(scene, powerUp));
+    drawExtractionHelicopter(scene);
+    drawColorGrade(scene);
+    drawEditorOverlay(ctx, level, cameraX, selection);
+  }, [sim, level, cameraX, selection, playtest]);
+
+  // Delete removes the selection and the arrow keys scroll, unless a field has focus
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (playtest || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+      if ((e.key === "Delete" || e.key === "Backspace") && selection) {
+        e.preventDefault();
+        setLevel((current) => removeSelection(current, selection));
+        setSelection(null);
+      }
+      if (e.key === "ArrowLeft") setCameraX((x) => Math.max(0, x - 200));
+      if (e.key === "ArrowRight") setCameraX((x) => Math.min(MAX_LEVEL_LENGTH, x + 200));
+      if (e.key === "Escape") setSelection(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selection, playtest]);
+
+  // Canvas pixels in world coordinates, whatever size the canvas is shown at
+  const toWorld = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width) + cameraX,
+      y: (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height),
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = toWorld(e);
+    const hit = hitTest(level, sim, x, y);
+    if (tool !== "select" && !hit) {
+      const placed = placeItem(level, tool, x, y);
+      if (placed) {
+        setLevel(placed.level);
+        setSelection(placed.selection);
+      }
+      return;
+    }
+    setSelection(hit);
+    drag.current = {
+      selection: hit,
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: hit ? getSelectionPosition(level, hit) : { x: cameraX, y: 0 },
+    };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const current = drag.current;
+    if (!current) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dx = (e.clientX - current.startX) * (CANVAS_WIDTH / rect.width);
+    const dy = (e.clientY - current.startY) * (CANVAS_HEIGHT / rect.height);
+    if (!current.selection) {
+      setCameraX(Math.max(0, Math.min(MAX_LEVEL_LENGTH, current.origin.x - dx)));
+      return;
+    }
+    const moved = moveSelection(level, current.selection, current.origin.x + dx, current.origin.y + dy);
+    current.selection = moved.selection;
+    setLevel(moved.level);
+    setSelection(moved.selection);
+  };
+
+  const handleMouseUp = () => {
+    drag.current = null;
+  };
+
+  const update = (change: Partial<Level>) => setLevel((current) => ({ ...current, ...change }));
+  const updateItem = <K extends "obstacles" | "vines" | "coins" | "platforms">(key: K, index: number, change: Partial<Level[K][number]>) =>
+    setLevel((current) => ({ ...current, [key]: current[key].map((item, i) => (i === index ? { ...item, ...change } : item)) }));
+
+  const openLevel = (next: Level) => {
+    setLevel(next);
+    setSelection(null);
+    setCameraX(0);
+  };
+
+  const importLevelFile = async (file: File) => {
+    try {
+      const parseResult = levelSchema.safeParse(JSON.parse(await file.text()));
+      if (!parseResult.success) {
+        toast({ title: "Invalid level", description: "That file is not a Heist Runner level.", variant: "destructive" });
+        return;
+      }
+      openLevel(parseResult.data);
+    } catch (error) {
+      toast({ title: "Invalid level", description: "Could not read the level file.", variant: "destructive" });
+    }
+  };
+
+  const exportLevelFile = () => {
+    const blob = new Blob([JSON.stringify(level, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${level.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openDraft = async (levelId: string) => {
+    try {
+      openLevel(await loadDraft(levelId));
+    } catch (error) {
+      toast({ title: "Could not load level", description: describeApiError(error), variant: "destructive" });
+    }
+  };
+
+  if (playtest) {
+    return (
+      <Game
+        playtestLevel={playtest}
+        onExitPlaytest={() => setPlaytest(null)}
+        onPlaytestEscape={(replay) => setSolution({ level: playtest, replay })}
+      />
+    );
+  }
+
+  const selectedObstacle = selection?.kind === "obstacle" ? level.obstacles[selection.index] : null;
+  const selectedVine = selection?.kind === "vine" ? level.vines[selection.index] : null;
+  const selectedCoin = selection?.kind === "coin" ? level.coins[selection.index] : null;
+  const selectedPlatform = selection?.kind === "platform" ? level.platforms[selection.index] : null;
+  const selectedPoint = selection?.kind === "terrain" ? getTerrainPoints(level)[selection.index] : null;
+  const selectedCheckpoint = selection?.kind === "checkpoint" ? level.checkpoints[selection.index] : null;
+
+  return (
+    <div className="min-h-screen w-full bg-gray-950 text-white p-4" data-testid="page-editor">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <Link href="/">
+          <Button variant="ghost" className="text-white/70" data-testid="button-back-to-game">
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            Back to Game
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-black mr-auto">Level Editor</h1>
+
+        <Button variant="ghost" className="text-white/70" onClick={() => openLevel(createBlankLevel())} data-testid="button-new-level">
+          <FilePlus className="w-4 h-4 mr-1" />
+          New
+        </Button>
+        <select
+          value=""
+          onChange={(e) => {
+            const [source, id] = e.target.value.split(":");
+            if (source === "story") {
+              const story = STORY_LEVELS.find((storyLevel) => storyLevel.id === id);
+              if (story) openLevel(story);
+            } else if (source === "draft") {
+              openDraft(id);
+            }
+          }}
+          className={`${inputClass} w-44`}
+          data-testid="select-open-level"
+        >
+          <option value="" disabled>Open...</option>
+          {drafts.length > 0 && (
+            <optgroup label="Your levels">
+              {drafts.map((draft) => (
+                <option key={draft.levelId} value={`draft:${draft.levelId}`}>{draft.name}</option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label="Story levels">
+            {STORY_LEVELS.map((storyLevel) => (
+              <option key={storyLevel.id} value={`story:${storyLevel.id}`}>{storyLevel.name}</option>
+            ))}
+          </optgroup>
+        </select>
+        <Button variant="ghost" className="text-white/70" onClick={() => levelFileRef.current?.click()} data-testid="button-import-level">
+          <Upload className="w-4 h-4 mr-1" />
+          Import
+        </Button>
+        <input
+          ref={levelFileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) importLevelFile(file);
+          }}
+          data-testid="input-level-file"
+        />
+        <Button variant="ghost" className="text-white/70" onClick={exportLevelFile} data-testid="button-export-level">
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+        <Button
+          variant="outline"
+          className="border-white/30 text-white"
+          disabled={!user || !validation.success || saveMutation.isPending}
+          title={user ? undefined : "Log in to save levels to your account"}
+          onClick={() => {
+            if (!validation.success) return;
+            saveMutation.mutate(validation.data, {
+              onSuccess: () => toast({ title: "Level saved", description: level.name }),
+              onError: (error) => toast({ title: "Save failed", description: describeApiError(error), variant: "destructive" }),
+            });
+          }}
+          data-testid="button-save-level"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          Save
+        </Button>
+        <Button
+          variant="outline"
+          className="border-white/30 text-white"
+          disabled={!user || !solved || publishMutation.isPending}
+          title={!user ? "Log in to publish levels" : solved ? undefined : "Reach the helicopter in a playtest first"}
+          onClick={() => {
+            if (!solution) return;
+            publishMutation.mutate(solution, {
+              onSuccess: () => toast({ title: "Level published", description: `${solution.level.name} is now in Community Levels` }),
+              onError: (error) => toast({ title: "Publish failed", description: describeApiError(error), variant: "destructive" }),
+            });
+          }}
+          data-testid="button-publish-level"
+        >
+          <Share2 className="w-4 h-4 mr-1" />
+          Publish
+        </Button>
+        <Button
+          className="bg-gradient-to-r from-red-500 to-orange-600"
+          disabled={!validation.success}
+          onClick={() => validation.success && setPlaytest(validation.data)}
+          data-testid="button-playtest"
+        >
+          <Play className="w-4 h-4 mr-1" />
+          Playtest
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-3" data-testid="toolbar-editor">
+        {EDITOR_TOOLS.map(({ id, name }) => (
+          <Button
+            key={id}
+            size="sm"
+            variant={tool === id ? "default" : "outline"}
+            onClick={() => setTool(id)}
+            className={tool === id ? "" : "border-white/20 text-white/80"}
+            data-testid={`button-tool-${id}`}
+          >
+            {name}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 max-w-5xl">
+          <div className="relative w-full aspect-video">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className={`block w-full h-full rounded-lg ${tool === "select" ? "cursor-default" : "cursor-crosshair"}`}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              onWheel={(e) => setCameraX((x) => Math.max(0, Math.min(MAX_LEVEL_LENGTH, x + e.deltaX + e.deltaY)))}
+              data-testid="canvas-editor"
+            />
+          </div>
+          <Slider
+            className="mt-3"
+            min={0}
+            max={Math.max(levelEnd, CANVAS_WIDTH)}
+            step={10}
+            value={[cameraX]}
+            onValueChange={([x]) => setCameraX(x)}
+            data-testid="slider-camera"
+          />
+          <p className="text-xs text-white/50 mt-2">
+            Pick a tool and click to place it. With Select, drag things to move them and drag empty space to scroll.
+            Delete removes the selection; the arrow keys and the mouse wheel scroll too.
+          </p>
+        </div>
+
+        <aside className="w-full lg:w-72 space-y-4" onKeyDown={(e) => e.stopPropagation()}>
+          <div className="bg-black/40 rounded-lg p-4 space-y-2" data-testid="panel-level-settings">
+            <div className="font-bold">Level</div>
+            <input value={level.name} onChange={(e) => update({ name: e.target.value })} placeholder="Name" className={inputClass} maxLength={40} data-testid="input-level-name" />
+            <input value={level.id} onChange={(e) => update({ id: e.target.value })} placeholder="id (lowercase-with-dashes)" className={`${inputClass} font-mono`} maxLength={40} data-testid="input-level-id" />
+            <textarea value={level.description} onChange={(e) => update({ description: e.target.value })} placeholder="Description" className={inputClass} rows={2} maxLength={200} data-testid="input-level-description" />
+            <select value={level.biome} onChange={(e) => update({ biome: e.target.value as BiomeId })} className={inputClass} data-testid="select-level-biome">
+              {BIOME_IDS.map((id) => (
+                <option key={id} value={id}>{BIOMES[id].name}</option>
+              ))}
+            </select>
+            <label className="flex items-center justify-between text-sm">
+              <span className="text-white/60">Police chase</span>
+              <Switch checked={level.chase} onCheckedChange={(chase) => update({ chase })} data-testid="switch-level-chase" />
+            </label>
+          </div>
+
+          {selection && (
+            <div className="bg-black/40 rounded-lg p-4 space-y-2" data-testid="panel-selection">
+              <div className="flex items-center justify-between">
+                <span className="font-bold capitalize">
+                  {selectedObstacle ? EDITOR_TOOLS.find((t) => t.id === selectedObstacle.type)?.name ?? selectedObstacle.type : selection.kind === "terrain" ? "Ground Point" : selection.kind}
+                </span>
+                {selection.kind !== "extraction" && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-white/60"
+                    onClick={() => {
+                      setLevel(removeSelection(level, selection));
+                      setSelection(null);
+                    }}
+                    data-testid="button-delete-selection"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              {selectedPoint && (
+                <>
+                  <NumberField label="x" value={selectedPoint.x} testId="input-point-x" onChange={(x) => setLevel(moveSelection(level, selection, x, selectedPoint.y).level)} />
+                  <NumberField label="y" value={selectedPoint.y} testId="input-point-y" onChange={(y) => setLevel(moveSelection(level, selection, selectedPoint.x, y).level)} />
+                </>
+              )}
+              {selectedObstacle && selection.kind === "obstacle" && (
+                <>
+                  <NumberField label="x" value={selectedObstacle.x} testId="input-obstacle-x" onChange={(x) => updateItem("obstacles", selection.index, { x })} />
+                  <NumberField label="Width" value={selectedObstacle.width} testId="input-obstacle-width" onChange={(width) => updateItem("obstacles", selection.index, { width })} />
+                  {selectedObstacle.type !== "gap" && selectedObstacle.type !== "low_beam" && (
+                    <NumberField label="Height" value={getObstacleHeight(selectedObstacle)} testId="input-obstacle-height" onChange={(height) => updateItem("obstacles", selection.index, { height })} />
+                  )}
+                </>
+              )}
+              {selectedVine && selection.kind === "vine" && (
+                <>
+                  <NumberField label="x" value={selectedVine.x} testId="input-vine-x" onChange={(x) => updateItem("vines", selection.index, { x })} />
+                  <NumberField label="Anchor y" value={selectedVine.anchorY} testId="input-vine-anchor" onChange={(anchorY) => updateItem("vines", selection.index, { anchorY })} />
+                  <NumberField label="Length" value={selectedVine.length} testId="input-vine-length" onChange={(length) => updateItem("vines", selection.index, { length })} />
+                  <NumberField label="Angle (°)" value={Math.round((selectedVine.angle * 180) / Math.PI)} testId="input-vine-angle" onChange={(degrees) => updateItem("vines", selection.index, { angle: (degrees * Math.PI) / 180 })} />
+                </>
+              )}
+              {selectedCoin && selection.kind === "coin" && (
+                <>
+                  <NumberField label="x" value={selectedCoin.x} testId="input-coin-x" onChange={(x) => updateItem("coins", selection.index, { x })} />
+                  <NumberField label="y" value={selectedCoin.y} testId="input-coin-y" onChange={(y) => updateItem("coins", selection.index, { y })} />
+                </>
+              )}
+              {selectedPlatform && selection.kind === "platform" && (
+                <>
+                  <select
+                    value={selectedPlatform.kind}
+                    onChange={(e) => updateItem("platforms", selection.index, { kind: e.target.value as Level["platforms"][number]["kind"] })}
+                    className={inputClass}
+                    data-testid="select-platform-kind"
+                  >
+                    {PLATFORM_KINDS.map((kind) => (
+                      <option key={kind} value={kind}>{kind}</option>
+                    ))}
+                  </select>
+                  <NumberField label="x" value={selectedPlatform.x} testId="input-platform-x" onChange={(x) => updateItem("platforms", selection.index, { x })} />
+                  <NumberField label="y" value={selectedPlatform.y} testId="input-platform-y" onChange={(y) => updateItem("platforms", selection.index, { y })} />
+                  <NumberField label="Width" value={selectedPlatform.width} testId="input-platform-width" onChange={(width) => updateItem("platforms", selection.index, { width })} />
+                </>
+              )}
+              {selectedCheckpoint !== null && (
+                <NumberField label="x" value={selectedCheckpoint} testId="input-checkpoint-x" onChange={(x) => {
+                  const moved = moveSelection(level, selection, x, 0);
+                  setLevel(moved.level);
+                  setSelection(moved.selection);
+                }} />
+              )}
+              {selection.kind === "extraction" && (
+                <>
+                  <NumberField label="x" value={level.extraction.x} testId="input-extraction-x" onChange={(x) => update({ extraction: { ...level.extraction, x } })} />
+                  <NumberField label="y" value={level.extraction.y} testId="input-extraction-y" onChange={(y) => update({ extraction: { ...level.extraction, y } })} />
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="bg-black/40 rounded-lg p-4" data-testid="panel-level-problems">
+            <div className="font-bold mb-2">Problems</div>
+            {validation.success ? (
+              <>
+                <p className="text-sm text-green-400">None - ready to playtest</p>
+                <p className="text-sm text-white/50 mt-1" data-testid="text-publish-status">
+                  {solved ? "Beaten in a playtest - ready to publish" : "Reach the helicopter in a playtest to publish"}
+                </p>
+              </>
+            ) : (
+              <ul className="text-sm text-red-400 space-y-1 list-disc pl-4">
+                {validation.error.errors.slice(0, 6).map((issue, i) => (
+                  <li key={i}>
+                    <span className="text-white/50 font-mono">{issue.path.join(".")}</span> {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -1,37 +1,67 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Play, RotateCcw, Pause, Volume2, VolumeX, Trophy, AlertTriangle } from "lucide-react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Play, RotateCcw, Pause, Volume2, VolumeX, Trophy, ShoppingBag, Coins, Lock, Medal, AlertTriangle, Film, Download, Upload, CalendarDays, Ghost, BookOpen, SkipForward, PencilRuler, Users } from "lucide-react";
+import { apiRequest, describeApiError, queryClient } from "@/lib/queryClient";
 import { useSound } from "@/hooks/useSound";
-import type { HighScore } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useProfile } from "@/hooks/use-profile";
+import { AccountPanel } from "@/components/account-panel";
+import { CommunityPanel } from "@/components/community-panel";
+import { LeaderboardPanel } from "@/components/leaderboard-panel";
+import { ShopPanel } from "@/components/shop-panel";
+import { StoryPanel } from "@/components/story-panel";
+import { blendBiomeArt, getBiomeBlend } from "@/lib/biome-art";
+import { subscribeParticleEffects } from "@/lib/particle-effects";
+import { POWER_UP_STYLES } from "@/lib/power-up-styles";
+import {
+  drawBackground,
+  drawCoin,
+  drawColorGrade,
+  drawExtractionHelicopter,
+  drawObstacle,
+  drawPlatform,
+  drawPowerUp,
+  drawTerrain,
+  drawVine,
+  type WorldScene,
+} from "@/lib/world-render";
+import { subscribeSoundEffects } from "@/lib/sound-effects";
+import type { DailyChallenge, DailyChallengeStatus, SubmitHighScore } from "@shared/schema";
+import { getAutopilotInput } from "@shared/engine/autopilot";
+import { HeistSimulation } from "@shared/engine/simulation";
+import { SeededRandom, formatSeed, hashSeed, parseSeed, randomSeed } from "@shared/engine/rng";
+import { InputRecorder, ReplayPlayer, replaySchema, type Replay } from "@shared/engine/replay";
+import { MODIFIERS, type ModifierId } from "@shared/engine/modifiers";
+import {
+  BASE_GROUND_Y,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  FIXED_TIMESTEP_MS,
+  MAGNET_RADIUS,
+  PLAYER_BASE_SPEED,
+  SIMULATION_HZ,
+  SLIDE_HEIGHT,
+  SPOTLIGHT_CAPTURE_HEAT,
+  SPOTLIGHT_RADIUS,
+} from "@shared/engine/constants";
+import { getPursuerLength } from "@shared/engine/pursuers";
+import { POWER_UPS, POWER_UP_KINDS } from "@shared/engine/powerups";
+import { NO_UPGRADES, type UpgradeLevels } from "@shared/engine/upgrades";
+import { BIOMES, type BiomeId } from "@shared/engine/biomes";
+import { CHARACTERS, CHARACTER_IDS, type CharacterId } from "@shared/engine/characters";
+import { addStats, maxStats } from "@shared/engine/stats";
+import { ACHIEVEMENTS, getEarnedAchievements, getUnlockingAchievement, type AchievementId } from "@shared/achievements";
+import { ownsCharacter } from "@shared/profile";
+import { STORY_LEVELS, getStoryLevel } from "@shared/story";
+import type { Level } from "@shared/engine/level";
+import type { GroundPursuer, Player, PoliceHelicopter, PowerUpKind, Pursuer, PursuerKind } from "@shared/engine/types";
 
 type GameState = "start" | "playing" | "paused" | "gameover" | "victory";
 
-interface Obstacle {
-  x: number;
-  type: "spike" | "mushroom" | "gap" | "ramp" | "low_beam" | "warning";
-  width: number;
-  height: number;
-  passed: boolean;
-}
-
-interface Vine {
-  x: number;
-  anchorY: number;
-  length: number;
-  angle: number;
-  angularVelocity: number;
-}
-
-interface Coin {
-  x: number;
-  y: number;
-  collected: boolean;
-  rotation: number;
-}
-
 interface Particle {
   x: number;
   y: number;
@@ -41,57 +71,53 @@ interface Particle {
   color: string;
 }
 
-interface TerrainSegment {
-  startX: number;
-  endX: number;
-  startY: number;
-  endY: number;
-}
-
-interface PoliceCar {
+interface RainDrop {
   x: number;
-  speed: number;
+  y: number;
+  l: number;
+  v: number;
 }
 
-interface Player {
+interface Firefly {
   x: number;
   y: number;
-  vx: number;
-  vy: number;
-  width: number;
-  height: number;
-  state: "running" | "jumping" | "sliding" | "swinging" | "falling";
-  animFrame: number;
-  onVine: Vine | null;
-  vineLength: number;
-  invincible: number;
+  s: number;
+  o: number;
 }
 
-const GRAVITY = 0.6;
-const JUMP_FORCE = -14;
-const BASE_GROUND_Y = 350;
-const PLAYER_WIDTH = 40;
-const PLAYER_HEIGHT = 50;
-const SLIDE_HEIGHT = 25;
-const PLAYER_BASE_SPEED = 6;
-const POLICE_SPEED = 6.8;
-const CANVAS_WIDTH = 960;
-const CANVAS_HEIGHT = 540;
-const THE_ABYSS = 2000; // Physics height inside pits (non-grounding)
-const GAP_FLATTEN_RANGE = 120;
-const VINE_WALL_BUFFER = 220;
-const VINE_SPIKE_BUFFER = 260;
-const VINE_GRAB_RADIUS = 70;
-const GLIDE_CHARGE_DISTANCE = 500;
-const GLIDE_CHARGE_SECONDS = 0.5;
 const GLIDE_MAX_DISPLAY_SECONDS = 3;
-const VICTORY_DISTANCE = 20000;
-const CHECKPOINT_DISTANCE = 10000;
-
-type CharacterStyle = "classic" | "ninja" | "clown" | "gold" | "neon";
 
+// Game over subtitle for whoever made the arrest
+const CAPTOR_MESSAGES: Record<PursuerKind, string> = {
+  police: "The patrol car caught up with you",
+  motorbike: "A motorbike cop ran you down",
+  k9: "The K-9 unit brought you down",
+  helicopter: "Pinned down by the helicopter spotlight",
+};
+// Longest wall-clock gap fed to the simulation in one frame (tab switches, stalls)
+const MAX_FRAME_MS = 250;
+// Pause between the start screen demo ending a run and starting the next
+const DEMO_RESTART_MS = 2000;
+// Weather gets its own stream so drawing never shifts the gameplay RNG.
+const WEATHER_SEED_SALT = 0x9e3779b9;
+
+const createWeather = (rng: SeededRandom) => ({
+  rain: Array.from({ length: 100 }, (): RainDrop => ({
+    x: rng.next() * CANVAS_WIDTH,
+    y: rng.next() * CANVAS_HEIGHT,
+    l: rng.next() * 20 + 10,
+    v: rng.next() * 10 + 10,
+  })),
+  fireflies: Array.from({ length: 20 }, (): Firefly => ({
+    x: rng.next() * CANVAS_WIDTH,
+    y: rng.next() * CANVAS_HEIGHT,
+    s: rng.next() * 2 + 1,
+    o: rng.next() * Math.PI * 2,
+  })),
+});
+
+// Palettes for each character; names, traits and prices are in shared/engine/characters.ts
 interface CharacterConfig {
-  name: string;
   stripeColor1: string;
   stripeColor2: string;
   skinColor: string;
@@ -100,9 +126,8 @@ interface CharacterConfig {
   bagSymbol: string;
 }
 
-const CHARACTER_STYLES: Record<CharacterStyle, CharacterConfig> = {
+const CHARACTER_STYLES: Record<CharacterId, CharacterConfig> = {
   classic: {
-    name: "Classic Robber",
     stripeColor1: "#1a1a1a",
     stripeColor2: "#ffffff",
     skinColor: "#ffccbc",
@@ -111,7 +136,6 @@ const CHARACTER_STYLES: Record<CharacterStyle, CharacterConfig> = {
     bagSymbol: "$",
   },
   ninja: {
-    name: "Shadow Ninja",
     stripeColor1: "#1e1b4b",
     stripeColor2: "#4c1d95",
     skinColor: "#d4c5a9",
@@ -120,7 +144,6 @@ const CHARACTER_STYLES: Record<CharacterStyle, CharacterConfig> = {
     bagSymbol: "*",
   },
   clown: {
-    name: "Crazy Clown",
     stripeColor1: "#dc2626",
     stripeColor2: "#facc15",
     skinColor: "#fef3c7",
@@ -129,7 +152,6 @@ const CHARACTER_STYLES: Record<CharacterStyle, CharacterConfig> = {
     bagSymbol: "!",
   },
   gold: {
-    name: "Gold Digger",
     stripeColor1: "#b45309",
     stripeColor2: "#fbbf24",
     skinColor: "#fef3c7",
@@ -138,7 +160,6 @@ const CHARACTER_STYLES: Record<CharacterStyle, CharacterConfig> = {
     bagSymbol: "$",
   },
   neon: {
-    name: "Neon Runner",
     stripeColor1: "#0ea5e9",
     stripeColor2: "#22d3ee",
     skinColor: "#e0f2fe",
@@ -148,15 +169,17 @@ const CHARACTER_STYLES: Record<CharacterStyle, CharacterConfig> = {
   },
 };
 
-interface Plane {
-  x: number;
-  y: number;
-  vx: number;
-  state: "hidden" | "entering" | "waiting" | "departing";
-  rotorAngle: number; // For helicopter animation
+
+interface GameProps {
+  // Set when the level editor is playtesting a level: the run starts straight
+  // away on it and nothing from it is banked or posted
+  playtestLevel?: Level;
+  onExitPlaytest?: () => void;
+  // Called with the run when a playtest reaches the helicopter; publishing a level needs one
+  onPlaytestEscape?: (replay: Replay) => void;
 }
 
-export default function Game() {
+export default function Game({ playtestLevel, onExitPlaytest, onPlaytestEscape }: GameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [gameState, setGameState] = useState<GameState>("start");
   const [score, setScore] = useState(0);
@@ -165,34 +188,74 @@ export default function Game() {
     const saved = localStorage.getItem("runnerHighScore");
     return saved ? parseInt(saved) : 0;
   });
+  // Replay of the run behind highScore, raced as a ghost from the start screen
+  const [bestReplay, setBestReplay] = useState<Replay | null>(() => {
+    try {
+      const parseResult = replaySchema.safeParse(JSON.parse(localStorage.getItem("runnerBestReplay") ?? "null"));
+      return parseResult.success ? parseResult.data : null;
+    } catch {
+      return null;
+    }
+  });
   const [coins, setCoins] = useState(0);
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [checkpointActive, setCheckpointActive] = useState(false);
   const [checkpointUsed, setCheckpointUsed] = useState(false);
-  const [playerName, setPlayerName] = useState(() => {
-    return localStorage.getItem("playerName") || "Player";
-  });
+  // Name card shown briefly on entering a new biome
+  const [biomeBanner, setBiomeBanner] = useState<BiomeId | null>(null);
   const [policeWarning, setPoliceWarning] = useState(0);
+  // Spotlight heat as a percentage of capture, 0 when no helicopter is around
+  const [spotlightHeat, setSpotlightHeat] = useState(0);
+  const [caughtBy, setCaughtBy] = useState<PursuerKind | null>(null);
+  // Seconds left on each running power-up (tenths), for the HUD timers
+  const [powerUpSeconds, setPowerUpSeconds] = useState<Partial<Record<PowerUpKind, number>>>({});
   const [showLeaderboard, setShowLeaderboard] = useState(false);
-  const [selectedCharacter, setSelectedCharacter] = useState<CharacterStyle>(() => {
-    return (localStorage.getItem("selectedCharacter") as CharacterStyle) || "classic";
+  const [selectedCharacter, setSelectedCharacter] = useState<CharacterId>(() => {
+    const saved = localStorage.getItem("selectedCharacter");
+    return CHARACTER_IDS.find((id) => id === saved) ?? "classic";
   });
   const [glideSeconds, setGlideSeconds] = useState(0);
   const [glideChargeProgress, setGlideChargeProgress] = useState(0);
+  const [seedInput, setSeedInput] = useState("");
+  const [runSeed, setRunSeed] = useState<number | null>(null);
+  const [replayMode, setReplayMode] = useState(false);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  // The daily challenge being played and whether it's the ranked attempt, or null for a regular run
+  const [dailyRun, setDailyRun] = useState<(DailyChallenge & { ranked: boolean }) | null>(null);
+  // The ghost being raced (and whose run it is), or null without a ghost
+  const [ghostRace, setGhostRace] = useState<{ replay: Replay; name: string } | null>(null);
+  // Live distance minus the ghost's, in meters
+  const [ghostGap, setGhostGap] = useState(0);
+  // Index into STORY_LEVELS of the level being played, or null outside Story mode
+  const [storyLevel, setStoryLevel] = useState<number | null>(null);
+  // How many story levels have been cleared, in order
+  const [storyCleared, setStoryCleared] = useState(() => {
+    const saved = parseInt(localStorage.getItem("storyProgress") ?? "0");
+    return Number.isNaN(saved) ? 0 : Math.min(saved, STORY_LEVELS.length);
+  });
+  const [showStory, setShowStory] = useState(false);
+  // The published level being played, or null outside community levels
+  const [communityLevel, setCommunityLevel] = useState<Level | null>(null);
+  const [showCommunity, setShowCommunity] = useState(false);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { profile, bankMutation, unlockMutation } = useProfile();
+  const [showShop, setShowShop] = useState(false);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  // A saved pick that isn't unlocked on this profile (e.g. after logging out) falls back to classic
+  const character = ownsCharacter(profile, selectedCharacter) ? selectedCharacter : "classic";
 
   // Sound effects
-  const { playJump, playCoin, playGameOver, playSiren, playVineGrab, playVineRelease } = useSound({ enabled: soundEnabled });
+  const sounds = useSound({ enabled: soundEnabled });
 
   // Refs for sound functions to use in game loop without re-render dependencies
-  const soundRef = useRef({ playJump, playCoin, playGameOver, playSiren, playVineGrab, playVineRelease });
-  soundRef.current = { playJump, playCoin, playGameOver, playSiren, playVineGrab, playVineRelease };
-
-  const { data: leaderboard = [] } = useQuery<HighScore[]>({
-    queryKey: ["/api/highscores"],
-  });
+  const soundRef = useRef(sounds);
+  soundRef.current = sounds;
 
   const submitScoreMutation = useMutation({
-    mutationFn: async (scoreData: { playerName: string; score: number; distance: number; coins: number }) => {
+    mutationFn: async (scoreData: SubmitHighScore) => {
       return apiRequest("POST", "/api/highscores", scoreData);
     },
     onSuccess: () => {
@@ -200,200 +263,287 @@ export default function Game() {
     },
   });
 
-  const gameRef = useRef({
-    player: {
-      x: CANVAS_WIDTH / 3,
-      y: BASE_GROUND_Y - PLAYER_HEIGHT,
-      vx: PLAYER_BASE_SPEED,
-      vy: 0,
-      width: PLAYER_WIDTH,
-      height: PLAYER_HEIGHT,
-      state: "running" as Player["state"],
-      animFrame: 0,
-      onVine: null as Vine | null,
-      vineLength: 0,
-      invincible: 0,
+  // Each player's best escape per community level is ranked; a slower one is turned down with a 409
+  const submitLevelScoreMutation = useMutation({
+    mutationFn: async ({ levelId, ...scoreData }: SubmitHighScore & { levelId: string }) => {
+      return apiRequest("POST", `/api/levels/${levelId}/scores`, scoreData);
+    },
+    onSuccess: (_, { levelId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/levels", levelId, "scores"] });
+      toast({ title: "New best on this level!", description: "Your escape is on the level's leaderboard." });
+    },
+  });
+
+  // Keyed by user because the response includes the caller's ranked attempt
+  const { data: daily, refetch: refetchDaily } = useQuery<DailyChallengeStatus>({
+    queryKey: ["/api/daily", user?.id ?? null],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/daily");
+      return res.json();
+    },
+  });
+
+  // Claims today's ranked attempt; a 409 means it was used already
+  const startDailyAttemptMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/daily/attempts");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/daily"] });
+    },
+  });
+
+  const submitDailyMutation = useMutation({
+    mutationFn: async (scoreData: SubmitHighScore) => {
+      return apiRequest("POST", "/api/daily/scores", scoreData);
     },
-    police: {
-      x: -200,
-      speed: POLICE_SPEED,
-    } as PoliceCar,
-    cameraX: 0,
-    obstacles: [] as Obstacle[],
-    vines: [] as Vine[],
-    coinsList: [] as Coin[],
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/daily"] });
+    },
+    onError: () => {
+      toast({ title: "Daily score not ranked", description: "Today's challenge may have ended. Try the new one!", variant: "destructive" });
+    },
+  });
+
+  // Gameplay state lives in the headless simulation; everything else here is
+  // presentation (particles, weather, camera effects) and UI bookkeeping.
+  const gameRef = useRef({
+    sim: new HeistSimulation(),
     particles: [] as Particle[],
-    terrain: [] as TerrainSegment[],
-    distanceTraveled: 0,
-    scoreValue: 0,
-    coinsCollected: 0,
-    frameCount: 0,
     keys: { up: false, down: false },
+    // Exactly one of these is set during a run: live runs record, replays play back
+    recorder: null as InputRecorder | null,
+    replayer: null as ReplayPlayer | null,
+    // Set while the sim holds the start screen's demo run, which the autopilot plays
+    demo: false,
     lastDisplayedScore: 0,
     lastDisplayedDistance: 0,
     lastDisplayedCoins: 0,
     lastDisplayedWarning: 0,
     lastDisplayedGlideSeconds: 0,
     lastDisplayedGlideProgress: 0,
-    worldX: 0,
-    nextTerrainX: 0,
-    lastObstacleX: 0,
-    lastVineX: 0,
-    lastCoinX: 0,
-    vineSwingTime: 0,
-    vineGrabCooldown: 0,
-    glideSeconds: 0,
-    glideChargeProgress: 0,
-    nextGlideChargeDistance: GLIDE_CHARGE_DISTANCE,
-    rain: Array.from({ length: 100 }, () => ({
-      x: Math.random() * CANVAS_WIDTH,
-      y: Math.random() * CANVAS_HEIGHT,
-      l: Math.random() * 20 + 10,
-      v: Math.random() * 10 + 10,
-    })),
-    fireflies: Array.from({ length: 20 }, () => ({
-      x: Math.random() * CANVAS_WIDTH,
-      y: Math.random() * CANVAS_HEIGHT,
-      s: Math.random() * 2 + 1,
-      o: Math.random() * Math.PI * 2,
-    })),
+    lastDisplayedGhostGap: 0,
+    lastDisplayedSpotlightHeat: 0,
+    lastDisplayedPowerUps: "",
+    // Achievements already toasted this run
+    announcedAchievements: new Set<AchievementId>(),
+    // Another run replayed alongside the live one, set only for ghost races
+    ghost: null as { sim: HeistSimulation; inputs: ReplayPlayer } | null,
+    weatherRng: new SeededRandom(WEATHER_SEED_SALT),
+    rain: [] as RainDrop[],
+    fireflies: [] as Firefly[],
     shake: 0,
     cameraZoom: 1,
-    plane: { // Renamed to Helicopter conceptually
-      x: CANVAS_WIDTH + 200,
-      y: 100,
-      vx: 0,
-      state: "hidden" as Plane["state"],
-      rotorAngle: 0,
-    } as Plane,
-    checkPointReached: false,
-    checkPointUsed: false,
+    // The game loop's timing, kept here so it carries over when the loop's effect restarts
+    clock: { lastTime: null as number | null, accumulator: 0 },
   });
 
-  const getTerrainHeight = useCallback((worldX: number, visuals: boolean = false): number => {
+  const resetGame = useCallback((
+    seed: number,
+    modifiers: readonly ModifierId[] = [],
+    upgrades: UpgradeLevels = NO_UPGRADES,
+    runCharacter: CharacterId = "classic",
+    level: Level | null = null,
+  ) => {
     const game = gameRef.current;
-    const gaps = game.obstacles.filter(o => o.type === "gap");
-
-    // Force pits to be lethal (physics sees abyss, visuals see terrain)
-    const inGap = gaps.some(o => worldX >= o.x && worldX <= o.x + o.width);
-    if (inGap && !visuals) return THE_ABYSS;
-
-    let terrainY = BASE_GROUND_Y;
-    for (const segment of game.terrain) {
-      if (worldX >= segment.startX && worldX < segment.endX) {
-        const t = (worldX - segment.startX) / (segment.endX - segment.startX);
-        terrainY = segment.startY + (segment.endY - segment.startY) * t;
-        break;
-      }
-    }
-
-    if (gaps.length > 0) {
-      let blend = 0;
-      for (const gap of gaps) {
-        const leftStart = gap.x - GAP_FLATTEN_RANGE;
-        const rightEnd = gap.x + gap.width + GAP_FLATTEN_RANGE;
-        if (worldX >= leftStart && worldX < gap.x) {
-          const t = (worldX - leftStart) / GAP_FLATTEN_RANGE;
-          blend = Math.max(blend, t);
-        } else if (worldX > gap.x + gap.width && worldX <= rightEnd) {
-          const t = (rightEnd - worldX) / GAP_FLATTEN_RANGE;
-          blend = Math.max(blend, t);
-        }
-      }
-      if (blend > 0) {
-        terrainY = terrainY * (1 - blend) + BASE_GROUND_Y * blend;
-      }
-    }
-
-    return terrainY;
-  }, []);
-
-  const generateTerrain = useCallback((startX: number, count: number) => {
-    const game = gameRef.current;
-    let currentX = startX;
-    let currentY = game.terrain.length > 0
-      ? game.terrain[game.terrain.length - 1].endY
-      : BASE_GROUND_Y;
-
-    for (let i = 0; i < count; i++) {
-      const segmentWidth = 150 + Math.random() * 200;
-      const heightChange = (Math.random() - 0.5) * 80;
-      let targetY = currentY + heightChange;
-      targetY = Math.max(280, Math.min(400, targetY));
-
-      game.terrain.push({
-        startX: currentX,
-        endX: currentX + segmentWidth,
-        startY: currentY,
-        endY: targetY,
-      });
-
-      currentX += segmentWidth;
-      currentY = targetY;
-    }
-    game.nextTerrainX = currentX;
-  }, []);
-
-  const resetGame = useCallback(() => {
-    const game = gameRef.current;
-    game.player = {
-      x: CANVAS_WIDTH / 3,
-      y: BASE_GROUND_Y - PLAYER_HEIGHT,
-      vx: PLAYER_BASE_SPEED,
-      vy: 0,
-      width: PLAYER_WIDTH,
-      height: PLAYER_HEIGHT,
-      state: "running",
-      animFrame: 0,
-      onVine: null,
-      vineLength: 0,
-      invincible: 0,
-    };
-    game.police = {
-      x: -200,
-      speed: POLICE_SPEED,
-    };
-    game.cameraX = 0;
-    game.obstacles = [];
-    game.vines = [];
-    game.coinsList = [];
+    game.sim.reset(seed, modifiers, upgrades, runCharacter, level);
+    game.demo = false;
+    game.weatherRng = new SeededRandom(seed ^ WEATHER_SEED_SALT);
+    Object.assign(game, createWeather(game.weatherRng));
     game.particles = [];
-    game.terrain = [];
-    game.distanceTraveled = 0;
-    game.scoreValue = 0;
-    game.coinsCollected = 0;
-    game.frameCount = 0;
-    game.worldX = 0;
-    game.nextTerrainX = 0;
-    game.lastObstacleX = 0;
-    game.lastVineX = 0;
-    game.lastCoinX = 0;
-    game.vineSwingTime = 0;
-    game.vineGrabCooldown = 0;
-    game.glideSeconds = 0;
-    game.glideChargeProgress = 0;
-    game.nextGlideChargeDistance = GLIDE_CHARGE_DISTANCE;
     game.cameraZoom = 1;
-    game.plane = { x: -200, y: 100, vx: 0, state: "hidden", rotorAngle: 0 } as Plane;
-    game.checkPointReached = false;
-    game.checkPointUsed = false;
-
-    generateTerrain(0, 20);
+    game.clock.accumulator = 0;
+    game.ghost = null;
+    game.lastDisplayedGhostGap = 0;
+    game.lastDisplayedSpotlightHeat = 0;
+    game.lastDisplayedPowerUps = "";
+    game.announcedAchievements = new Set();
+    setRunSeed(seed);
+    setGhostRace(null);
+    setGhostGap(0);
 
     setScore(0);
     setDistance(0);
     setCoins(0);
     setPoliceWarning(0);
+    setSpotlightHeat(0);
+    setCaughtBy(null);
+    setPowerUpSeconds({});
     setCheckpointActive(false);
     setCheckpointUsed(false);
+    setBiomeBanner(null);
     setGlideSeconds(0);
     setGlideChargeProgress(0);
-  }, [generateTerrain]);
+  }, []);
 
   const startGame = useCallback(() => {
-    resetGame();
+    const game = gameRef.current;
+    // A blank seed field means a fresh random layout every run
+    const seed = parseSeed(seedInput) ?? randomSeed();
+    resetGame(seed, [], profile.upgrades, character);
+    game.recorder = new InputRecorder(seed, [], profile.upgrades, character);
+    game.replayer = null;
+    setDailyRun(null);
+    setStoryLevel(null);
+    setCommunityLevel(null);
+    setReplayMode(false);
+    setGameState("playing");
+  }, [resetGame, seedInput, profile.upgrades, character]);
+
+  // Levels are fixed layouts, so the seed only drives the little randomness
+  // left (pursuer behaviour, weather) and is the same on every attempt
+  const startStory = useCallback((index: number) => {
+    const game = gameRef.current;
+    const level = STORY_LEVELS[index];
+    const seed = hashSeed(`level:${level.id}`);
+    resetGame(seed, [], profile.upgrades, character, level);
+    game.recorder = new InputRecorder(seed, [], profile.upgrades, character, level.id);
+    game.replayer = null;
+    setDailyRun(null);
+    setStoryLevel(index);
+    setCommunityLevel(null);
+    setReplayMode(false);
+    setGameState("playing");
+  }, [resetGame, profile.upgrades, character]);
+
+  // Played like a story level, with the player's own upgrades
+  const startCommunityLevel = useCallback((level: Level) => {
+    const game = gameRef.current;
+    const seed = hashSeed(`level:${level.id}`);
+    resetGame(seed, [], profile.upgrades, character, level);
+    game.recorder = new InputRecorder(seed, [], profile.upgrades, character, level.id);
+    game.replayer = null;
+    setDailyRun(null);
+    setStoryLevel(null);
+    setCommunityLevel(level);
+    setReplayMode(false);
+    setGameState("playing");
+  }, [resetGame, profile.upgrades, character]);
+
+  // Always fetch the challenge fresh so a run never starts on yesterday's seed
+  const startDaily = useCallback(async () => {
+    const { data: challenge } = await refetchDaily();
+    if (!challenge) {
+      toast({ title: "Daily Heist unavailable", description: "Could not load today's challenge.", variant: "destructive" });
+      return;
+    }
+    // The ranked attempt is claimed before the run starts, so leaving it
+    // partway doesn't earn another; if it can't be claimed the run is practice
+    const ranked = !!user && !challenge.started &&
+      (await startDailyAttemptMutation.mutateAsync().then(() => true, () => false));
+    const game = gameRef.current;
+    resetGame(challenge.seed, challenge.modifiers, NO_UPGRADES, character);
+    game.recorder = new InputRecorder(challenge.seed, challenge.modifiers, NO_UPGRADES, character);
+    game.replayer = null;
+    setDailyRun({ date: challenge.date, seed: challenge.seed, modifiers: challenge.modifiers, ranked });
+    setStoryLevel(null);
+    setCommunityLevel(null);
+    setReplayMode(false);
+    setGameState("playing");
+  }, [refetchDaily, user, startDailyAttemptMutation, resetGame, toast, character]);
+
+  // Played as the classic runner without upgrades, so designers see the level
+  // as a new player would and an escape can prove it for publishing
+  const startPlaytest = useCallback(() => {
+    if (!playtestLevel) return;
+    const game = gameRef.current;
+    const seed = hashSeed(`level:${playtestLevel.id}`);
+    resetGame(seed, [], NO_UPGRADES, "classic", playtestLevel);
+    game.recorder = new InputRecorder(seed, [], NO_UPGRADES, "classic", playtestLevel.id);
+    game.replayer = null;
+    setDailyRun(null);
+    setStoryLevel(null);
+    setCommunityLevel(null);
+    setReplayMode(false);
     setGameState("playing");
-  }, [resetGame]);
+  }, [resetGame, playtestLevel]);
+
+  // Starts as soon as the editor hands a level over; resetGame never changes,
+  // so this only runs again for a different level
+  useEffect(() => {
+    startPlaytest();
+  }, [startPlaytest]);
+
+  // A live run on the ghost's seed and modifiers, with the ghost alongside.
+  // The player races with their own upgrades and character, the ghost with the ones it recorded;
+  // the course only depends on the seed and modifiers, so both run the same one.
+  const startGhostRace = useCallback((replay: Replay, name: string) => {
+    const game = gameRef.current;
+    resetGame(replay.seed, replay.modifiers, profile.upgrades, character);
+    game.recorder = new InputRecorder(replay.seed, replay.modifiers, profile.upgrades, character);
+    game.replayer = null;
+    game.ghost = {
+      sim: new HeistSimulation(replay.seed, replay.modifiers, replay.upgrades, replay.character),
+      inputs: new ReplayPlayer(replay),
+    };
+    setGhostRace({ replay, name });
+    setDailyRun(null);
+    setStoryLevel(null);
+    setCommunityLevel(null);
+    setReplayMode(false);
+    setGameState("playing");
+  }, [resetGame, profile.upgrades, character]);
+
+  // Restart in whichever mode the last run used
+  const restartRun = useCallback(() => {
+    if (playtestLevel) {
+      startPlaytest();
+    } else if (ghostRace) {
+      startGhostRace(ghostRace.replay, ghostRace.name);
+    } else if (dailyRun) {
+      startDaily();
+    } else if (storyLevel !== null) {
+      startStory(storyLevel);
+    } else if (communityLevel) {
+      startCommunityLevel(communityLevel);
+    } else {
+      startGame();
+    }
+  }, [
+    playtestLevel, ghostRace, dailyRun, storyLevel, communityLevel,
+    startPlaytest, startGhostRace, startDaily, startStory, startCommunityLevel, startGame,
+  ]);
+
+  const startReplay = useCallback((replay: Replay) => {
+    const game = gameRef.current;
+    const loaded = [playtestLevel, communityLevel].find((candidate) => candidate?.id === replay.levelId);
+    const level = replay.levelId === undefined ? null : loaded ?? getStoryLevel(replay.levelId);
+    if (replay.levelId !== undefined && !level) {
+      toast({ title: "Unknown level", description: "This replay was recorded on a level this game doesn't have.", variant: "destructive" });
+      return;
+    }
+    resetGame(replay.seed, replay.modifiers, replay.upgrades, replay.character, level);
+    game.recorder = null;
+    game.replayer = new ReplayPlayer(replay);
+    game.keys = { up: false, down: false };
+    setLastReplay(replay);
+    setReplayMode(true);
+    setGameState("playing");
+  }, [resetGame, playtestLevel, communityLevel, toast]);
+
+  const downloadReplay = useCallback(() => {
+    if (!lastReplay) return;
+    const blob = new Blob([JSON.stringify(lastReplay)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `heist-replay-${formatSeed(lastReplay.seed)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [lastReplay]);
+
+  const loadReplayFile = useCallback(async (file: File) => {
+    try {
+      const parseResult = replaySchema.safeParse(JSON.parse(await file.text()));
+      if (!parseResult.success) {
+        toast({ title: "Invalid replay", description: "That file is not a Heist Runner replay.", variant: "destructive" });
+        return;
+      }
+      startReplay(parseResult.data);
+    } catch (error) {
+      toast({ title: "Invalid replay", description: "Could not read the replay file.", variant: "destructive" });
+    }
+  }, [startReplay, toast]);
 
   const togglePause = useCallback(() => {
     setGameState(prev => prev === "playing" ? "paused" : "playing");
@@ -413,215 +563,138 @@ export default function Game() {
     }
   }, []);
 
-  const gameOver = useCallback(() => {
-    const game = gameRef.current;
-
-    // CHECKPOINT LOGIC
-    if (game.checkPointReached && !game.checkPointUsed) {
-      // RESPAWN!
-      game.checkPointUsed = true;
-      setCheckpointUsed(true);
-
-      // Reset player to safe state
-      game.player.y = BASE_GROUND_Y - 100;
-      game.player.vy = 0;
-      game.player.vx = 0; // Stop momentum
-      game.player.state = "jumping"; // Fall in gracefully
-      game.player.invincible = 120; // 2 seconds safety
-
-      // Push police back
-      game.police.x = game.player.x - 600;
-
-      // Visual Feedback
-      game.shake = 20;
-      createParticles(game.player.x, game.player.y, "#4ade80", 50); // Green Respawn particles
-      // Could add a sound here
-      return;
-    }
+  // Moves a finished run's coins and stats into the profile; replays and playtests never count
+  const bankRun = useCallback((replay: Replay | undefined) => {
+    if (!replay || playtestLevel) return;
+    bankMutation.mutate({ replay, stats: { ...gameRef.current.sim.stats } }, {
+      onError: (error) => toast({ title: "Run not saved", description: describeApiError(error), variant: "destructive" }),
+    });
+  }, [bankMutation, playtestLevel, toast]);
 
-    const finalScore = game.scoreValue;
-    const finalDistance = Math.floor(game.distanceTraveled);
-    const finalCoins = game.coinsCollected;
+  // Toasts achievements the live run has just completed. They are only saved
+  // once the run is banked, so this checks the profile plus the run so far.
+  const announceAchievements = useCallback(() => {
+    const game = gameRef.current;
+    if (!game.recorder || playtestLevel) return;
+    const { stats, achievements } = profileRef.current;
+    const record = { lifetime: addStats(stats.lifetime, game.sim.stats), best: maxStats(stats.best, game.sim.stats) };
+    const earned = getEarnedAchievements(record).filter(
+      (id) => !achievements.includes(id) && !game.announcedAchievements.has(id),
+    );
+    if (earned.length === 0) return;
+    earned.forEach((id) => game.announcedAchievements.add(id));
+    toast({
+      title: earned.length === 1 ? "Achievement unlocked!" : `${earned.length} achievements unlocked!`,
+      description: earned.map((id) => ACHIEVEMENTS[id].name).join(", "),
+    });
+  }, [playtestLevel, toast]);
 
+  // Keeps the best endless run and posts the score of an endless or daily run,
+  // whether it ended in a bust or an escape
+  const recordScore = useCallback((replay: Replay | undefined) => {
+    const sim = gameRef.current.sim;
+    const finalScore = sim.scoreValue;
     setHighScore((prev: number) => {
-      if (game.scoreValue > prev) {
-        localStorage.setItem("runnerHighScore", game.scoreValue.toString());
-        return game.scoreValue;
+      if (finalScore > prev) {
+        localStorage.setItem("runnerHighScore", finalScore.toString());
+        return finalScore;
       }
       return prev;
     });
-    const validatedName = playerName.trim() || 'Player';
-    submitScoreMutation.mutate({
-      playerName: validatedName,
-      score: finalScore,
-      distance: finalDistance,
-      coins: finalCoins,
-    });
-
-    setGameState("gameover");
-    soundRef.current.playGameOver();
-  }, [playerName, submitScoreMutation, createParticles]); // Added createParticles to dependencies
-
-  const spawnVine = useCallback((worldX: number, options: { force?: boolean; length?: number; angle?: number; anchorY?: number } = {}) => {
-    const game = gameRef.current;
-    const { force = false, length, angle, anchorY } = options;
-
-    if (!force) {
-      const inGap = game.obstacles.some(o => o.type === "gap" && worldX >= o.x && worldX <= o.x + o.width);
-      if (inGap) return;
-
-      const nearWall = game.obstacles.some(o => o.type === "low_beam" && worldX >= o.x - VINE_WALL_BUFFER && worldX <= o.x + o.width + VINE_WALL_BUFFER);
-      if (nearWall) return;
-
-      const nearSpike = game.obstacles.some(o => o.type === "spike" && worldX >= o.x - VINE_SPIKE_BUFFER && worldX <= o.x + o.width + VINE_SPIKE_BUFFER);
-      if (nearSpike) return;
+    if (replay && finalScore > highScore) {
+      localStorage.setItem("runnerBestReplay", JSON.stringify(replay));
+      setBestReplay(replay);
     }
+    // Only signed-in players post scores; the server re-simulates the replay to verify it.
+    // Daily runs go to the daily board, and only the first one each day is ranked.
+    if (replay && user) {
+      const submission = {
+        score: finalScore,
+        distance: Math.floor(sim.distanceTraveled),
+        coins: sim.coinsCollected,
+        replay,
+      };
+      if (!dailyRun) {
+        // Modified runs (e.g. racing a daily ghost) have no leaderboard to go to
+        if (replay.modifiers.length === 0) submitScoreMutation.mutate(submission);
+      } else if (dailyRun.ranked) {
+        submitDailyMutation.mutate(submission);
+      }
+    }
+  }, [user, dailyRun, highScore, submitScoreMutation, submitDailyMutation]);
 
-    game.vines.push({
-      x: worldX,
-      anchorY: anchorY ?? 20,
-      length: length ?? (180 + Math.random() * 80),
-      angle: angle ?? -Math.PI / 4,
-      angularVelocity: 0,
-    });
-    game.lastVineX = worldX;
-  }, []);
-
-  const spawnObstacle = useCallback((worldX: number) => {
+  const gameOver = useCallback(() => {
     const game = gameRef.current;
+    const sim = game.sim;
+    setCaughtBy(sim.caughtBy);
 
-    // Weighted probabilities for FLOW
-    // Spike: 30%, Low Beam: 30%, Gap: 25%, Ramp: 5%, Chasm: 10%
-    const rand = Math.random();
-    let type: Obstacle["type"] = "spike";
-
-    if (rand < 0.30) type = "spike";
-    else if (rand < 0.60) type = "low_beam";
-    else if (rand < 0.85) type = "gap"; // Small/Medium Gap
-    else if (rand < 0.90) type = "ramp";
-    else type = "gap"; // Chasm placeholder (will be handled below)
-
-    // FORCE Chasm logic if we rolled the last 10%
-    const isChasm = rand >= 0.90;
-
-    let width = 60;
-    let height = 40;
-
-    if (isChasm) {
-      // Warning Sign FIRST
-      game.obstacles.push({
-        x: worldX,
-        type: "warning",
-        width: 40,
-        height: 80, // Tall sign
-        passed: false
-      });
-
-      // Then the ACTUAL Chasm 500 units later
-      const chasmX = worldX + 500;
-      width = 800 + Math.random() * 400; // Giant
-
-      game.obstacles.push({
-        x: chasmX,
-        type: "gap",
-        width: width,
-        height: 300,
-        passed: false
-      });
-
-      // Flatten terrain around chasm
-      const flattenStart = chasmX - GAP_FLATTEN_RANGE;
-      const flattenEnd = chasmX + width + GAP_FLATTEN_RANGE;
-      game.terrain.forEach((seg: TerrainSegment) => {
-        if (seg.endX > flattenStart && seg.startX < flattenEnd) {
-          seg.startY = BASE_GROUND_Y;
-          seg.endY = BASE_GROUND_Y;
-        }
-      });
-
-      const preChasmVineX = chasmX - 140;
-      const midChasmVineX = chasmX + width * 0.45;
-      spawnVine(preChasmVineX, { force: true, length: 240, angle: -Math.PI / 6 });
-      spawnVine(midChasmVineX, { force: true, length: 220, angle: -Math.PI / 10, anchorY: 30 });
-
-      game.lastObstacleX = chasmX + width;
-      return; // Done
-    }
-
-    let obstacleX = worldX;
-    const isNearVine = (buffer: number) => game.vines.some(v => Math.abs(v.x - obstacleX) < buffer);
-    if (type === "low_beam" && isNearVine(VINE_WALL_BUFFER)) {
-      obstacleX += VINE_WALL_BUFFER;
-    }
-    if (type === "spike" && isNearVine(VINE_SPIKE_BUFFER)) {
-      obstacleX += VINE_SPIKE_BUFFER;
+    // Replays never count towards scores
+    if (game.replayer) {
+      setGameState("gameover");
+      soundRef.current.playGameOver();
+      return;
     }
+    const replay = game.recorder?.toReplay();
+    if (replay) setLastReplay(replay);
 
-    switch (type) {
-      case "spike":
-        width = 30;
-        height = 40;
-        break;
-      case "low_beam":
-        width = 40; // Thicker wall
-        height = CANVAS_HEIGHT; // Full height (visual only, effective height handled in collision)
-        break;
-      case "gap":
-        // Regular Jumpable Gap - SMALLER as requested
-        width = 100 + Math.random() * 150; // Was 200+
-        height = 300;
-        break;
-      case "ramp":
-        width = 120;
-        height = 60;
-        break;
-    }
+    bankRun(replay);
+    // Level runs keep their coins and stats but have no high score or leaderboard
+    if (!sim.level) recordScore(replay);
 
-    game.obstacles.push({
-      x: obstacleX,
-      type,
-      width,
-      height,
-      passed: false,
-    });
+    setGameState("gameover");
+    soundRef.current.playGameOver();
+  }, [bankRun, recordScore]);
 
-    // Flatten terrain segments around gaps so pits have flat ground on both sides
-    if (type === "gap") {
-      const flattenStart = obstacleX - GAP_FLATTEN_RANGE;
-      const flattenEnd = obstacleX + width + GAP_FLATTEN_RANGE;
-      game.terrain.forEach((seg: TerrainSegment) => {
-        if (seg.endX > flattenStart && seg.startX < flattenEnd) {
-          seg.startY = BASE_GROUND_Y;
-          seg.endY = BASE_GROUND_Y;
-        }
-      });
+  // The helicopter got away with the player; replays have no recorder and count for nothing
+  const finishEscape = useCallback(() => {
+    const game = gameRef.current;
+    const sim = game.sim;
+    if (game.recorder) {
+      const replay = game.recorder.toReplay();
+      setLastReplay(replay);
+      bankRun(replay);
+      if (!sim.level) recordScore(replay);
+      if (playtestLevel) onPlaytestEscape?.(replay);
+      // Escapes on community levels go to that level's leaderboard
+      if (communityLevel && user && replay.levelId === communityLevel.id) {
+        submitLevelScoreMutation.mutate({
+          levelId: communityLevel.id,
+          score: sim.scoreValue,
+          distance: Math.floor(sim.distanceTraveled),
+          coins: sim.coinsCollected,
+          replay,
+        });
+      }
+      // Clearing a story level unlocks the next one
+      const index = playtestLevel ? -1 : STORY_LEVELS.findIndex((level) => level.id === replay.levelId);
+      if (index !== -1) {
+        setStoryCleared((prev) => {
+          const cleared = Math.max(prev, index + 1);
+          localStorage.setItem("storyProgress", cleared.toString());
+          return cleared;
+        });
+      }
     }
+    setGameState("victory");
+  }, [bankRun, recordScore, playtestLevel, onPlaytestEscape, communityLevel, user, submitLevelScoreMutation]);
 
-    game.lastObstacleX = obstacleX + width;
-    if (type === "gap") game.lastVineX = obstacleX;
-
-  }, [spawnVine]);
-
-  const spawnCoin = useCallback((worldX: number, groundY: number) => {
-    const game = gameRef.current;
-    const inGap = game.obstacles.some(o => o.type === "gap" && worldX >= o.x && worldX <= o.x + o.width);
-    if (inGap) return;
-    const yPositions = [groundY - 80, groundY - 130, groundY - 180];
-    game.coinsList.push({
-      x: worldX,
-      y: yPositions[Math.floor(Math.random() * yPositions.length)],
-      collected: false,
-      rotation: 0,
-    });
-    game.lastCoinX = worldX;
-  }, []);
+  // The game loop calls these through refs so it only restarts when gameState changes
+  const gameOverRef = useRef(gameOver);
+  gameOverRef.current = gameOver;
+  const escapeRef = useRef(finishEscape);
+  escapeRef.current = finishEscape;
+  const announceAchievementsRef = useRef(announceAchievements);
+  announceAchievementsRef.current = announceAchievements;
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const game = gameRef.current;
+      // Let text fields (seed, login) receive W, S and SPACE as text
+      const typing = e.target instanceof HTMLInputElement;
+      if (typing && e.key !== "Enter") return;
       if (e.key === "ArrowUp" || e.key === "w" || e.key === " ") {
         e.preventDefault();
-        if (!game.keys.up && game.player.state !== "falling") {
+        if (!game.keys.up && !game.replayer && game.sim.player.state !== "falling") {
           soundRef.current.playJump();
         }
         game.keys.up = true;
@@ -634,7 +707,6 @@ export default function Game() {
         togglePause();
       }
       if (e.key === "Enter" && gameState === "start") {
-        if (!playerName.trim()) return; // Validation
         startGame();
       }
     };
@@ -655,7 +727,7 @@ export default function Game() {
       window.removeEventListener("keydown", handleKeyDown);
       window.removeEventListener("keyup", handleKeyUp);
     };
-  }, [gameState, togglePause, startGame, playerName]);
+  }, [gameState, togglePause, startGame]);
 
   useEffect(() => {
     // Allow loop to continue for victory logic if needed, but we switch state at end
@@ -663,7 +735,8 @@ export default function Game() {
     // At end of cutscene, we switch to "victory". 
     // So "victory" state is just the static screen.
     // So this line is fine as long as we only switch to "victory" AFTER the plane flies away.
-    if (gameState !== "playing") return;
+    // Behind the start screen it runs too, with the autopilot playing a demo.
+    if (gameState !== "playing" && gameState !== "start") return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -672,230 +745,75 @@ export default function Game() {
 
     let animationId: number;
     const game = gameRef.current;
+    const sim = game.sim;
+    const attract = gameState === "start";
+
+    // A fresh procedural run with no upgrades for the autopilot to play. The
+    // start screen picks up a demo that's still going rather than restart it.
+    const startDemo = () => {
+      const seed = randomSeed();
+      sim.reset(seed, [], NO_UPGRADES, "classic", null);
+      game.demo = true;
+      game.recorder = null;
+      game.replayer = null;
+      game.ghost = null;
+      game.particles = [];
+      game.cameraZoom = 1;
+      game.weatherRng = new SeededRandom(seed ^ WEATHER_SEED_SALT);
+      Object.assign(game, createWeather(game.weatherRng));
+    };
+    if (attract && (!game.demo || sim.status !== "running")) startDemo();
+    let demoEndedAt: number | null = null;
+
+    // Positions at the start of the latest tick, and the blend between those
+    // and the current tick that actually gets drawn.
+    const prev = {
+      cameraX: sim.cameraX,
+      playerX: sim.player.x,
+      playerY: sim.player.y,
+      policeX: sim.police.x,
+      policeAltitude: sim.police.altitude,
+      ghostX: game.ghost?.sim.player.x ?? 0,
+      ghostY: game.ghost?.sim.player.y ?? 0,
+    };
+    const view = { ...prev };
+    // Set when a replay's input log runs out before the run itself ended
+    let replayEnded = false;
+    // Pursuers come and go, so their previous positions are kept per object
+    const prevPursuers = new WeakMap<Pursuer, { x: number; y: number; spotlightX: number }>();
+    let renderAlpha = 1;
+    // What the shared world drawing needs; camera, zoom and the biome colours
+    // the view is showing are refreshed every frame
+    const biomeBlend = getBiomeBlend(view.cameraX + CANVAS_WIDTH / 2);
+    const scene: WorldScene = {
+      ctx,
+      sim,
+      cameraX: view.cameraX,
+      zoom: game.cameraZoom,
+      biomeBlend,
+      art: blendBiomeArt(biomeBlend),
+      padSquash: { x: 0, frame: -Infinity },
+    };
+    let biomeBannerTimer: ReturnType<typeof setTimeout> | undefined;
 
     // Robust initialization for HMR stability
-    if (!game.rain) {
-      game.rain = Array.from({ length: 100 }, () => ({
-        x: Math.random() * CANVAS_WIDTH,
-        y: Math.random() * CANVAS_HEIGHT,
-        l: Math.random() * 20 + 10,
-        v: Math.random() * 10 + 10,
-      }));
-    }
-    if (!game.fireflies) {
-      game.fireflies = Array.from({ length: 20 }, () => ({
-        x: Math.random() * CANVAS_WIDTH,
-        y: Math.random() * CANVAS_HEIGHT,
-        s: Math.random() * 2 + 1,
-        o: Math.random() * Math.PI * 2,
-      }));
+    if (!game.rain || !game.fireflies) {
+      Object.assign(game, createWeather(game.weatherRng));
     }
     if (game.shake === undefined) game.shake = 0;
 
-    const drawBackground = () => {
-      const zs = 1 / game.cameraZoom;
-      const extW = canvas.width * zs + 100;
-      const extH = canvas.height * zs + 100;
-      const offX = -((extW - canvas.width) / 2);
-      const offY = -((extH - canvas.height) / 2);
-
-      // Deep Jungle Sky Gradient - covers extended area
-      const skyGradient = ctx.createLinearGradient(0, offY, 0, offY + extH);
-      skyGradient.addColorStop(0, "#022c22"); // Ultra deep teal
-      skyGradient.addColorStop(0.4, "#064e3b");
-      skyGradient.addColorStop(1, "#065f46");
-      ctx.fillStyle = skyGradient;
-      ctx.fillRect(offX, offY, extW, extH);
-
-      // Atmospheric Fog / Horizon Depth
-      const fogGradient = ctx.createLinearGradient(0, canvas.height * 0.4, 0, offY + extH);
-      fogGradient.addColorStop(0, "rgba(5, 150, 105, 0)");
-      fogGradient.addColorStop(1, "rgba(20, 184, 166, 0.2)");
-      ctx.fillStyle = fogGradient;
-      ctx.fillRect(offX, canvas.height * 0.4, extW, extH * 0.6);
-
-      // 1. Distant Parallax Layer: Far Silhouettes
-      ctx.fillStyle = "#011c15";
-      for (let i = 0; i < 8; i++) {
-        const x = ((i * 300 - game.cameraX * 0.05) % (extW + 600)) - 300 + offX;
-        const height = 200 + (i % 3) * 80;
-        ctx.fillRect(x, canvas.height - height - 100, 40, height + 100);
+    // Draws a robber at an interpolated position; ghosts are translucent and
+    // skip the shadow and speed lines so they don't read as the real player.
+    const drawRobber = (robber: Player, x: number, y: number, ghost: boolean, character: CharacterId) => {
+      const p = { ...robber, x, y };
+      const screenX = p.x - view.cameraX;
+      const charConfig = CHARACTER_STYLES[character];
 
-        ctx.beginPath();
-        ctx.moveTo(x - 60, canvas.height - height - 80);
-        ctx.lineTo(x + 20, canvas.height - height - 150);
-        ctx.lineTo(x + 100, canvas.height - height - 80);
-        ctx.fill();
-      }
-
-      // 2. God Rays (Light Rays)
-      ctx.save();
-      ctx.globalCompositeOperation = "screen";
-      const rayGradient = ctx.createLinearGradient(0, 0, 200, 400);
-      rayGradient.addColorStop(0, "rgba(255, 255, 200, 0.15)");
-      rayGradient.addColorStop(1, "rgba(255, 255, 200, 0)");
-      ctx.fillStyle = rayGradient;
-      for (let i = 0; i < 5; i++) {
-        const startX = (i * 250 - (game.cameraX * 0.1) % 400) + 100;
-        ctx.beginPath();
-        ctx.moveTo(startX, 0);
-        ctx.lineTo(startX + 150, 0);
-        ctx.lineTo(startX - 200, 600);
-        ctx.lineTo(startX - 350, 600);
-        ctx.fill();
-      }
-      ctx.restore();
-
-      // 3. Middle Parallax Layer: Thicker Trees
-      ctx.fillStyle = "#022c22";
-      for (let i = 0; i < 10; i++) {
-        const x = ((i * 220 - game.cameraX * 0.2) % (extW + 400)) - 200 + offX;
-        const height = 150 + (i % 4) * 50;
-        // Tree Trunk
-        ctx.fillRect(x, canvas.height - height - 150, 50, height + 150);
-        // Foliage "clumps"
-        ctx.beginPath();
-        ctx.arc(x + 25, canvas.height - height - 150, 60, 0, Math.PI * 2);
-        ctx.arc(x - 10, canvas.height - height - 120, 45, 0, Math.PI * 2);
-        ctx.arc(x + 60, canvas.height - height - 120, 45, 0, Math.PI * 2);
-        ctx.fill();
-      }
-
-      // 4. Close Foliage (Foreground Blur)
-      ctx.fillStyle = "#01211b";
-      for (let i = 0; i < 12; i++) {
-        const x = ((i * 150 - game.cameraX * 0.4) % (extW + 300)) - 150 + offX;
-        const height = 80 + (i % 3) * 40;
-        ctx.beginPath();
-        ctx.ellipse(x + 75, canvas.height - 100, 60, height / 2, 0, 0, Math.PI * 2);
-        ctx.fill();
-      }
-    };
-
-    const drawTerrain = () => {
       ctx.save();
-      const visibleStart = game.cameraX - 100;
-      const visibleEnd = game.cameraX + canvas.width + 100;
-
-      // Helper to draw a contiguous terrain block
-      const drawBlock = (segments: TerrainSegment[], layer: "soil" | "stone" | "moss") => {
-        if (segments.length === 0) return;
 
-        ctx.beginPath();
-        const first = segments[0];
-        const last = segments[segments.length - 1];
-
-        if (layer === "soil") {
-          ctx.moveTo(first.startX - game.cameraX, first.startY + 40);
-          segments.forEach(s => ctx.lineTo(s.endX - game.cameraX, s.endY + 40));
-          ctx.lineTo(last.endX - game.cameraX, canvas.height);
-          ctx.lineTo(first.startX - game.cameraX, canvas.height);
-          ctx.fill();
-        } else if (layer === "stone") {
-          ctx.moveTo(first.startX - game.cameraX, first.startY);
-          segments.forEach(s => ctx.lineTo(s.endX - game.cameraX, s.endY));
-          ctx.lineTo(last.endX - game.cameraX, canvas.height);
-          ctx.lineTo(first.startX - game.cameraX, canvas.height);
-          ctx.fill();
-        } else { // moss
-          ctx.moveTo(first.startX - game.cameraX, first.startY);
-          segments.forEach(s => ctx.lineTo(s.endX - game.cameraX, s.endY));
-          ctx.stroke();
-        }
-      };
-
-      // Group segments into "mainland" blocks separated by gaps
-      const blocks: TerrainSegment[][] = [];
-      let currentBlock: TerrainSegment[] = [];
-
-      game.terrain.forEach((segment: TerrainSegment) => {
-        if (segment.endX < visibleStart || segment.startX > visibleEnd) return;
-
-        // Check for interactions with gaps
-        const overlappingGaps = game.obstacles.filter((o: Obstacle) => o.type === "gap" &&
-          !(segment.endX <= o.x || segment.startX >= o.x + o.width)
-        ).sort((a, b) => a.x - b.x);
-
-        if (overlappingGaps.length === 0) {
-          currentBlock.push({
-            startX: segment.startX,
-            endX: segment.endX,
-            startY: getTerrainHeight(segment.startX, true),
-            endY: getTerrainHeight(segment.endX, true),
-          });
-        } else {
-          // Complex case: Segment hits one or more gaps.
-          // We need to carve it up.
-          let cursor = segment.startX;
-
-          overlappingGaps.forEach(gap => {
-            // 1. Draw solid ground BEFORE the gap
-            if (cursor < gap.x) {
-              // Create a temp segment for the solid part
-              const end = Math.min(segment.endX, gap.x);
-              currentBlock.push({
-                startX: cursor,
-                endX: end,
-                startY: getTerrainHeight(cursor, true),
-                endY: getTerrainHeight(end, true)
-              });
-            }
-
-            // 2. We hit a gap. End the current block to break the visual mesh.
-            if (currentBlock.length > 0) blocks.push(currentBlock);
-            currentBlock = [];
-
-            // 3. Move cursor to end of gap
-            cursor = Math.max(cursor, gap.x + gap.width);
-          });
-
-          // 4. Trail after the last gap?
-          if (cursor < segment.endX) {
-            currentBlock.push({
-              startX: cursor,
-              endX: segment.endX,
-              startY: getTerrainHeight(cursor, true),
-              endY: getTerrainHeight(segment.endX, true)
-            });
-          }
-        }
-      });
-      if (currentBlock.length > 0) blocks.push(currentBlock);
-
-      // 1. Deep soil
-      ctx.fillStyle = "#2d1b0d";
-      blocks.forEach(b => drawBlock(b, "soil"));
-
-      // 2. Stone/Earth
-      const stoneGradient = ctx.createLinearGradient(0, BASE_GROUND_Y, 0, canvas.height);
-      stoneGradient.addColorStop(0, "#4a3728");
-      stoneGradient.addColorStop(1, "#2d1b0d");
-      ctx.fillStyle = stoneGradient;
-      blocks.forEach(b => drawBlock(b, "stone"));
-
-      // 3. Mossy Top
-      ctx.strokeStyle = "#064e3b";
-      ctx.lineWidth = 14;
-      ctx.lineJoin = "round";
-      blocks.forEach(b => drawBlock(b, "moss"));
-
-      ctx.strokeStyle = "#10b981";
-      ctx.lineWidth = 6;
-      blocks.forEach(b => drawBlock(b, "moss"));
-
-      ctx.restore();
-    };
-
-    const drawPlayer = () => {
-      const p = game.player;
-      const screenX = p.x - game.cameraX;
-      const charConfig = CHARACTER_STYLES[selectedCharacter];
-
-      ctx.save();
-
-      // Character Shadow
-      const groundY = getTerrainHeight(p.x + p.width / 2);
-      if (p.y + p.height < groundY + 10) {
+      // Character Shadow (on a platform if there's one underneath)
+      const groundY = sim.getSurfaceHeight(p.x + p.width / 2, p.y + p.height - 5);
+      if (!ghost && p.y + p.height < groundY + 10) {
         ctx.fillStyle = "rgba(0, 0, 0, 0.2)";
         ctx.beginPath();
         ctx.ellipse(screenX + p.width / 2, groundY, p.width / 1.5, 5, 0, 0, Math.PI * 2);
@@ -903,7 +821,7 @@ export default function Game() {
       }
 
       // Speed Lines (Visual feedback for boost)
-      if (p.vx > PLAYER_BASE_SPEED + 3) {
+      if (!ghost && p.vx > PLAYER_BASE_SPEED + 3) {
         ctx.strokeStyle = "rgba(255, 255, 255, 0.3)";
         ctx.lineWidth = 2;
         for (let i = 0; i < 3; i++) {
@@ -915,7 +833,9 @@ export default function Game() {
         }
       }
 
-      if (p.invincible > 0 && Math.floor(game.frameCount / 5) % 2 === 0) {
+      if (ghost) {
+        ctx.globalAlpha = 0.35;
+      } else if (p.invincible > 0 && Math.floor(sim.frameCount / 5) % 2 === 0) {
         ctx.globalAlpha = 0.5;
       }
 
@@ -925,7 +845,7 @@ export default function Game() {
         ctx.translate(-(screenX + p.width / 2), -(p.y + p.height / 2));
       }
 
-      const bounce = p.state === "running" ? Math.sin(game.frameCount * 0.3) * 2 : 0;
+      const bounce = p.state === "running" ? Math.sin(sim.frameCount * 0.3) * 2 : 0;
 
       if (p.state === "sliding") {
         const slideY = p.y + p.height - SLIDE_HEIGHT;
@@ -970,7 +890,7 @@ export default function Game() {
         ctx.fillRect(screenX + p.width - 18, p.y + p.height - 15, 10, 15);
 
         if (p.state === "running") {
-          const legOffset = Math.sin(game.frameCount * 0.4) * 5;
+          const legOffset = Math.sin(sim.frameCount * 0.4) * 5;
           ctx.fillRect(screenX + 8 + legOffset, p.y + p.height - 15, 10, 15);
           ctx.fillRect(screenX + p.width - 18 - legOffset, p.y + p.height - 15, 10, 15);
         }
@@ -998,16 +918,31 @@ export default function Game() {
       ctx.restore();
     };
 
+    const drawPlayer = () => drawRobber(sim.player, view.playerX, view.playerY, false, sim.character);
+
+    // The ghost stops being drawn once its run is over
+    const drawGhost = () => {
+      if (game.ghost?.sim.status === "running") {
+        drawRobber(game.ghost.sim.player, view.ghostX, view.ghostY, true, game.ghost.sim.character);
+      }
+    };
+
     const drawPolice = () => {
-      const police = game.police;
-      const screenX = police.x - game.cameraX;
+      const screenX = view.policeX - view.cameraX;
 
       if (screenX > -200) {
         ctx.save();
-        const policeCenterX = police.x + 50;
-        const policeOverGap = game.obstacles.some(o => o.type === "gap" && policeCenterX > o.x && policeCenterX < o.x + o.width);
-        const pGroundY = policeOverGap ? BASE_GROUND_Y : getTerrainHeight(policeCenterX, true);
-        ctx.translate(0, pGroundY - BASE_GROUND_Y);
+        const police = sim.police;
+        const policeCenterX = view.policeX + 50;
+        const policeOverGap = sim.obstacles.some(o => o.type === "gap" && policeCenterX > o.x && policeCenterX < o.x + o.width);
+        const pGroundY = policeOverGap ? BASE_GROUND_Y : sim.getTerrainHeight(policeCenterX, true);
+        ctx.translate(0, pGroundY - BASE_GROUND_Y - view.policeAltitude);
+        if (police.state === "jumping") {
+          // Nose up on the way up, nose down on the way down
+          ctx.translate(screenX + 50, BASE_GROUND_Y - 30);
+          ctx.rotate(-police.climb * 0.02);
+          ctx.translate(-(screenX + 50), -(BASE_GROUND_Y - 30));
+        }
 
         // Body (Realistic black sedan)
         ctx.fillStyle = "#0c0a09"; // Stone-950
@@ -1024,7 +959,15 @@ export default function Game() {
         ctx.fillRect(screenX + 20, BASE_GROUND_Y - 60, 25, 12);
         ctx.fillRect(screenX + 50, BASE_GROUND_Y - 60, 20, 12);
 
-        if (policeOverGap) {
+        if (police.state === "braking") {
+          ctx.shadowBlur = 12;
+          ctx.shadowColor = "#ef4444";
+          ctx.fillStyle = "#ef4444";
+          ctx.fillRect(screenX - 2, BASE_GROUND_Y - 42, 6, 10);
+          ctx.shadowBlur = 0;
+        }
+
+        if (police.state === "flying") {
           const rotorX = screenX + 50;
           const rotorY = BASE_GROUND_Y - 85;
           ctx.save();
@@ -1035,7 +978,7 @@ export default function Game() {
           ctx.lineTo(rotorX, BASE_GROUND_Y - 65);
           ctx.stroke();
           ctx.translate(rotorX, rotorY);
-          ctx.rotate(game.frameCount * 0.25);
+          ctx.rotate(sim.frameCount * 0.25);
           ctx.lineWidth = 4;
           ctx.beginPath();
           ctx.moveTo(-30, 0);
@@ -1049,7 +992,7 @@ export default function Game() {
         }
 
         // Emergency Lights (Glow)
-        const lightOn = Math.floor(game.frameCount / 5) % 2 === 0;
+        const lightOn = Math.floor(sim.frameCount / 5) % 2 === 0;
         ctx.shadowBlur = 15;
         ctx.shadowColor = lightOn ? "#ef4444" : "#3b82f6";
         ctx.fillStyle = lightOn ? "#ef4444" : "#3b82f6";
@@ -1075,262 +1018,225 @@ export default function Game() {
       }
     };
 
-    const drawObstacle = (obs: Obstacle) => {
-      const screenX = obs.x - game.cameraX;
-      const groundY = getTerrainHeight(obs.x + obs.width / 2);
-
-      ctx.save();
-
-      switch (obs.type) {
-        case "spike":
-          const spikeGradient = ctx.createLinearGradient(screenX, groundY, screenX, groundY - obs.height);
-          spikeGradient.addColorStop(0, "#44403c"); // Dark steel
-          spikeGradient.addColorStop(0.5, "#a8a29e"); // Highlight
-          spikeGradient.addColorStop(1, "#44403c");
-          ctx.fillStyle = spikeGradient;
-          ctx.beginPath();
-          ctx.moveTo(screenX, groundY);
-          ctx.lineTo(screenX + obs.width / 2, groundY - obs.height);
-          ctx.lineTo(screenX + obs.width, groundY);
-          ctx.fill();
-          // Sharp edge highlight
-          ctx.strokeStyle = "#ffffff";
-          ctx.lineWidth = 1;
-          ctx.stroke();
-          break;
-
-        case "mushroom":
-          // Stalk with texture
-          ctx.fillStyle = "#f5f5f4";
-          ctx.fillRect(screenX + obs.width / 3, groundY - obs.height / 2, obs.width / 3, obs.height / 2);
-
-          // Organic Cap Gradient
-          const capGradient = ctx.createRadialGradient(screenX + obs.width / 2, groundY - obs.height / 2, 0, screenX + obs.width / 2, groundY - obs.height / 2, obs.width / 2);
-          capGradient.addColorStop(0, "#ef4444");
-          capGradient.addColorStop(0.8, "#991b1b");
-          capGradient.addColorStop(1, "#450a0a");
-          ctx.fillStyle = capGradient;
-          ctx.beginPath();
-          ctx.ellipse(screenX + obs.width / 2, groundY - obs.height / 2, obs.width / 2, obs.height / 2, 0, 0, Math.PI * 2);
-          ctx.fill();
-
-          // Bioluminescent glow spots
-          ctx.shadowBlur = 10;
-          ctx.shadowColor = "#ffffff";
-          ctx.fillStyle = "#ffffff";
-          ctx.beginPath(); ctx.arc(screenX + obs.width / 2, groundY - obs.height / 1.5, 5, 0, Math.PI * 2); ctx.fill();
-          ctx.beginPath(); ctx.arc(screenX + obs.width / 4, groundY - obs.height / 2, 4, 0, Math.PI * 2); ctx.fill();
-          ctx.beginPath(); ctx.arc(screenX + obs.width / 1.4, groundY - obs.height / 2, 4, 0, Math.PI * 2); ctx.fill();
-          ctx.shadowBlur = 0;
-          break;
-
-
-
-        case "gap":
-          // Draw the ABYSS first (fill the hole with darkness)
-          ctx.fillStyle = "#000000";
-          ctx.fillRect(screenX, BASE_GROUND_Y, obs.width, canvas.height - BASE_GROUND_Y);
-
-          ctx.save();
-          // Side Walls (Depth) - subtle gradient to suggest dirt walls
-          const sideWallGradient = ctx.createLinearGradient(screenX, BASE_GROUND_Y, screenX, canvas.height);
-          sideWallGradient.addColorStop(0, "#2d1b0d");
-          sideWallGradient.addColorStop(1, "#000000");
-
-          ctx.fillStyle = sideWallGradient;
-          // Left Wall
-          ctx.fillRect(screenX, BASE_GROUND_Y, 20, canvas.height - BASE_GROUND_Y);
-          // Right Wall
-          ctx.fillRect(screenX + obs.width - 20, BASE_GROUND_Y, 20, canvas.height - BASE_GROUND_Y);
-
-          // Sharp Moss edges
-          ctx.strokeStyle = "#064e3b";
-          ctx.lineWidth = 14;
-          ctx.beginPath();
-          ctx.moveTo(screenX, BASE_GROUND_Y);
-          ctx.lineTo(screenX, BASE_GROUND_Y + 10);
-          ctx.stroke();
-          ctx.beginPath();
-          ctx.moveTo(screenX + obs.width, BASE_GROUND_Y);
-          ctx.lineTo(screenX + obs.width, BASE_GROUND_Y + 10);
-          ctx.stroke();
-
-          ctx.strokeStyle = "#10b981";
-          ctx.lineWidth = 6;
-          ctx.beginPath(); ctx.moveTo(screenX, BASE_GROUND_Y); ctx.lineTo(screenX, BASE_GROUND_Y + 10); ctx.stroke();
-          ctx.beginPath(); ctx.moveTo(screenX + obs.width, BASE_GROUND_Y); ctx.lineTo(screenX + obs.width, BASE_GROUND_Y + 10); ctx.stroke();
-
-          ctx.restore();
-          break;
+    // Interpolated position: altitude for ground units, height for the helicopter
+    const pursuerView = (unit: Pursuer) => {
+      const current = {
+        x: unit.x,
+        y: unit.kind === "helicopter" ? unit.y : unit.altitude,
+        spotlightX: unit.kind === "helicopter" ? unit.spotlightX : 0,
+      };
+      const before = prevPursuers.get(unit);
+      if (!before) return current;
+      return {
+        x: before.x + (current.x - before.x) * renderAlpha,
+        y: before.y + (current.y - before.y) * renderAlpha,
+        spotlightX: before.spotlightX + (current.spotlightX - before.spotlightX) * renderAlpha,
+      };
+    };
 
-        case "ramp":
-          const rampGradient = ctx.createLinearGradient(screenX, groundY, screenX + obs.width, groundY - obs.height);
-          rampGradient.addColorStop(0, "#065f46");
-          rampGradient.addColorStop(1, "#10b981");
-          ctx.fillStyle = rampGradient;
-          ctx.beginPath();
-          ctx.moveTo(screenX, groundY);
-          ctx.lineTo(screenX + obs.width, groundY - obs.height);
-          ctx.lineTo(screenX + obs.width, groundY);
-          ctx.closePath();
-          ctx.fill();
-          break;
+    // Ground level under a unit, or the road height while it is over a gap
+    const pursuerGroundY = (centerX: number) => {
+      const overGap = sim.obstacles.some(o => o.type === "gap" && centerX > o.x && centerX < o.x + o.width);
+      return overGap ? BASE_GROUND_Y : sim.getTerrainHeight(centerX, true);
+    };
 
-        case "low_beam":
-          // "Slide Wall" - Big wall with a gap at the bottom
-          // Draw from top of screen down to the slide height
-          const gapHeight = SLIDE_HEIGHT + 20; // Enough space to slide under
-          const wallBottom = groundY - gapHeight;
-
-          // Wall Body
-          ctx.fillStyle = "#334155"; // Slate-700
-          ctx.fillRect(screenX, 0, obs.width, wallBottom);
-
-          // Tech details / reinforcement
-          ctx.fillStyle = "#1e293b"; // Slate-800
-          ctx.fillRect(screenX + 5, 0, obs.width - 10, wallBottom - 5);
-
-          // Hazard Stripes at the bottom edge
-          const stripeSize = 10;
-          ctx.fillStyle = "#f59e0b"; // Warning Orange
-          ctx.fillRect(screenX, wallBottom - 20, obs.width, 20);
-
-          ctx.fillStyle = "#000000";
-          for (let i = 0; i < obs.width / stripeSize; i++) {
-            if (i % 2 === 0) {
-              ctx.fillRect(screenX + i * stripeSize, wallBottom - 20, stripeSize, 20);
-            }
-          }
-          break;
+    const drawMotorbike = (unit: GroundPursuer) => {
+      const { x, y: altitude } = pursuerView(unit);
+      const screenX = x - view.cameraX;
+      const length = getPursuerLength(unit);
+      if (screenX < -length || screenX > CANVAS_WIDTH) return;
 
-        case "warning":
-          // Warning Sign
-          ctx.fillStyle = "#fbbf24"; // Yellow board
-          ctx.beginPath();
-          ctx.moveTo(screenX + 20, groundY - 80); // Top
-          ctx.lineTo(screenX + 40, groundY - 20); // Right
-          ctx.lineTo(screenX, groundY - 20); // Left
-          ctx.fill();
-
-          // Exclamation
-          ctx.fillStyle = "#000000";
-          ctx.font = "bold 40px sans-serif";
-          ctx.fillText("!", screenX + 12, groundY - 30);
-
-          // Post
-          ctx.fillStyle = "#78350f";
-          ctx.fillRect(screenX + 18, groundY - 20, 4, 20);
-          break;
+      ctx.save();
+      ctx.translate(screenX + length / 2, pursuerGroundY(x + length / 2) - altitude);
+      if (unit.state === "halted") {
+        ctx.rotate(-1.2); // Laid down on its side
+      } else if (unit.state === "leaping") {
+        ctx.rotate(-unit.climb * 0.03);
       }
+
+      // Wheels
+      ctx.fillStyle = "#000000";
+      ctx.beginPath(); ctx.arc(-20, -10, 10, 0, Math.PI * 2); ctx.fill();
+      ctx.beginPath(); ctx.arc(20, -10, 10, 0, Math.PI * 2); ctx.fill();
+      ctx.fillStyle = "#71717a";
+      ctx.beginPath(); ctx.arc(-20, -10, 4, 0, Math.PI * 2); ctx.fill();
+      ctx.beginPath(); ctx.arc(20, -10, 4, 0, Math.PI * 2); ctx.fill();
+
+      // Frame and tank
+      ctx.fillStyle = "#f8fafc";
+      ctx.fillRect(-18, -26, 34, 10);
+      ctx.fillStyle = "#1e3a8a";
+      ctx.fillRect(-6, -30, 18, 8);
+
+      // Rider: body, white helmet with visor
+      ctx.fillStyle = "#1e293b";
+      ctx.fillRect(-10, -50, 14, 24);
+      ctx.fillStyle = "#f8fafc";
+      ctx.beginPath(); ctx.arc(-2, -56, 8, 0, Math.PI * 2); ctx.fill();
+      ctx.fillStyle = "#0f172a";
+      ctx.fillRect(0, -58, 7, 4);
+
+      // Single flashing light on the rear
+      const lightOn = Math.floor(sim.frameCount / 4) % 2 === 0;
+      ctx.shadowBlur = 10;
+      ctx.shadowColor = lightOn ? "#3b82f6" : "#ef4444";
+      ctx.fillStyle = lightOn ? "#3b82f6" : "#ef4444";
+      ctx.beginPath(); ctx.arc(-22, -30, 4, 0, Math.PI * 2); ctx.fill();
       ctx.restore();
     };
 
-    const drawVine = (vine: Vine) => {
+    const drawK9 = (unit: GroundPursuer) => {
+      const { x, y: altitude } = pursuerView(unit);
+      const screenX = x - view.cameraX;
+      const length = getPursuerLength(unit);
+      if (screenX < -length || screenX > CANVAS_WIDTH) return;
+
       ctx.save();
-      const screenX = vine.x - game.cameraX;
-      const endX = screenX + Math.sin(vine.angle) * vine.length;
-      const endY = vine.anchorY + Math.cos(vine.angle) * vine.length;
+      ctx.translate(screenX, pursuerGroundY(x + length / 2) - altitude);
+      const running = unit.state === "chasing";
+      const stride = running ? Math.sin(sim.frameCount * 0.5) * 6 : 0;
 
-      ctx.strokeStyle = "#2e7d32";
-      ctx.lineWidth = 8;
-      ctx.lineCap = "round";
+      // Legs (stretched out while leaping)
+      ctx.strokeStyle = "#292524";
+      ctx.lineWidth = 4;
       ctx.beginPath();
-      ctx.moveTo(screenX, vine.anchorY);
-
-      const cp1x = screenX + Math.sin(vine.angle * 0.5) * vine.length * 0.3;
-      const cp1y = vine.anchorY + vine.length * 0.3;
-      const cp2x = screenX + Math.sin(vine.angle * 0.8) * vine.length * 0.7;
-      const cp2y = vine.anchorY + vine.length * 0.7;
-
-      ctx.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, endX, endY);
+      if (unit.state === "leaping") {
+        ctx.moveTo(10, -18); ctx.lineTo(0, -14);
+        ctx.moveTo(40, -18); ctx.lineTo(52, -16);
+      } else {
+        ctx.moveTo(10, -18); ctx.lineTo(10 + stride, 0);
+        ctx.moveTo(40, -18); ctx.lineTo(40 - stride, 0);
+      }
       ctx.stroke();
 
-      ctx.strokeStyle = "#1b5e20";
-      ctx.lineWidth = 4;
-      ctx.stroke();
+      // Body, tail and head
+      ctx.fillStyle = "#78350f";
+      ctx.beginPath(); ctx.ellipse(25, -24, 20, 9, 0, 0, Math.PI * 2); ctx.fill();
+      ctx.strokeStyle = "#78350f";
+      ctx.beginPath(); ctx.moveTo(6, -26); ctx.lineTo(-4, -34 + stride / 2); ctx.stroke();
+      ctx.fillStyle = "#292524";
+      ctx.beginPath(); ctx.ellipse(46, -34, 9, 7, 0.3, 0, Math.PI * 2); ctx.fill();
+      ctx.beginPath(); ctx.moveTo(42, -40); ctx.lineTo(44, -48); ctx.lineTo(48, -40); ctx.fill();
+
+      // Police vest
+      ctx.fillStyle = "#1d4ed8";
+      ctx.fillRect(16, -32, 18, 12);
+      ctx.fillStyle = "#ffffff";
+      ctx.font = "bold 7px sans-serif";
+      ctx.fillText("K9", 19, -23);
+
+      if (unit.state === "halted") {
+        // Stopped at the lip, barking
+        ctx.fillStyle = "#fbbf24";
+        ctx.font = "bold 14px sans-serif";
+        ctx.fillText("!", 52, -48);
+      }
+      ctx.restore();
+    };
+
+    // The beam is drawn with the helicopter but over the player, so they
+    // visibly light up when caught in it
+    const drawPoliceHelicopter = (heli: PoliceHelicopter) => {
+      const { x, y, spotlightX } = pursuerView(heli);
+      const screenX = x - view.cameraX;
+      const spotScreenX = spotlightX - view.cameraX;
+      if (screenX < -200 && spotScreenX < -200) return;
 
-      ctx.fillStyle = "#4caf50";
-      for (let i = 0; i < 5; i++) {
-        const t = (i + 1) / 6;
-        const leafX = screenX + Math.sin(vine.angle * t) * vine.length * t;
-        const leafY = vine.anchorY + vine.length * t;
+      ctx.save();
+      if (heli.ticksLeft > 0) {
+        const groundY = sim.getTerrainHeight(spotlightX, true);
+        const beam = ctx.createLinearGradient(0, y, 0, groundY);
+        const strength = heli.lit ? 0.45 : 0.25;
+        beam.addColorStop(0, `rgba(254, 249, 195, ${strength})`);
+        beam.addColorStop(1, `rgba(254, 249, 195, ${strength * 0.5})`);
+        ctx.fillStyle = beam;
         ctx.beginPath();
-        ctx.ellipse(leafX + 10, leafY, 8, 4, Math.PI / 4, 0, Math.PI * 2);
+        ctx.moveTo(screenX - 6, y + 12);
+        ctx.lineTo(screenX + 6, y + 12);
+        ctx.lineTo(spotScreenX + SPOTLIGHT_RADIUS, groundY);
+        ctx.lineTo(spotScreenX - SPOTLIGHT_RADIUS, groundY);
+        ctx.closePath();
         ctx.fill();
+        ctx.fillStyle = `rgba(254, 249, 195, ${strength})`;
+        ctx.beginPath(); ctx.ellipse(spotScreenX, groundY, SPOTLIGHT_RADIUS, 8, 0, 0, Math.PI * 2); ctx.fill();
       }
 
-      ctx.fillStyle = "#8d6e63";
-      ctx.beginPath();
-      ctx.arc(screenX, vine.anchorY, 10, 0, Math.PI * 2);
-      ctx.fill();
+      // Tail boom and rotor
+      ctx.fillStyle = "#1e3a8a";
+      ctx.fillRect(screenX - 70, y - 6, 50, 6);
+      ctx.fillRect(screenX - 74, y - 16, 6, 16);
+
+      // Cabin
+      ctx.fillStyle = "#1e40af";
+      ctx.beginPath(); ctx.ellipse(screenX, y, 30, 16, 0, 0, Math.PI * 2); ctx.fill();
+      ctx.fillStyle = "#93c5fd";
+      ctx.beginPath(); ctx.ellipse(screenX + 14, y - 4, 12, 8, 0, 0, Math.PI * 2); ctx.fill();
+      ctx.fillStyle = "#ffffff";
+      ctx.font = "bold 8px sans-serif";
+      ctx.fillText("POLICE", screenX - 22, y + 6);
 
-      ctx.fillStyle = "#ff5722";
-      ctx.beginPath();
-      ctx.arc(endX, endY, 8, 0, Math.PI * 2);
-      ctx.fill();
+      // Skids
+      ctx.strokeStyle = "#0f172a";
+      ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.moveTo(screenX - 22, y + 22); ctx.lineTo(screenX + 22, y + 22); ctx.stroke();
+
+      // Main rotor (blur plus one visible blade)
+      ctx.fillStyle = "rgba(203, 213, 225, 0.5)";
+      ctx.fillRect(screenX - 60, y - 22, 120, 3);
+      ctx.save();
+      ctx.translate(screenX, y - 21);
+      ctx.scale(Math.sin(sim.frameCount * 0.6), 1);
+      ctx.fillStyle = "#cbd5e1";
+      ctx.fillRect(-60, -2, 120, 4);
+      ctx.restore();
+
+      // Searchlight housing
+      ctx.fillStyle = "#fef9c3";
+      ctx.beginPath(); ctx.arc(screenX, y + 12, 4, 0, Math.PI * 2); ctx.fill();
       ctx.restore();
     };
 
-    const getVinePoint = (vine: Vine, t: number) => {
-      const startX = vine.x;
-      const startY = vine.anchorY;
-      const endX = vine.x + Math.sin(vine.angle) * vine.length;
-      const endY = vine.anchorY + Math.cos(vine.angle) * vine.length;
-
-      const cp1x = vine.x + Math.sin(vine.angle * 0.5) * vine.length * 0.3;
-      const cp1y = vine.anchorY + vine.length * 0.3;
-      const cp2x = vine.x + Math.sin(vine.angle * 0.8) * vine.length * 0.7;
-      const cp2y = vine.anchorY + vine.length * 0.7;
-
-      const u = 1 - t;
-      const tt = t * t;
-      const uu = u * u;
-      const uuu = uu * u;
-      const ttt = tt * t;
-
-      const x = uuu * startX + 3 * uu * t * cp1x + 3 * u * tt * cp2x + ttt * endX;
-      const y = uuu * startY + 3 * uu * t * cp1y + 3 * u * tt * cp2y + ttt * endY;
-      return { x, y };
+    const drawPursuers = () => {
+      for (const unit of sim.pursuers) {
+        if (unit.kind === "motorbike") drawMotorbike(unit);
+        else if (unit.kind === "k9") drawK9(unit);
+      }
     };
 
-    const drawCoin = (coin: Coin) => {
-      if (coin.collected) return;
+    const drawSpotlights = () => {
+      for (const unit of sim.pursuers) {
+        if (unit.kind === "helicopter") drawPoliceHelicopter(unit);
+      }
+    };
 
-      const screenX = coin.x - game.cameraX;
+    // Bubble while the shield is up (flickers as it runs out) and a faint
+    // ring showing the magnet's reach
+    const drawPowerUpAuras = () => {
+      const p = sim.player;
+      const centerX = view.playerX - view.cameraX + p.width / 2;
+      const centerY = view.playerY + p.height / 2;
 
       ctx.save();
-      ctx.translate(screenX, coin.y);
-      ctx.rotate(coin.rotation);
-
-      const scale = Math.abs(Math.cos(coin.rotation));
-      ctx.scale(scale * 0.8 + 0.2, 1);
-
-      const coinGradient = ctx.createRadialGradient(0, -2, 0, 0, 0, 12);
-      coinGradient.addColorStop(0, "#fff59d");
-      coinGradient.addColorStop(0.5, "#ffd700");
-      coinGradient.addColorStop(1, "#ff8f00");
-      ctx.fillStyle = coinGradient;
-      ctx.beginPath();
-      ctx.arc(0, 0, 12, 0, Math.PI * 2);
-      ctx.fill();
-
-      ctx.strokeStyle = "#ff6f00";
-      ctx.lineWidth = 2;
-      ctx.stroke();
-
-      ctx.fillStyle = "#ff8f00";
-      ctx.font = "bold 12px sans-serif";
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillText("$", 0, 1);
-
+      const shieldTicks = sim.powerUpTicks.shield;
+      if (shieldTicks > 0 && (shieldTicks > 2 * SIMULATION_HZ || Math.floor(shieldTicks / 6) % 2 === 0)) {
+        ctx.strokeStyle = "rgba(56, 189, 248, 0.8)";
+        ctx.fillStyle = "rgba(56, 189, 248, 0.15)";
+        ctx.lineWidth = 3;
+        ctx.beginPath(); ctx.arc(centerX, centerY, 42, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+      }
+      if (sim.powerUpTicks.magnet > 0) {
+        ctx.strokeStyle = `rgba(244, 63, 94, ${0.15 + Math.sin(sim.frameCount * 0.15) * 0.1})`;
+        ctx.setLineDash([8, 8]);
+        ctx.lineWidth = 2;
+        ctx.beginPath(); ctx.arc(centerX, centerY, MAGNET_RADIUS, 0, Math.PI * 2); ctx.stroke();
+      }
       ctx.restore();
     };
 
     const drawParticles = () => {
       ctx.save();
       game.particles.forEach(p => {
-        const screenX = p.x - game.cameraX;
+        const screenX = p.x - view.cameraX;
         ctx.globalAlpha = p.life;
         ctx.fillStyle = p.color;
         ctx.beginPath();
@@ -1344,39 +1250,46 @@ export default function Game() {
       ctx.save();
       ctx.strokeStyle = "rgba(173, 216, 230, 0.4)";
       ctx.lineWidth = 1;
-      const p = game.player;
+      const p = sim.player;
       const speedFactor = p.vx * 0.5;
 
-      game.rain.forEach((r: { x: number, y: number, l: number, v: number }) => {
+      game.rain.forEach((r: RainDrop) => {
         ctx.beginPath();
         ctx.moveTo(r.x, r.y);
         ctx.lineTo(r.x - speedFactor, r.y + r.l);
         ctx.stroke();
+      });
+      ctx.restore();
+    };
 
+    const updateRain = () => {
+      const speedFactor = sim.player.vx * 0.5;
+      game.rain.forEach((r: RainDrop) => {
         r.y += r.v;
         r.x -= speedFactor;
 
         if (r.y > CANVAS_HEIGHT) {
           r.y = -20;
-          r.x = Math.random() * CANVAS_WIDTH;
+          r.x = game.weatherRng.next() * CANVAS_WIDTH;
         }
         if (r.x < 0) r.x = CANVAS_WIDTH;
         if (r.x > CANVAS_WIDTH) r.x = 0;
       });
-      ctx.restore();
     };
 
     const drawFireflies = () => {
+      if (scene.art.fireflies <= 0) return;
       ctx.save();
-      game.fireflies.forEach((f: { x: number, y: number, s: number, o: number }) => {
+      ctx.globalAlpha = scene.art.fireflies;
+      game.fireflies.forEach((f: Firefly) => {
         // ... (existing firefly drawing logic)
-        const glow = Math.sin(game.frameCount * 0.05 + f.o) * 0.5 + 0.5;
+        const glow = Math.sin(sim.frameCount * 0.05 + f.o) * 0.5 + 0.5;
         ctx.fillStyle = `rgba(200, 255, 100, ${glow * 0.8})`;
         ctx.shadowBlur = glow * 10;
         ctx.shadowColor = "rgba(200, 255, 100, 0.5)";
 
-        const driftX = Math.cos(game.frameCount * 0.02 + f.o) * 20;
-        const driftY = Math.sin(game.frameCount * 0.02 + f.o) * 20;
+        const driftX = Math.cos(sim.frameCount * 0.02 + f.o) * 20;
+        const driftY = Math.sin(sim.frameCount * 0.02 + f.o) * 20;
 
         ctx.beginPath();
         ctx.arc(f.x + driftX, f.y + driftY, f.s, 0, Math.PI * 2);
@@ -1387,10 +1300,10 @@ export default function Game() {
     };
 
     const drawHelicopter = () => {
-      const heli = game.plane; // Using 'plane' ref for Helicopter
+      const heli = sim.plane; // Using 'plane' ref for Helicopter
       if (heli.state === "hidden") return;
 
-      const screenX = heli.x - game.cameraX;
+      const screenX = heli.x - view.cameraX;
 
       ctx.save();
       ctx.translate(screenX, heli.y);
@@ -1423,437 +1336,84 @@ export default function Game() {
 
       // Main rotor
       ctx.save();
-      ctx.translate(0, -30);
-      ctx.rotate(heli.rotorAngle);
-      ctx.fillStyle = "#2d3748";
-      ctx.fillRect(-100, -5, 200, 10);
-      ctx.restore();
-
-      ctx.restore();
-    };
-
-    const drawVignette = () => {
-      const vignette = ctx.createRadialGradient(
-        CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_HEIGHT * 0.4,
-        CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_WIDTH * 0.7
-      );
-      vignette.addColorStop(0, "rgba(0,0,0,0)");
-      vignette.addColorStop(1, "rgba(0,0,0,0.5)");
-      ctx.fillStyle = vignette;
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    };
-
-    // Check collisions
-    const checkCollision = (p: Player, obs: Obstacle) => {
-      if (p.invincible > 0) return false;
-      // Ignore warning signs
-      if (obs.type === "warning") return false;
-
-      const pLeft = p.x;
-      const pRight = p.x + p.width;
-      const pTop = p.y;
-      const pBottom = p.y + (p.state === "sliding" ? SLIDE_HEIGHT : p.height);
-      const groundY = getTerrainHeight(obs.x + obs.width / 2);
-
-      // Slide Wall Collision (formerly Low Beam)
-      if (obs.type === "low_beam") {
-        const wallGapHeight = SLIDE_HEIGHT + 20;
-        const wallBottom = getTerrainHeight(obs.x) - wallGapHeight;
-        // The wall exists from Y=0 to wallBottom.
-        // If player Top < wallBottom, they hit the wall.
-        if (p.x + p.width > obs.x && p.x < obs.x + obs.width) {
-          if (pTop < 0) return false;
-          if (pTop < wallBottom) {
-            return true; // Bonk!
-          }
-        }
-        return false;
-      }
-
-      switch (obs.type) {
-        case "spike":
-          const spikeLeft = obs.x + 5;
-          const spikeRight = obs.x + obs.width - 5;
-          const spikeTop = groundY - obs.height;
-          const spikeBottom = groundY;
-          return pRight > spikeLeft && pLeft < spikeRight && pBottom > spikeTop && pTop < spikeBottom;
-
-        case "gap":
-          const playerCenterXGap = p.x + p.width / 2;
-          const gapLeft = obs.x - 10;
-          const gapRight = obs.x + obs.width + 10;
-
-          if (playerCenterXGap > gapLeft && playerCenterXGap < gapRight) {
-            // Let the player fall. Death is handled in the update loop when y > screen height
-            return false;
-          }
-          return false;
-
-        case "mushroom":
-        case "ramp":
-          return false;
-      }
-      return false;
-    };
-
-    const update = () => {
-      const p = game.player;
-      game.frameCount++;
-
-      if (game.shake > 0) game.shake *= 0.9;
-      const baseZoom = 1;
-      const zoomTarget = p.y < -50 ? Math.max(0.75, baseZoom + p.y / 600) : baseZoom;
-      game.cameraZoom += (zoomTarget - game.cameraZoom) * 0.05;
-
-      // Update Slope Physics
-      // Use visual center queries to ignore pits (preventing massive slope spikes)
-      const currentH = getTerrainHeight(p.x + 5, true);
-      const nextH = getTerrainHeight(p.x + p.width + 5, true);
-      const slope = (nextH - currentH) / p.width; // Positive = Downhill (increasing Y), Negative = Uphill (decreasing Y)
-
-      if (slope < -0.1) { // Uphill (Y getting smaller)
-        p.vx = Math.max(4, p.vx - 0.05); // Slow down on hills
-      } else if (slope > 0.1) { // Downhill (Y getting bigger)
-        const boost = p.state === "sliding" ? 1.5 : 0.05; // Insane boost for sliding
-        p.vx = Math.min(50, p.vx + boost); // Speed cap 50
-        if (p.state === "sliding") {
-          const particleCount = p.vx > 30 ? 8 : 2;
-          createParticles(p.x, p.y + p.height, "#ffffff", particleCount); // Speed air
-          if (game.frameCount % 2 === 0) {
-            createParticles(p.x, p.y + p.height, "#4a3728", 1); // Ground smoke/friction
-          }
-        }
-      } else {
-        // Momentum Preservation: Very low friction on flat ground
-        if (p.vx > PLAYER_BASE_SPEED) p.vx *= 0.999;
-        if (p.vx < PLAYER_BASE_SPEED) p.vx = Math.min(PLAYER_BASE_SPEED, p.vx + 0.1);
-      }
-
-      game.distanceTraveled += p.vx * 0.5; // Increased from 0.1 for faster metrics
-      if (game.distanceTraveled >= game.nextGlideChargeDistance) {
-        const charges = Math.floor((game.distanceTraveled - game.nextGlideChargeDistance) / GLIDE_CHARGE_DISTANCE) + 1;
-        game.glideSeconds += charges * GLIDE_CHARGE_SECONDS;
-        game.nextGlideChargeDistance += charges * GLIDE_CHARGE_DISTANCE;
-      }
-      const lastChargeBase = game.nextGlideChargeDistance - GLIDE_CHARGE_DISTANCE;
-      game.glideChargeProgress = Math.min(1, Math.max(0, (game.distanceTraveled - lastChargeBase) / GLIDE_CHARGE_DISTANCE));
-      game.scoreValue = Math.floor(game.distanceTraveled * 10) + game.coinsCollected * 100;
-
-      if (p.invincible > 0) p.invincible--;
-
-      // Scaling Difficulty: Police speed increases with distance
-      const difficultyMultiplier = 1 + (game.distanceTraveled / 5000);
-      game.police.speed = POLICE_SPEED * difficultyMultiplier;
-      game.police.x += game.police.speed;
-
-      // Checkpoint Trigger
-      if (game.distanceTraveled >= CHECKPOINT_DISTANCE && !game.checkPointReached) {
-        game.checkPointReached = true;
-        setCheckpointActive(true);
-        createParticles(p.x, p.y, "#4ade80", 30); // Green confetti
-        // Could add a sound here
-      }
-
-      // Victory Condition: 40km Escape
-      if (game.distanceTraveled >= VICTORY_DISTANCE && game.plane.state === "hidden") {
-        game.plane.state = "entering";
-        // Stop spawning obstacles
-        game.nextTerrainX = Infinity;
-      }
-
-      // Helicopter Logic
-      const heli = game.plane;
-      if (heli.state !== "hidden") {
-        heli.rotorAngle += 0.5; // Spin rotor
-
-        if (heli.state === "entering") {
-          heli.x += heli.vx;
-          // Slow down and stop above player's future position
-          if (heli.x < game.cameraX + CANVAS_WIDTH * 0.7) {
-            heli.vx *= 0.95;
-            if (Math.abs(heli.vx) < 0.1) {
-              heli.state = "waiting";
-            }
-          }
-        } else if (heli.state === "waiting") {
-          // Hover wiggle
-          heli.y = 100 + Math.sin(game.frameCount * 0.1) * 10;
-
-          // Check if player jumps into helicopter zone
-          const dx = (p.x + p.width / 2) - heli.x;
-          const dy = p.y - heli.y;
-          if (Math.sqrt(dx * dx + dy * dy) < 100 && p.y < 250) {
-            // BOARD THE CHOPPA
-            setGameState("victory");
-            heli.state = "departing";
-            p.state = "swinging"; // Hide player or attach
-            // We'll actually hide player in draw or attach them visually
-          }
-        } else if (heli.state === "departing") {
-          // Fly away!
-          heli.x += 8;
-          heli.y -= 2;
-        }
-      }
-
-      const policeDistance = p.x - game.police.x;
-      if (policeDistance < 400) {
-        setPoliceWarning(Math.min(100, (400 - policeDistance) / 400 * 100));
-        // Play siren sound with volume/rate based on distance
-        if (game.frameCount % Math.max(10, Math.floor(policeDistance / 10)) === 0) {
-          soundRef.current.playSiren();
-        }
-      } else {
-        setPoliceWarning(0);
-      }
-
-      if (game.police.x + 40 >= p.x) { // Police caught the player
-        createParticles(p.x, p.y + p.height / 2, "#ef4444", 20);
-        gameOver();
-        return;
-      }
-
-      if (p.y > CANVAS_HEIGHT) { // Player fell off the screen (in a gap)
-        gameOver();
-        return;
-      }
-
-      if (p.state === "swinging" && p.onVine) {
-        const vine = p.onVine;
-        const vineLength = p.vineLength || vine.length;
-
-        const gravity = 0.002;
-        vine.angularVelocity += -gravity * Math.sin(vine.angle);
-        vine.angularVelocity *= 0.98; // Increased damping to reduce extreme swinging
-        vine.angle += vine.angularVelocity;
-
-        p.x = vine.x + Math.sin(vine.angle) * vineLength - p.width / 2;
-        p.y = vine.anchorY + Math.cos(vine.angle) * vineLength - p.height / 2;
-
-        game.vineSwingTime = (game.vineSwingTime || 0) + 1;
-
-        if (!game.keys.up && game.vineSwingTime > 15) {
-          const releaseSpeed = vine.angularVelocity * vineLength;
-
-          const forwardBoost = Math.max(0, Math.cos(vine.angle)) * Math.abs(releaseSpeed) * 1.5;
-          p.vx = PLAYER_BASE_SPEED + forwardBoost;
-          p.vy = -Math.abs(Math.sin(vine.angle) * releaseSpeed) * 1.2 - 6;
-
-          p.vx = Math.max(PLAYER_BASE_SPEED + 1, Math.min(p.vx, PLAYER_BASE_SPEED * 3));
-
-          p.state = "jumping";
-          p.onVine = null;
-          p.vineLength = 0;
-          game.vineSwingTime = 0;
-          createParticles(p.x + p.width / 2, p.y + p.height / 2, "#4caf50", 10);
-          soundRef.current.playVineRelease();
-        }
-      } else {
-        if (p.vx > PLAYER_BASE_SPEED) {
-          p.vx -= 0.05;
-        } else {
-          p.vx = PLAYER_BASE_SPEED;
-        }
-
-        const playerCenterX = p.x + p.width / 2;
-        const playerLeftX = p.x + 5;
-        const playerRightX = p.x + p.width - 5;
-
-        const overGap = game.obstacles.some(o => {
-          if (o.type !== "gap") return false;
-          const inGapLeft = playerLeftX > o.x && playerLeftX < o.x + o.width;
-          const inGapRight = playerRightX > o.x && playerRightX < o.x + o.width;
-          const inGapCenter = playerCenterX > o.x && playerCenterX < o.x + o.width;
-          return inGapLeft || inGapRight || inGapCenter;
-        });
+      ctx.translate(0, -30);
+      ctx.rotate(heli.rotorAngle);
+      ctx.fillStyle = "#2d3748";
+      ctx.fillRect(-100, -5, 200, 10);
+      ctx.restore();
 
-        const groundY = getTerrainHeight(playerCenterX);
+      ctx.restore();
+    };
 
-        if (game.keys.down && p.y >= groundY - PLAYER_HEIGHT - 5 && p.state !== "jumping" && !overGap) {
-          p.state = "sliding";
-          p.height = SLIDE_HEIGHT;
-        } else if (!game.keys.down && p.state === "sliding") {
-          p.state = "running";
-          p.height = PLAYER_HEIGHT;
-          p.y = groundY - PLAYER_HEIGHT;
-        }
+    const drawVignette = () => {
+      const vignette = ctx.createRadialGradient(
+        CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_HEIGHT * 0.4,
+        CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_WIDTH * 0.7
+      );
+      vignette.addColorStop(0, "rgba(0,0,0,0)");
+      vignette.addColorStop(1, "rgba(0,0,0,0.5)");
+      ctx.fillStyle = vignette;
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    };
 
-        if (game.keys.up && p.y >= groundY - PLAYER_HEIGHT - 5 && p.state !== "swinging" && !overGap) {
-          p.vy = JUMP_FORCE;
-          p.state = "jumping";
-          p.height = PLAYER_HEIGHT; // Reset height if jumping from slide
-          createParticles(p.x + p.width / 2, p.y + p.height, "#8d6e63", 3);
-          soundRef.current.playJump();
-        }
+    // Sound and particles subscribe through their own modules; what's left
+    // here is HUD state and game flow. The demo only gets the particles.
+    const particleEffects = subscribeParticleEffects(sim.events, sim, {
+      createParticles,
+      shake: (amount) => {
+        game.shake = amount;
+      },
+      squashPad: (x) => {
+        scene.padSquash = { x, frame: sim.frameCount };
+      },
+    });
+    const unsubscribes = attract ? [particleEffects] : [
+      subscribeSoundEffects(sim.events, () => soundRef.current),
+      particleEffects,
+      sim.events.on("checkpoint", () => setCheckpointActive(true)),
+      sim.events.on("biomeEntered", ({ biome }) => {
+        setBiomeBanner(biome);
+        clearTimeout(biomeBannerTimer);
+        biomeBannerTimer = setTimeout(() => setBiomeBanner(null), 3000);
+      }),
+      sim.events.on("respawn", () => setCheckpointUsed(true)),
+      sim.events.on("busted", () => gameOverRef.current()),
+      sim.events.on("victory", () => escapeRef.current()),
+      sim.events.onAny(() => announceAchievementsRef.current()),
+    ];
 
-        const isAirborne = p.y + p.height < groundY - 5;
-        let gravityScale = 1;
-        if (game.keys.up && isAirborne && game.glideSeconds > 0) {
-          gravityScale = 0.2;
-          game.glideSeconds = Math.max(0, game.glideSeconds - 1 / 60);
-          if (p.vy > 2) p.vy = 2;
-        }
+    const update = () => {
+      const p = sim.player;
 
-        p.vy += GRAVITY * gravityScale;
-        p.y += p.vy;
-        p.x += p.vx;
-
-        let onRamp = false;
-        let isOverGap = overGap; // Local copy for below logic
-
-        game.obstacles.forEach(obs => {
-          if (obs.type === "mushroom") {
-            const obsGroundY = getTerrainHeight(obs.x + obs.width / 2);
-            const dx = (p.x + p.width / 2) - (obs.x + obs.width / 2);
-            const dy = (p.y + p.height) - obsGroundY;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-
-            if (dist < 40 && p.vy >= 0) {
-              p.vy = -20; // High bounce
-              p.vx += 2;  // Speed boost
-              p.state = "jumping";
-              createParticles(obs.x + obs.width / 2, obsGroundY, "#ff4081", 12);
-              soundRef.current.playJump();
-            }
-          }
-          if (obs.type === "ramp") {
-            const obsGroundY = getTerrainHeight(obs.x + obs.width / 2);
-            const rampProgress = (p.x + p.width / 2 - obs.x) / obs.width;
-            if (rampProgress > 0 && rampProgress < 1) {
-              const rampY = obsGroundY - (rampProgress * obs.height);
-              if (p.y + p.height > rampY && p.vy >= 0) {
-                p.y = rampY - p.height;
-                p.vy = 0;
-                onRamp = true;
-                if (game.keys.down) {
-                  p.vy = -8;
-                  p.vx += 3;
-                }
-              }
-            }
-          }
-          if (obs.type === "gap") {
-            const inGapLeft = playerLeftX > obs.x && playerLeftX < obs.x + obs.width;
-            const inGapRight = playerRightX > obs.x && playerRightX < obs.x + obs.width;
-            const inGapCenter = playerCenterX > obs.x && playerCenterX < obs.x + obs.width;
-            if (inGapLeft || inGapRight || inGapCenter) {
-              isOverGap = true;
-            }
-          }
-        });
+      if (game.shake > 0) game.shake *= 0.9;
+      const baseZoom = 1;
+      const zoomTarget = p.y < -50 ? Math.max(0.75, baseZoom + p.y / 600) : baseZoom;
+      game.cameraZoom += (zoomTarget - game.cameraZoom) * 0.05;
 
-        if (!onRamp && !isOverGap) {
-          const currentGroundY = getTerrainHeight(p.x + p.width / 2);
-          const targetY = currentGroundY - (p.state === "sliding" ? SLIDE_HEIGHT : PLAYER_HEIGHT);
-          const playerBottom = p.y + p.height;
-
-          if (playerBottom >= currentGroundY - 2) {
-            if (p.state === "running" || p.state === "sliding") {
-              p.y = targetY;
-              p.vy = 0;
-            } else if (p.state === "jumping" || p.state === "falling") {
-              p.y = targetY;
-              p.vy = 0;
-              p.state = game.keys.down ? "sliding" : "running";
-              createParticles(p.x + p.width / 2, p.y + p.height, "#8d6e63", 2);
-              game.shake = 8;
-            }
-          } else if (playerBottom < currentGroundY - 15 && p.state !== "jumping") {
-            p.state = "falling";
-          }
-        } else if (isOverGap && p.state !== "swinging") {
-          // If we are over a gap and not swinging, we MUST fall.
-          // Even if we are "jumping", once we are over the pit, the abyss is the only ground.
-          p.state = "falling";
+      let input = attract ? getAutopilotInput(sim) : game.keys;
+      if (game.replayer) {
+        const replayInput = game.replayer.next();
+        if (!replayInput) {
+          // Log ran out before the run ended (the recording was abandoned mid-run)
+          replayEnded = true;
+          gameOverRef.current();
+          return;
         }
+        input = replayInput;
       }
+      game.recorder?.record(input);
 
-      game.vines.forEach((vine: Vine) => {
-        if (p.state !== "swinging" && !game.vineGrabCooldown) {
-          const playerX = p.x + p.width / 2;
-          const playerY = p.y + p.height / 2;
-          let closestDist = Infinity;
-          let closestPoint = { x: 0, y: 0 };
-
-          for (let i = 0; i <= 10; i++) {
-            const t = i / 10;
-            const point = getVinePoint(vine, t);
-            const dx = playerX - point.x;
-            const dy = playerY - point.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            if (dist < closestDist) {
-              closestDist = dist;
-              closestPoint = point;
-            }
-          }
-
-          // Manual Grab: Require UP key + reasonable radius
-          if (closestDist < VINE_GRAB_RADIUS && game.keys.up && (p.state === "jumping" || p.state === "falling")) {
-            p.state = "swinging";
-            p.onVine = vine;
-            p.vineLength = Math.max(40, Math.hypot(closestPoint.x - vine.x, closestPoint.y - vine.anchorY));
-            game.vineSwingTime = 0;
-            game.vineGrabCooldown = 15;
-
-            const entrySpeed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
-            vine.angularVelocity = entrySpeed * 0.01 * (p.vx > 0 ? 1 : -1);
-
-            p.vy = 0;
-            p.height = PLAYER_HEIGHT;
-            p.x = closestPoint.x - p.width / 2;
-            p.y = closestPoint.y - p.height / 2;
-            soundRef.current.playVineGrab();
-          }
-        }
-      });
+      sim.step(input);
+      if (sim.status !== "running") return;
 
-      if (game.vineGrabCooldown > 0) {
-        game.vineGrabCooldown--;
+      // The ghost runs in lockstep on its own simulation; its events are ignored
+      const ghost = game.ghost;
+      if (ghost && ghost.sim.status === "running") {
+        const ghostInput = ghost.inputs.next();
+        if (ghostInput) ghost.sim.step(ghostInput);
       }
 
-      game.obstacles = game.obstacles.filter(obs => {
-        if (checkCollision(p, obs)) {
-          // Special Handling for Wall Hit (Non-Lethal)
-          if (obs.type === "low_beam") {
-            // Slow down player significantly
-            p.vx = 2;
-            game.shake = 10;
-            createParticles(p.x + p.width / 2, p.y + p.height / 2, "#f59e0b", 5); // Sparks
-            // Bounce back slightly to prevent sticking
-            p.x -= 20;
-            return true; // Keep obstacle
-          }
-
-          // Lethal hit
-          createParticles(p.x + p.width / 2, p.y + p.height / 2, "#e53935", 10);
-          gameOver();
-          return false;
-        }
-
-        // Check against end of obstacle to ensure large pits don't vanish
-        return obs.x + (obs.width || 60) > game.cameraX - 200;
-      });
-
-      game.vines = game.vines.filter(vine => {
-        return vine.x > game.cameraX - 200;
-      });
-
-      game.coinsList.forEach(coin => {
-        coin.rotation += 0.1;
-
-        if (!coin.collected) {
-          const dx = (p.x + p.width / 2) - coin.x;
-          const dy = (p.y + p.height / 2) - coin.y;
-          if (Math.sqrt(dx * dx + dy * dy) < 30) {
-            coin.collected = true;
-            game.coinsCollected++;
-            soundRef.current.playCoin();
-            createParticles(coin.x, coin.y, "#fbbf24", 5);
-          }
-        }
-      });
-      game.coinsList = game.coinsList.filter(c => c.x > game.cameraX - 200);
-
+      updateRain();
       game.particles = game.particles.filter(particle => {
         particle.x += particle.vx;
         particle.y += particle.vy;
@@ -1862,65 +1422,70 @@ export default function Game() {
         return particle.life > 0;
       });
 
-      // Memory Cleanup
-      if (game.frameCount % 60 === 0) {
-        const cullX = game.cameraX - 1000;
-        game.terrain = game.terrain.filter(t => t.endX > cullX);
-        game.obstacles = game.obstacles.filter(o => o.x + o.width > cullX);
-        game.coinsList = game.coinsList.filter(c => c.x > cullX || !c.collected);
-        game.particles = game.particles.filter(p => p.life > 0);
-      }
-
-      // Camera Follow
-      const targetCamX = p.x - CANVAS_WIDTH * 0.3;
-      game.cameraX += (targetCamX - game.cameraX) * 0.1;
-
-      const spawnX = game.cameraX + CANVAS_WIDTH + 800;
-
-      if (spawnX - game.lastObstacleX > 800 + Math.random() * 800) {
-        spawnObstacle(spawnX);
-      }
-
-      if (spawnX - game.lastVineX > 1200 + Math.random() * 1200) {
-        spawnVine(spawnX);
-      }
-
-
-      if (spawnX - game.lastCoinX > 400 + Math.random() * 400) {
-        const groundY = getTerrainHeight(spawnX);
-        spawnCoin(spawnX, groundY);
-      }
+      // The demo has no HUD and no siren
+      if (attract) return;
 
-      if (game.nextTerrainX < spawnX + 500) {
-        generateTerrain(game.nextTerrainX, 10);
+      // Warn about whichever ground unit is closest
+      const policeDistance = sim.pursuers.reduce(
+        (closest, unit) => unit.kind !== "helicopter" && unit.state !== "halted" ? Math.min(closest, p.x - unit.x) : closest,
+        p.x - sim.police.x,
+      );
+      if (policeDistance < 400) {
+        setPoliceWarning(Math.min(100, (400 - policeDistance) / 400 * 100));
+        // Play siren sound with volume/rate based on distance
+        if (sim.frameCount % Math.max(10, Math.floor(policeDistance / 10)) === 0) {
+          soundRef.current.playSiren();
+        }
+      } else {
+        setPoliceWarning(0);
       }
 
-      game.terrain = game.terrain.filter(seg => seg.endX > game.cameraX - 200);
-
       // Only update React state when values change (reduces re-renders)
-      if (game.scoreValue !== game.lastDisplayedScore) {
-        setScore(game.scoreValue);
-        game.lastDisplayedScore = game.scoreValue;
+      if (sim.scoreValue !== game.lastDisplayedScore) {
+        setScore(sim.scoreValue);
+        game.lastDisplayedScore = sim.scoreValue;
       }
-      const currentDistance = Math.floor(game.distanceTraveled);
+      const currentDistance = Math.floor(sim.distanceTraveled);
       if (currentDistance !== game.lastDisplayedDistance) {
         setDistance(currentDistance);
         game.lastDisplayedDistance = currentDistance;
       }
-      if (game.coinsCollected !== game.lastDisplayedCoins) {
-        setCoins(game.coinsCollected);
-        game.lastDisplayedCoins = game.coinsCollected;
+      if (sim.coinsCollected !== game.lastDisplayedCoins) {
+        setCoins(sim.coinsCollected);
+        game.lastDisplayedCoins = sim.coinsCollected;
       }
-      const glideDisplay = Math.round(game.glideSeconds * 10) / 10;
+      const glideDisplay = Math.round(sim.glideSeconds * 10) / 10;
       if (glideDisplay !== game.lastDisplayedGlideSeconds) {
         setGlideSeconds(glideDisplay);
         game.lastDisplayedGlideSeconds = glideDisplay;
       }
-      const glideProgressDisplay = Math.round(game.glideChargeProgress * 100) / 100;
+      const glideProgressDisplay = Math.round(sim.glideChargeProgress * 100) / 100;
       if (glideProgressDisplay !== game.lastDisplayedGlideProgress) {
         setGlideChargeProgress(glideProgressDisplay);
         game.lastDisplayedGlideProgress = glideProgressDisplay;
       }
+      const activePowerUps: Partial<Record<PowerUpKind, number>> = {};
+      for (const kind of POWER_UP_KINDS) {
+        if (sim.powerUpTicks[kind] > 0) activePowerUps[kind] = Math.ceil((sim.powerUpTicks[kind] / SIMULATION_HZ) * 10) / 10;
+      }
+      const powerUpKey = JSON.stringify(activePowerUps);
+      if (powerUpKey !== game.lastDisplayedPowerUps) {
+        setPowerUpSeconds(activePowerUps);
+        game.lastDisplayedPowerUps = powerUpKey;
+      }
+      const heli = sim.pursuers.find((unit): unit is PoliceHelicopter => unit.kind === "helicopter");
+      const heatDisplay = heli ? Math.round((heli.heat / SPOTLIGHT_CAPTURE_HEAT) * 100) : 0;
+      if (heatDisplay !== game.lastDisplayedSpotlightHeat) {
+        setSpotlightHeat(heatDisplay);
+        game.lastDisplayedSpotlightHeat = heatDisplay;
+      }
+      if (ghost) {
+        const gap = currentDistance - Math.floor(ghost.sim.distanceTraveled);
+        if (gap !== game.lastDisplayedGhostGap) {
+          setGhostGap(gap);
+          game.lastDisplayedGhostGap = gap;
+        }
+      }
     };
 
     const drawRadar = () => {
@@ -1951,7 +1516,7 @@ export default function Game() {
       ctx.beginPath(); ctx.arc(centerX, centerY, 5, 0, Math.PI * 2); ctx.fill();
 
       // Police blip (Relative position)
-      const policeDistance = game.player.x - game.police.x;
+      const policeDistance = sim.player.x - sim.police.x;
       const radarDistance = Math.min(policeDistance / 1000, 1) * radius;
       // Interpolate position (drawn on the left side of the radar)
       const blipX = centerX - radarDistance;
@@ -1960,9 +1525,18 @@ export default function Game() {
       ctx.fillStyle = "#ef4444";
       ctx.beginPath(); ctx.arc(blipX, centerY, 6, 0, Math.PI * 2); ctx.fill();
 
+      // Motorbikes and dogs show up as smaller blips
+      for (const unit of sim.pursuers) {
+        if (unit.kind === "helicopter" || unit.state === "halted") continue;
+        const unitDistance = Math.min((sim.player.x - unit.x) / 1000, 1) * radius;
+        ctx.shadowColor = unit.kind === "k9" ? "#f59e0b" : "#60a5fa";
+        ctx.fillStyle = unit.kind === "k9" ? "#f59e0b" : "#60a5fa";
+        ctx.beginPath(); ctx.arc(centerX - Math.max(0, unitDistance), centerY + (unit.kind === "k9" ? 10 : -10), 4, 0, Math.PI * 2); ctx.fill();
+      }
+
       // Warning Pulse if close
       if (policeDistance < 300) {
-        const pulse = (Math.sin(game.frameCount * 0.2) + 1) / 2;
+        const pulse = (Math.sin(sim.frameCount * 0.2) + 1) / 2;
         ctx.strokeStyle = `rgba(239, 68, 68, ${pulse * 0.5})`;
         ctx.lineWidth = 4;
         ctx.beginPath(); ctx.arc(blipX, centerY, 6 + pulse * 10, 0, Math.PI * 2); ctx.stroke();
@@ -1973,6 +1547,13 @@ export default function Game() {
 
     const render = () => {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
+      // A level keeps its one biome's look throughout
+      scene.cameraX = view.cameraX;
+      scene.zoom = game.cameraZoom;
+      scene.biomeBlend = sim.level
+        ? { from: sim.level.biome, to: sim.level.biome, t: 0 }
+        : getBiomeBlend(view.cameraX + CANVAS_WIDTH / 2);
+      scene.art = blendBiomeArt(scene.biomeBlend);
 
       ctx.save();
       if (game.shake > 1) {
@@ -1990,7 +1571,7 @@ export default function Game() {
         // The "center" of the view in world-space moves up as we zoom out.
         // We need to counteract this if the player is flying high.
         // Simple strategy: Keep player roughly in the middle vertical third
-        const playerScreenY = game.player.y;
+        const playerScreenY = view.playerY;
         const targetScreenY = CANVAS_HEIGHT * 0.4; // Aim for slightly above center
         verticalOffset = (targetScreenY - playerScreenY) * (1 - game.cameraZoom);
       }
@@ -1999,101 +1580,102 @@ export default function Game() {
       ctx.scale(game.cameraZoom, game.cameraZoom);
       ctx.translate(-CANVAS_WIDTH / 2, -CANVAS_HEIGHT / 2 - verticalOffset);
 
-      drawBackground();
+      drawBackground(scene);
       drawFireflies();
       drawRain();
 
-      game.vines.forEach(drawVine);
-      drawTerrain();
-      // Safe drawing with explicit types
-      game.obstacles.forEach((o: Obstacle) => drawObstacle(o));
-      game.coinsList.forEach((c: Coin) => drawCoin(c));
-
-      // Helicopter Visuals (only draw when not hidden)
-      if (game.plane.state !== "hidden") {
-        const helX = game.plane.x;
-        const helY = game.plane.y;
-
-        ctx.save();
-
-        // Body (Dark Green Military)
-        ctx.fillStyle = "#3f6212";
-        ctx.beginPath();
-        ctx.ellipse(helX, helY, 70, 30, 0, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Tail
-        ctx.beginPath();
-        ctx.moveTo(helX - 50, helY);
-        ctx.lineTo(helX - 120, helY - 10);
-        ctx.lineTo(helX - 120, helY + 10);
-        ctx.lineTo(helX - 50, helY + 10);
-        ctx.fill();
-
-        // Tail Rotor
-        ctx.save();
-        ctx.translate(helX - 120, helY);
-        ctx.rotate(game.plane.rotorAngle * 2);
-        ctx.fillStyle = "#cbd5e1";
-        ctx.fillRect(-5, -20, 10, 40);
-        ctx.fillRect(-20, -5, 40, 10);
-        ctx.restore();
-
-        // Cockpit window
-        ctx.fillStyle = "#93c5fd";
-        ctx.beginPath();
-        ctx.arc(helX + 30, helY - 10, 20, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Skids
-        ctx.strokeStyle = "#1e293b";
-        ctx.lineWidth = 4;
-        ctx.beginPath();
-        ctx.moveTo(helX - 40, helY + 30);
-        ctx.lineTo(helX + 40, helY + 30);
-        ctx.moveTo(helX - 30, helY + 20);
-        ctx.lineTo(helX - 40, helY + 30);
-        ctx.moveTo(helX + 30, helY + 20);
-        ctx.lineTo(helX + 40, helY + 30);
-        ctx.stroke();
-
-        // Main Rotor (Blur effect)
-        ctx.fillStyle = `rgba(203, 213, 225, 0.5)`; // Semi-transparent blade blur
-        ctx.fillRect(helX - 140, helY - 35, 280, 4);
-        // Active blade
-        ctx.fillStyle = "#cbd5e1";
-        ctx.save();
-        ctx.translate(helX, helY - 35);
-        // Scale X to simulate rotation
-        ctx.scale(Math.sin(game.plane.rotorAngle), 1);
-        ctx.fillRect(-140, -5, 280, 10);
-        ctx.restore();
-
-        // Rotor mast
-        ctx.fillStyle = "#1e293b";
-        ctx.fillRect(helX - 5, helY - 35, 10, 15);
+      sim.vines.forEach((vine) => drawVine(scene, vine));
+      drawTerrain(scene);
+      sim.platforms.forEach((platform) => drawPlatform(scene, platform));
+      sim.obstacles.forEach((obstacle) => drawObstacle(scene, obstacle));
+      sim.coinsList.forEach((coin) => drawCoin(scene, coin));
+      sim.powerUps.forEach((powerUp) => drawPowerUp(scene, powerUp));
+      drawExtractionHelicopter(scene);
 
-        ctx.restore();
-      }
 
+      drawGhost();
       drawPolice();
+      drawPursuers();
       // Don't draw player if they are in the plane (departing)? 
       // Actually, drawing them helps visibility.
-      if (game.plane.state !== "departing") {
+      if (sim.plane.state !== "departing") {
         drawPlayer();
+        drawPowerUpAuras();
       }
+      drawSpotlights();
       drawParticles();
 
       ctx.restore();
 
+      drawColorGrade(scene);
       drawVignette();
 
       // Radar must be on TOP of everything (last layer)
-      drawRadar();
+      if (!attract) drawRadar();
+    };
+
+    const snapshot = () => {
+      prev.cameraX = sim.cameraX;
+      prev.playerX = sim.player.x;
+      prev.playerY = sim.player.y;
+      prev.policeX = sim.police.x;
+      prev.policeAltitude = sim.police.altitude;
+      for (const unit of sim.pursuers) {
+        prevPursuers.set(unit, {
+          x: unit.x,
+          y: unit.kind === "helicopter" ? unit.y : unit.altitude,
+          spotlightX: unit.kind === "helicopter" ? unit.spotlightX : 0,
+        });
+      }
+      if (game.ghost) {
+        prev.ghostX = game.ghost.sim.player.x;
+        prev.ghostY = game.ghost.sim.player.y;
+      }
+    };
+
+    const interpolate = (alpha: number) => {
+      renderAlpha = alpha;
+      view.cameraX = prev.cameraX + (sim.cameraX - prev.cameraX) * alpha;
+      view.playerX = prev.playerX + (sim.player.x - prev.playerX) * alpha;
+      view.playerY = prev.playerY + (sim.player.y - prev.playerY) * alpha;
+      view.policeX = prev.policeX + (sim.police.x - prev.policeX) * alpha;
+      view.policeAltitude = prev.policeAltitude + (sim.police.altitude - prev.policeAltitude) * alpha;
+      if (game.ghost) {
+        view.ghostX = prev.ghostX + (game.ghost.sim.player.x - prev.ghostX) * alpha;
+        view.ghostY = prev.ghostY + (game.ghost.sim.player.y - prev.ghostY) * alpha;
+      }
     };
 
-    const gameLoop = () => {
-      update();
+    // Fixed-step accumulator: the simulation always advances in 1/60 s ticks
+    // no matter the display refresh rate; rendering blends between ticks.
+    const clock = game.clock;
+
+    const gameLoop = (time: number) => {
+      if (clock.lastTime === null) clock.lastTime = time;
+      clock.accumulator += Math.min(time - clock.lastTime, MAX_FRAME_MS);
+      clock.lastTime = time;
+
+      // The demo starts another run a little while after one ends
+      if (attract && sim.status !== "running") {
+        demoEndedAt ??= time;
+        if (time - demoEndedAt >= DEMO_RESTART_MS) {
+          startDemo();
+          snapshot();
+          demoEndedAt = null;
+        }
+      }
+
+      while (clock.accumulator >= FIXED_TIMESTEP_MS && sim.status === "running" && !replayEnded) {
+        snapshot();
+        update();
+        clock.accumulator -= FIXED_TIMESTEP_MS;
+        if (sim.status !== "running" || replayEnded) {
+          clock.accumulator = 0;
+          break;
+        }
+      }
+
+      interpolate(clock.accumulator / FIXED_TIMESTEP_MS);
       render();
       animationId = requestAnimationFrame(gameLoop);
     };
@@ -2102,8 +1684,11 @@ export default function Game() {
 
     return () => {
       cancelAnimationFrame(animationId);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      // Time spent paused or on a menu isn't played when the loop comes back
+      clock.lastTime = null;
     };
-  }, [gameState, gameOver, spawnObstacle, spawnVine, spawnCoin, createParticles, getTerrainHeight, generateTerrain, selectedCharacter]);
+  }, [gameState]);
 
   const handleTouchStart = (e: React.TouchEvent | React.MouseEvent) => {
     // e.preventDefault(); // Don't prevent default on everything, might block UI interaction
@@ -2112,7 +1697,7 @@ export default function Game() {
       // Play jump sound on touch if not already playing? 
       // Better: rely on the update loop or strict trigger.
       // Actually, standard is:
-      if (gameRef.current.player.state !== "falling") {
+      if (!gameRef.current.replayer && gameRef.current.sim.player.state !== "falling") {
         soundRef.current.playJump();
       }
     }
@@ -2129,7 +1714,7 @@ export default function Game() {
   const handleMouseUp = handleTouchEnd;
 
   useEffect(() => {
-    if (gameState !== "start" && gameState !== "gameover" && gameState !== "paused") return;
+    if (gameState !== "gameover" && gameState !== "paused") return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -2215,7 +1800,7 @@ export default function Game() {
                     <div
                       className="h-full rounded-full bg-emerald-400 transition-all duration-200"
                       style={{
-                        width: `${Math.min(100, ((glideSeconds + glideChargeProgress * GLIDE_CHARGE_SECONDS) / GLIDE_MAX_DISPLAY_SECONDS) * 100)}%`,
+                        width: `${Math.min(100, ((glideSeconds + glideChargeProgress * gameRef.current.sim.glideChargeSeconds) / GLIDE_MAX_DISPLAY_SECONDS) * 100)}%`,
                       }}
                     />
                   </div>
@@ -2223,6 +1808,20 @@ export default function Game() {
                     {glideSeconds.toFixed(1)}s
                   </div>
                 </div>
+                {POWER_UP_KINDS.filter((kind) => powerUpSeconds[kind] !== undefined).map((kind) => {
+                  const { icon: Icon, color } = POWER_UP_STYLES[kind];
+                  const seconds = powerUpSeconds[kind] ?? 0;
+                  const total = POWER_UPS[kind].durationTicks / SIMULATION_HZ;
+                  return (
+                    <div key={kind} className="flex items-center gap-2" data-testid={`hud-power-up-${kind}`}>
+                      <Icon className="w-4 h-4" style={{ color }} />
+                      <div className="h-1.5 w-24 rounded-full bg-white/10 overflow-hidden">
+                        <div className="h-full rounded-full" style={{ width: `${(seconds / total) * 100}%`, backgroundColor: color }} />
+                      </div>
+                      <span className="text-[10px] text-white/70 font-mono">{seconds.toFixed(1)}s</span>
+                    </div>
+                  );
+                })}
               </div>
 
               {/* Center Distance Panel */}
@@ -2263,10 +1862,66 @@ export default function Game() {
           </div>
         )}
 
+        {gameState === "playing" && spotlightHeat > 0 && (
+          <div className="absolute top-28 left-4 pointer-events-none" data-testid="meter-spotlight">
+            <div className="text-[10px] font-semibold text-yellow-200 uppercase tracking-widest">Spotlight</div>
+            <div className="mt-1 h-2 w-32 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full rounded-full bg-yellow-300" style={{ width: `${Math.min(100, spotlightHeat)}%` }} />
+            </div>
+          </div>
+        )}
+
+        {gameState === "playing" && biomeBanner && (
+          <div className="absolute top-1/4 left-0 right-0 text-center pointer-events-none" data-testid="text-biome-banner">
+            <div className="text-xs font-semibold text-white/60 uppercase tracking-[0.3em]">Now entering</div>
+            <div className="text-3xl font-black text-white drop-shadow-lg">{BIOMES[biomeBanner].name}</div>
+          </div>
+        )}
+
+        {gameState === "playing" && dailyRun && !replayMode && (
+          <div className="absolute top-20 right-4 flex items-center gap-2 pointer-events-none" data-testid="text-daily-badge">
+            <CalendarDays className="w-5 h-5 text-sky-400" />
+            <span className="text-sky-400 font-bold drop-shadow-lg">
+              DAILY{dailyRun.ranked ? "" : " (PRACTICE)"}
+            </span>
+          </div>
+        )}
+
+        {gameState === "playing" && storyLevel !== null && !replayMode && (
+          <div className="absolute top-20 right-4 flex items-center gap-2 pointer-events-none" data-testid="text-story-badge">
+            <BookOpen className="w-5 h-5 text-amber-300" />
+            <span className="text-amber-300 font-bold drop-shadow-lg">{STORY_LEVELS[storyLevel].name.toUpperCase()}</span>
+          </div>
+        )}
+
+        {gameState === "playing" && communityLevel && !replayMode && (
+          <div className="absolute top-20 right-4 flex items-center gap-2 pointer-events-none" data-testid="text-community-badge">
+            <Users className="w-5 h-5 text-violet-300" />
+            <span className="text-violet-300 font-bold drop-shadow-lg">{communityLevel.name.toUpperCase()}</span>
+          </div>
+        )}
+
+        {gameState === "playing" && ghostRace && (
+          <div className="absolute top-20 right-4 flex items-center gap-2 pointer-events-none" data-testid="text-ghost-gap">
+            <Ghost className="w-5 h-5 text-white/70" />
+            <span className="text-white/70 drop-shadow-lg">{ghostRace.name}</span>
+            <span className={`font-bold font-mono drop-shadow-lg ${ghostGap >= 0 ? "text-green-400" : "text-red-400"}`}>
+              {ghostGap >= 0 ? `+${ghostGap}m ahead` : `${-ghostGap}m behind`}
+            </span>
+          </div>
+        )}
+
+        {gameState === "playing" && replayMode && (
+          <div className="absolute top-20 right-4 flex items-center gap-2 pointer-events-none animate-pulse" data-testid="text-replay-badge">
+            <Film className="w-5 h-5 text-sky-400" />
+            <span className="text-sky-400 font-bold drop-shadow-lg">REPLAY</span>
+          </div>
+        )}
+
         {gameState === "playing" && (
           <div className="absolute bottom-4 left-0 right-0 text-center pointer-events-none">
             <div className="text-sm text-white/60 drop-shadow">
-              Press UP to jump | DOWN to slide | Grab vines to swing!
+              Press UP to jump | DOWN to slide or drop off a ledge | Grab vines to swing!
             </div>
           </div>
         )}
@@ -2284,45 +1939,58 @@ export default function Game() {
             </div>
             <p className="text-lg md:text-xl text-white/80 mb-2">Escape the Police!</p>
 
-            <div className="flex items-center gap-2 mb-4">
-              <span className="text-white/70">Name:</span>
+            <div className="mb-2">
+              <AccountPanel />
+            </div>
+            <p className="text-gray-400 text-sm mt-2">
+              Use Arrow Keys or Tap to Jump
+            </p>
+
+            <div className="flex items-center gap-2 mt-4">
+              <span className="text-white/70">Seed:</span>
               <input
                 type="text"
-                value={playerName}
-                onChange={(e) => {
-                  setPlayerName(e.target.value);
-                  localStorage.setItem("playerName", e.target.value);
-                }}
-                placeholder="Enter Name"
-                className={`bg-gray-800 text-white px-4 py-2 rounded text-center border-2 ${!playerName.trim() ? "border-red-500" : "border-gray-600"} focus:border-green-500 outline-none w-64`}
-                maxLength={12}
-                data-testid="input-player-name"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                placeholder="Random"
+                className="bg-gray-800 text-white px-4 py-2 rounded text-center border-2 border-gray-600 focus:border-green-500 outline-none w-40 font-mono uppercase"
+                maxLength={16}
+                data-testid="input-seed"
               />
             </div>
-            <p className="text-gray-400 text-sm mt-2">
-              {!playerName.trim() ? "Name required" : "Use Arrow Keys or Tap to Jump"}
-            </p>
 
             <div className="mt-4 mb-4">
               <p className="text-white/70 text-sm mb-2 text-center">Select Character:</p>
               <div className="flex flex-wrap justify-center gap-2">
-                {(Object.keys(CHARACTER_STYLES) as CharacterStyle[]).map((style) => {
+                {CHARACTER_IDS.map((style) => {
                   const config = CHARACTER_STYLES[style];
-                  const isSelected = selectedCharacter === style;
+                  const { name, trait, cost } = CHARACTERS[style];
+                  const owned = ownsCharacter(profile, style);
+                  const achievement = getUnlockingAchievement(style);
+                  const isSelected = character === style;
+                  const select = () => {
+                    setSelectedCharacter(style);
+                    localStorage.setItem("selectedCharacter", style);
+                  };
                   return (
                     <button
                       key={style}
+                      disabled={!owned && (profile.coins < cost || unlockMutation.isPending)}
                       onClick={() => {
-                        setSelectedCharacter(style);
-                        localStorage.setItem("selectedCharacter", style);
+                        if (owned) return select();
+                        unlockMutation.mutate(style, {
+                          onSuccess: select,
+                          onError: (error) => toast({ title: "Unlock failed", description: describeApiError(error), variant: "destructive" }),
+                        });
                       }}
-                      className={`flex flex-col items-center p-2 rounded-lg border-2 transition-all ${isSelected
+                      title={`${name}: ${trait}${!owned && achievement ? ` (or earn "${ACHIEVEMENTS[achievement].name}")` : ""}`}
+                      className={`flex flex-col items-center p-2 rounded-lg border-2 transition-all disabled:opacity-40 ${isSelected
                         ? "border-yellow-400 bg-yellow-400/20"
                         : "border-white/20 bg-black/30 hover:border-white/40"
                         }`}
                       data-testid={`button-character-${style}`}
                     >
-                      <div className="w-10 h-14 relative">
+                      <div className={`w-10 h-14 relative ${owned ? "" : "opacity-50"}`}>
                         <div
                           className="absolute inset-x-1 top-0 h-3 rounded-full"
                           style={{ backgroundColor: config.skinColor }}
@@ -2339,12 +2007,22 @@ export default function Game() {
                           className="absolute bottom-0 inset-x-1 h-2"
                           style={{ backgroundColor: config.stripeColor1 }}
                         />
+                        {!owned && <Lock className="absolute inset-0 m-auto w-5 h-5 text-white" />}
                       </div>
-                      <span className="text-xs text-white/80 mt-1 whitespace-nowrap">{config.name}</span>
+                      <span className="text-xs text-white/80 mt-1 whitespace-nowrap">{name}</span>
+                      {!owned && (
+                        <span className="flex items-center gap-0.5 text-xs text-yellow-400" data-testid={`text-character-cost-${style}`}>
+                          <Coins className="w-3 h-3" />
+                          {cost}
+                        </span>
+                      )}
                     </button>
                   );
                 })}
               </div>
+              <p className="text-xs text-white/60 mt-2 text-center" data-testid="text-character-trait">
+                {CHARACTERS[character].trait}
+              </p>
             </div>
 
             {highScore > 0 && (
@@ -2356,7 +2034,6 @@ export default function Game() {
             <Button
               size="lg"
               onClick={startGame}
-              disabled={!playerName.trim()}
               className="px-12 py-6 text-xl font-bold rounded-full bg-gradient-to-r from-red-500 to-orange-600 hover:from-red-600 hover:to-orange-700 text-white shadow-lg shadow-red-500/30 transition-all duration-300"
               data-testid="button-play"
             >
@@ -2364,6 +2041,59 @@ export default function Game() {
               Start Heist
             </Button>
 
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={startDaily}
+              className="mt-4 px-8 py-5 text-lg font-semibold rounded-full border-sky-400/50 text-sky-300"
+              data-testid="button-daily"
+            >
+              <CalendarDays className="w-5 h-5 mr-2" />
+              Daily Heist
+            </Button>
+            {daily && (
+              <div className="mt-2 text-center text-sm text-white/60" data-testid="text-daily-info">
+                <p>
+                  {daily.modifiers.map((id) => (
+                    <span key={id} className="mx-1 text-sky-300" title={MODIFIERS[id].description}>
+                      {MODIFIERS[id].name}
+                    </span>
+                  ))}
+                </p>
+                {daily.attempt && (
+                  <p data-testid="text-daily-attempt">
+                    Ranked today: <span className="text-white">{daily.attempt.score.toLocaleString()}</span> (further runs are practice)
+                  </p>
+                )}
+                {daily.started && !daily.attempt && (
+                  <p data-testid="text-daily-started">Ranked attempt used today (further runs are practice)</p>
+                )}
+              </div>
+            )}
+
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={() => setShowStory(!showStory)}
+              className="mt-4 px-8 py-5 text-lg font-semibold rounded-full border-amber-400/50 text-amber-300"
+              data-testid="button-toggle-story"
+            >
+              <BookOpen className="w-5 h-5 mr-2" />
+              Story
+            </Button>
+            {showStory && <StoryPanel cleared={storyCleared} onPlay={startStory} />}
+
+            <Button
+              variant="ghost"
+              onClick={() => setShowCommunity(!showCommunity)}
+              className="mt-4 text-white/70"
+              data-testid="button-toggle-community"
+            >
+              <Users className="w-5 h-5 mr-2" />
+              {showCommunity ? "Hide" : "Show"} Community Levels
+            </Button>
+            {showCommunity && <CommunityPanel onPlay={startCommunityLevel} />}
+
             <Button
               variant="ghost"
               onClick={() => setShowLeaderboard(!showLeaderboard)}
@@ -2374,29 +2104,67 @@ export default function Game() {
               {showLeaderboard ? "Hide" : "Show"} Leaderboard
             </Button>
 
-            {showLeaderboard && leaderboard.length > 0 && (
-              <div className="mt-4 bg-black/40 rounded-lg p-4 w-full max-w-sm">
-                <h3 className="text-lg font-bold text-white mb-3 text-center">Top Scores</h3>
-                <div className="space-y-2">
-                  {leaderboard.slice(0, 5).map((entry, index) => (
-                    <div
-                      key={entry.id}
-                      className="flex items-center justify-between text-white/80 px-2"
-                      data-testid={`leaderboard-entry-${index}`}
-                    >
-                      <span className="flex items-center gap-2">
-                        <span className={`font-bold ${index === 0 ? "text-yellow-400" : index === 1 ? "text-gray-300" : index === 2 ? "text-amber-600" : ""}`}>
-                          #{index + 1}
-                        </span>
-                        <span>{entry.playerName}</span>
-                      </span>
-                      <span className="font-mono">{entry.score.toLocaleString()}</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
+            <Button
+              variant="ghost"
+              onClick={() => setShowShop(!showShop)}
+              className="mt-1 text-white/70"
+              data-testid="button-toggle-shop"
+            >
+              <ShoppingBag className="w-5 h-5 mr-2" />
+              {showShop ? "Hide" : "Show"} Upgrade Shop
+            </Button>
+
+            <Link href="/profile">
+              <Button variant="ghost" className="mt-1 text-white/70" data-testid="button-profile">
+                <Medal className="w-5 h-5 mr-2" />
+                Stats & Achievements
+              </Button>
+            </Link>
+
+            <Link href="/editor">
+              <Button variant="ghost" className="mt-1 text-white/70" data-testid="button-editor">
+                <PencilRuler className="w-5 h-5 mr-2" />
+                Level Editor
+              </Button>
+            </Link>
+
+            {bestReplay && (
+              <Button
+                variant="ghost"
+                onClick={() => startGhostRace(bestReplay, "Your Best")}
+                className="mt-1 text-white/70"
+                data-testid="button-race-best"
+              >
+                <Ghost className="w-5 h-5 mr-2" />
+                Race Your Best
+              </Button>
             )}
 
+            <Button
+              variant="ghost"
+              onClick={() => replayFileRef.current?.click()}
+              className="mt-1 text-white/70"
+              data-testid="button-load-replay"
+            >
+              <Upload className="w-5 h-5 mr-2" />
+              Load Replay
+            </Button>
+            <input
+              ref={replayFileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) loadReplayFile(file);
+              }}
+              data-testid="input-replay-file"
+            />
+
+            {showLeaderboard && <LeaderboardPanel onRaceGhost={startGhostRace} />}
+            {showShop && <ShopPanel />}
+
             <div className="mt-6 text-white/70 text-center max-w-md px-4">
               <p className="mb-2 font-semibold">How to Play:</p>
               <p className="text-sm">
@@ -2433,13 +2201,25 @@ export default function Game() {
               <Button
                 size="lg"
                 variant="outline"
-                onClick={startGame}
+                onClick={restartRun}
                 className="px-10 py-5 text-lg font-semibold rounded-full border-white/30 text-white"
                 data-testid="button-restart-pause"
               >
                 <RotateCcw className="w-5 h-5 mr-2" />
                 Restart
               </Button>
+              {onExitPlaytest && (
+                <Button
+                  size="lg"
+                  variant="ghost"
+                  onClick={onExitPlaytest}
+                  className="px-10 py-5 text-lg font-semibold rounded-full text-white/70"
+                  data-testid="button-exit-playtest"
+                >
+                  <PencilRuler className="w-5 h-5 mr-2" />
+                  Back to Editor
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -2449,6 +2229,11 @@ export default function Game() {
             <h2 className="text-4xl md:text-5xl font-black text-red-500 mb-4" data-testid="text-game-over">
               BUSTED!
             </h2>
+            {caughtBy && (
+              <p className="text-white/70 -mt-2 mb-4" data-testid="text-caught-by">
+                {CAPTOR_MESSAGES[caughtBy]}
+              </p>
+            )}
             <div className="text-5xl font-bold text-white mb-6" data-testid="text-final-score">
               {score.toLocaleString()}
             </div>
@@ -2466,16 +2251,183 @@ export default function Game() {
                 <div className="text-sm text-white/60">Best</div>
               </Card>
             </div>
+            {!replayMode && (
+              <p className="flex items-center gap-1 text-sm text-white/70 mb-2" data-testid="text-wallet">
+                <Coins className="w-4 h-4 text-yellow-400" />
+                Wallet: <span className="text-yellow-400 font-semibold">{profile.coins.toLocaleString()}</span>
+              </p>
+            )}
+            {!user && !replayMode && (
+              <p className="text-sm text-white/60 mb-2" data-testid="text-login-hint">
+                Log in from the start screen to post your scores to the leaderboard
+              </p>
+            )}
+            {ghostRace && (
+              <p className="text-sm text-white/70 mb-2" data-testid="text-ghost-result">
+                {ghostGap >= 0 ? `${ghostGap}m ahead of` : `${-ghostGap}m behind`} the ghost ({ghostRace.name})
+              </p>
+            )}
+            {user && dailyRun && !replayMode && !submitDailyMutation.isError && (
+              <p className="text-sm text-sky-300 mb-2" data-testid="text-daily-result">
+                {dailyRun.ranked
+                  ? "Ranked on today's Daily Heist leaderboard"
+                  : "Practice run - only your first Daily Heist each day is ranked"}
+              </p>
+            )}
+            {runSeed !== null && (
+              <p className="text-sm text-white/60 mb-6" data-testid="text-run-seed">
+                Seed: <span className="font-mono text-white select-all">{formatSeed(runSeed)}</span>
+              </p>
+            )}
             <div className="flex gap-4">
               <Button
                 size="lg"
-                onClick={startGame}
+                onClick={restartRun}
                 className="px-10 py-5 text-lg font-semibold rounded-full bg-gradient-to-r from-red-500 to-orange-600"
                 data-testid="button-play-again"
               >
                 <RotateCcw className="w-5 h-5 mr-2" />
                 Try Again
               </Button>
+              {lastReplay && (
+                <>
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={() => startReplay(lastReplay)}
+                    className="px-8 py-5 text-lg font-semibold rounded-full border-white/30 text-white"
+                    data-testid="button-watch-replay"
+                  >
+                    <Film className="w-5 h-5 mr-2" />
+                    Watch Replay
+                  </Button>
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={downloadReplay}
+                    className="px-8 py-5 text-lg font-semibold rounded-full border-white/30 text-white"
+                    data-testid="button-download-replay"
+                  >
+                    <Download className="w-5 h-5 mr-2" />
+                    Save Replay
+                  </Button>
+                </>
+              )}
+              {onExitPlaytest && (
+                <Button
+                  size="lg"
+                  variant="ghost"
+                  onClick={onExitPlaytest}
+                  className="px-8 py-5 text-lg font-semibold rounded-full text-white/70"
+                  data-testid="button-exit-playtest"
+                >
+                  <PencilRuler className="w-5 h-5 mr-2" />
+                  Back to Editor
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {gameState === "victory" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 rounded-lg">
+            <h2 className="text-4xl md:text-5xl font-black text-green-400 mb-4" data-testid="text-victory">
+              ESCAPED!
+            </h2>
+            {storyLevel !== null && !replayMode && (
+              <p className="text-white/70 -mt-2 mb-4" data-testid="text-level-cleared">
+                {STORY_LEVELS[storyLevel].name} cleared
+                {storyLevel + 1 === STORY_LEVELS.length && " - that's the whole story!"}
+              </p>
+            )}
+            {communityLevel && !replayMode && (
+              <p className="text-white/70 -mt-2 mb-4" data-testid="text-community-cleared">
+                {communityLevel.name} cleared
+                {!user && " - log in to rank your escapes"}
+              </p>
+            )}
+            {user && dailyRun && !replayMode && !submitDailyMutation.isError && (
+              <p className="text-sm text-sky-300 -mt-2 mb-4" data-testid="text-daily-escape-result">
+                {dailyRun.ranked
+                  ? "Ranked on today's Daily Heist leaderboard"
+                  : "Practice run - only your first Daily Heist each day is ranked"}
+              </p>
+            )}
+            <div className="text-5xl font-bold text-white mb-6" data-testid="text-final-score">
+              {score.toLocaleString()}
+            </div>
+            <div className="grid grid-cols-2 gap-6 mb-8">
+              <Card className="p-4 bg-white/10 border-white/20 text-center">
+                <div className="text-2xl font-bold text-white">{distance}m</div>
+                <div className="text-sm text-white/60">Distance</div>
+              </Card>
+              <Card className="p-4 bg-white/10 border-white/20 text-center">
+                <div className="text-2xl font-bold text-yellow-400">{coins}</div>
+                <div className="text-sm text-white/60">Loot</div>
+              </Card>
+            </div>
+            {!replayMode && (
+              <p className="flex items-center gap-1 text-sm text-white/70 mb-6" data-testid="text-wallet">
+                <Coins className="w-4 h-4 text-yellow-400" />
+                Wallet: <span className="text-yellow-400 font-semibold">{profile.coins.toLocaleString()}</span>
+              </p>
+            )}
+            <div className="flex flex-wrap justify-center gap-4">
+              {storyLevel !== null && !replayMode && storyLevel + 1 < STORY_LEVELS.length && (
+                <Button
+                  size="lg"
+                  onClick={() => startStory(storyLevel + 1)}
+                  className="px-10 py-5 text-lg font-semibold rounded-full bg-gradient-to-r from-green-500 to-emerald-600"
+                  data-testid="button-next-level"
+                >
+                  <SkipForward className="w-5 h-5 mr-2" />
+                  Next Level
+                </Button>
+              )}
+              <Button
+                size="lg"
+                variant="outline"
+                onClick={restartRun}
+                className="px-8 py-5 text-lg font-semibold rounded-full border-white/30 text-white"
+                data-testid="button-play-again"
+              >
+                <RotateCcw className="w-5 h-5 mr-2" />
+                Play Again
+              </Button>
+              {lastReplay && (
+                <Button
+                  size="lg"
+                  variant="outline"
+                  onClick={() => startReplay(lastReplay)}
+                  className="px-8 py-5 text-lg font-semibold rounded-full border-white/30 text-white"
+                  data-testid="button-watch-replay"
+                >
+                  <Film className="w-5 h-5 mr-2" />
+                  Watch Replay
+                </Button>
+              )}
+              {onExitPlaytest ? (
+                <Button
+                  size="lg"
+                  variant="ghost"
+                  onClick={onExitPlaytest}
+                  className="px-8 py-5 text-lg font-semibold rounded-full text-white/70"
+                  data-testid="button-exit-playtest"
+                >
+                  <PencilRuler className="w-5 h-5 mr-2" />
+                  Back to Editor
+                </Button>
+              ) : (
+                <Button
+                  size="lg"
+                  variant="ghost"
+                  onClick={() => setGameState("start")}
+                  className="px-8 py-5 text-lg font-semibold rounded-full text-white/70"
+                  data-testid="button-menu"
+                >
+                  Menu
+                </Button>
+              )}
             </div>
           </div>
         )}
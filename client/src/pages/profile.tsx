@@ -0,0 +1,96 @@
+import { Link } from "wouter";
+import { ArrowLeft, CheckCircle2, Coins, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/hooks/use-auth";
+import { useProfile } from "@/hooks/use-profile";
+import { ACHIEVEMENTS, ACHIEVEMENT_IDS, getAchievementProgress } from "@shared/achievements";
+import { CHARACTERS } from "@shared/engine/characters";
+import { STAT_IDS, STAT_NAMES } from "@shared/engine/stats";
+
+export default function Profile() {
+  const { user } = useAuth();
+  const { profile, isLoading } = useProfile();
+  const unlocked = profile.achievements.length;
+
+  return (
+    <div className="min-h-screen w-full bg-gray-950 text-white flex justify-center p-4" data-testid="page-profile">
+      <div className="w-full max-w-3xl">
+        <div className="flex items-center justify-between mb-6">
+          <Link href="/">
+            <Button variant="ghost" className="text-white/70" data-testid="button-back-to-game">
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              Back to Game
+            </Button>
+          </Link>
+          <span className="flex items-center gap-1 text-yellow-400 font-mono" data-testid="text-profile-coins">
+            <Coins className="w-4 h-4" />
+            {profile.coins.toLocaleString()}
+          </span>
+        </div>
+
+        <h1 className="text-3xl font-black mb-1" data-testid="text-profile-name">
+          {user ? user.username : "Guest"}
+        </h1>
+        <p className="text-white/50 text-sm mb-6">
+          {user ? "Progress is saved to your account" : "Progress is saved in this browser only. Log in to keep it on your account."}
+        </p>
+
+        {isLoading ? (
+          <p className="text-white/50">Loading...</p>
+        ) : (
+          <>
+            <h2 className="text-xl font-bold mb-3">Lifetime Stats</h2>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-8">
+              {STAT_IDS.map((id) => (
+                <Card key={id} className="p-3 bg-white/10 border-white/20 text-center" data-testid={`stat-${id}`}>
+                  <div className="text-xl font-bold text-white">{profile.stats.lifetime[id].toLocaleString()}</div>
+                  <div className="text-xs text-white/60">{STAT_NAMES[id]}</div>
+                  {id !== "runs" && (
+                    <div className="text-xs text-white/40 mt-1">Best run: {profile.stats.best[id].toLocaleString()}</div>
+                  )}
+                </Card>
+              ))}
+            </div>
+
+            <h2 className="text-xl font-bold mb-3">
+              Achievements <span className="text-white/50 text-base font-normal">{unlocked} / {ACHIEVEMENT_IDS.length}</span>
+            </h2>
+            <div className="grid md:grid-cols-2 gap-3">
+              {ACHIEVEMENT_IDS.map((id) => {
+                const achievement = ACHIEVEMENTS[id];
+                const done = profile.achievements.includes(id);
+                const progress = getAchievementProgress(id, profile.stats);
+                return (
+                  <Card
+                    key={id}
+                    className={`p-3 border-white/20 ${done ? "bg-green-500/15" : "bg-white/5"}`}
+                    data-testid={`achievement-${id}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-white">{achievement.name}</span>
+                      {done ? <CheckCircle2 className="w-5 h-5 text-green-400" /> : <Lock className="w-4 h-4 text-white/30" />}
+                    </div>
+                    <p className="text-sm text-white/60">{achievement.description}</p>
+                    {achievement.unlocks && (
+                      <p className="text-xs text-sky-300 mt-1">Unlocks {CHARACTERS[achievement.unlocks].name}</p>
+                    )}
+                    {!done && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <Progress value={(progress / achievement.goal) * 100} className="h-2" />
+                        <span className="text-xs text-white/50 font-mono whitespace-nowrap">
+                          {progress.toLocaleString()} / {achievement.goal.toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+CREATE TABLE "high_scores" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"player_name" text NOT NULL,
+	"score" integer NOT NULL,
+	"distance" integer NOT NULL,
+	"coins" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "high_scores" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "high_scores" ADD CONSTRAINT "high_scores_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
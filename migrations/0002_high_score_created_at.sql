@@ -0,0 +1,2 @@
+ALTER TABLE "high_scores" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+CREATE INDEX "high_scores_created_at_idx" ON "high_scores" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "daily_scores" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"player_name" text NOT NULL,
+	"challenge_date" date NOT NULL,
+	"score" integer NOT NULL,
+	"distance" integer NOT NULL,
+	"coins" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "daily_scores" ADD CONSTRAINT "daily_scores_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "daily_scores_user_date_idx" ON "daily_scores" USING btree ("user_id","challenge_date");--> statement-breakpoint
+CREATE INDEX "daily_scores_date_score_idx" ON "daily_scores" USING btree ("challenge_date","score");
\ No newline at end of file
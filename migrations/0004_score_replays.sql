@@ -0,0 +1,2 @@
+ALTER TABLE "daily_scores" ADD COLUMN "replay" jsonb;--> statement-breakpoint
+ALTER TABLE "high_scores" ADD COLUMN "replay" jsonb;
\ No newline at end of file
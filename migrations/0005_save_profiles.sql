@@ -0,0 +1,15 @@
+CREATE TABLE "banked_runs" (
+	"user_id" varchar NOT NULL,
+	"run_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "banked_runs_user_id_run_key_pk" PRIMARY KEY("user_id","run_key")
+);
+--> statement-breakpoint
+CREATE TABLE "profiles" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"data" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "banked_runs" ADD CONSTRAINT "banked_runs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "profiles" ADD CONSTRAINT "profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
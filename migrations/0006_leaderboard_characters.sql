@@ -0,0 +1,2 @@
+ALTER TABLE "daily_scores" ADD COLUMN "character" text DEFAULT 'classic' NOT NULL;--> statement-breakpoint
+ALTER TABLE "high_scores" ADD COLUMN "character" text DEFAULT 'classic' NOT NULL;
\ No newline at end of file
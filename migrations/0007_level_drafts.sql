@@ -0,0 +1,9 @@
+CREATE TABLE "level_drafts" (
+	"user_id" varchar NOT NULL,
+	"level_id" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "level_drafts_user_id_level_id_pk" PRIMARY KEY("user_id","level_id")
+);
+--> statement-breakpoint
+ALTER TABLE "level_drafts" ADD CONSTRAINT "level_drafts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "community_levels" (
+	"id" text PRIMARY KEY NOT NULL,
+	"author_id" varchar NOT NULL,
+	"author_name" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "level_ratings" (
+	"level_id" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"stars" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "level_ratings_level_id_user_id_pk" PRIMARY KEY("level_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "level_scores" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"level_id" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"player_name" text NOT NULL,
+	"score" integer NOT NULL,
+	"distance" integer NOT NULL,
+	"coins" integer NOT NULL,
+	"character" text DEFAULT 'classic' NOT NULL,
+	"replay" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "community_levels" ADD CONSTRAINT "community_levels_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "level_ratings" ADD CONSTRAINT "level_ratings_level_id_community_levels_id_fk" FOREIGN KEY ("level_id") REFERENCES "public"."community_levels"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "level_ratings" ADD CONSTRAINT "level_ratings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "level_scores" ADD CONSTRAINT "level_scores_level_id_community_levels_id_fk" FOREIGN KEY ("level_id") REFERENCES "public"."community_levels"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "level_scores" ADD CONSTRAINT "level_scores_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "community_levels_created_at_idx" ON "community_levels" USING btree ("created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "level_scores_level_user_idx" ON "level_scores" USING btree ("level_id","user_id");--> statement-breakpoint
+CREATE INDEX "level_scores_level_score_idx" ON "level_scores" USING btree ("level_id","score");
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Accounts registered before this whose names differ only in case: all but one get a suffix from their id,
+-- the name cut to 7 characters first so it stays within the 12 allowed
+UPDATE "users" SET "username" = substr("users"."username", 1, 7) || '_' || substr("users"."id", 1, 4)
+FROM (
+	SELECT "id", row_number() OVER (PARTITION BY lower("username") ORDER BY "id") AS "n" FROM "users"
+) AS "ranked"
+WHERE "ranked"."id" = "users"."id" AND "ranked"."n" > 1;--> statement-breakpoint
+CREATE UNIQUE INDEX "users_username_lower_idx" ON "users" USING btree (lower("username"));
@@ -0,0 +1,11 @@
+CREATE TABLE "daily_attempts" (
+	"user_id" varchar NOT NULL,
+	"challenge_date" date NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "daily_attempts_user_id_challenge_date_pk" PRIMARY KEY("user_id","challenge_date")
+);
+--> statement-breakpoint
+ALTER TABLE "daily_attempts" ADD CONSTRAINT "daily_attempts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Every ranked score so far was an attempt that started
+INSERT INTO "daily_attempts" ("user_id", "challenge_date", "started_at")
+SELECT "user_id", "challenge_date", "created_at" FROM "daily_scores";
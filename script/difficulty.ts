@@ -0,0 +1,105 @@
+import { parseArgs } from "util";
+import { getAutopilotInput } from "../shared/engine/autopilot";
+import { CANVAS_WIDTH, PLAYER_WIDTH, SIMULATION_HZ } from "../shared/engine/constants";
+import { SeededRandom } from "../shared/engine/rng";
+import { HeistSimulation } from "../shared/engine/simulation";
+
+// Plays many procedural runs with the autopilot and prints how far they got
+// before ending, grouped by what ended them, as a rough difficulty curve.
+//
+//   npm run difficulty -- --runs 2000 --bucket 500
+//   npm run difficulty -- --json > curve.json
+//   npm run difficulty -- --no-chase --runs 200
+//
+// Run seeds are drawn from --seed, so the same options give the same curve.
+// Most runs end in a capture once the police outpace the autopilot, which
+// says little about the course; --no-chase plays without pursuers, so runs
+// only end at an obstacle (or in escape) and the curve shows which ones bite.
+
+const { values: options } = parseArgs({
+  options: {
+    runs: { type: "string", default: "1000" },
+    seed: { type: "string", default: "1" },
+    bucket: { type: "string", default: "250" },
+    json: { type: "boolean", default: false },
+    "no-chase": { type: "boolean", default: false },
+  },
+});
+
+const runs = Number(options.runs);
+const bucketSize = Number(options.bucket);
+if (!Number.isInteger(runs) || runs < 1 || !(bucketSize > 0)) {
+  console.error("--runs must be a whole number and --bucket a distance above 0");
+  process.exit(1);
+}
+
+// Well past the time an escape takes, in case a run ever stalls
+const MAX_TICKS = 10 * 60 * SIMULATION_HZ;
+const BAR_WIDTH = 40;
+
+// Plays one run to its end and says what ended it and how far it got
+function playRun(seed: number): { cause: string; distance: number } {
+  const sim = new HeistSimulation(seed);
+  sim.chaseOff = options["no-chase"];
+  let cause: string | null = null;
+  sim.events.on("crash", (event) => (cause = event.obstacle));
+  sim.events.on("caught", (event) => (cause = `caught by ${event.by}`));
+
+  for (let tick = 0; tick < MAX_TICKS && sim.status === "running"; tick++) {
+    sim.step(getAutopilotInput(sim));
+    // The helicopter waits where it stopped, so a run that's gone past it can't escape
+    if (sim.plane.state === "waiting" && sim.player.x > sim.plane.x + CANVAS_WIDTH) break;
+  }
+
+  const distance = Math.floor(sim.distanceTraveled);
+  if (sim.plane.state === "waiting" && sim.status === "running") return { cause: "missed the helicopter", distance };
+  if (sim.status === "escaped") return { cause: "escaped", distance };
+  if (sim.status === "running") return { cause: "timed out", distance };
+  if (cause) return { cause, distance };
+  // Busted without a crash or a capture: they fell, into a pit if one was under them
+  const { x } = sim.player;
+  const pit = sim.obstacles.find((o) => o.type === "gap" && x + PLAYER_WIDTH > o.x && x < o.x + o.width);
+  return { cause: pit ? "gap" : "fell", distance };
+}
+
+const rng = new SeededRandom(Number(options.seed) >>> 0);
+const distances = new Map<string, number[]>();
+const startedAt = performance.now();
+for (let i = 0; i < runs; i++) {
+  const { cause, distance } = playRun(Math.floor(rng.next() * 0x100000000) >>> 0);
+  if (!distances.has(cause)) distances.set(cause, []);
+  distances.get(cause)!.push(distance);
+}
+const seconds = (performance.now() - startedAt) / 1000;
+
+// Runs per bucket of distance, from 0 up to the furthest any run got
+function histogram(values: number[], maxBucket: number) {
+  const counts = new Array(maxBucket + 1).fill(0);
+  for (const value of values) counts[Math.floor(value / bucketSize)]++;
+  return counts;
+}
+
+const sorted = Array.from(distances.entries()).sort((a, b) => b[1].length - a[1].length);
+const maxBucket = Math.floor(Math.max(...sorted.flatMap(([, values]) => values)) / bucketSize);
+
+if (options.json) {
+  const causes = Object.fromEntries(sorted.map(([cause, values]) => [cause, histogram(values, maxBucket)]));
+  console.log(JSON.stringify({ runs, seed: options.seed, bucket: bucketSize, chase: !options["no-chase"], causes }, null, 2));
+  process.exit(0);
+}
+
+const chase = options["no-chase"] ? ", no chase" : "";
+console.log(`${runs} runs in ${seconds.toFixed(1)}s, buckets of ${bucketSize}m${chase}\n`);
+for (const [cause, values] of sorted) {
+  const counts = histogram(values, maxBucket);
+  const median = [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  const share = ((values.length / runs) * 100).toFixed(1);
+  console.log(`${cause}: ${values.length} (${share}%), median ${median}m`);
+  const most = Math.max(...counts);
+  counts.forEach((count, i) => {
+    if (count === 0) return;
+    const from = `${i * bucketSize}m`.padStart(7);
+    console.log(`  ${from} ${"#".repeat(Math.ceil((count / most) * BAR_WIDTH))} ${count}`);
+  });
+  console.log();
+}
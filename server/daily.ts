@@ -0,0 +1,29 @@
+import { createHmac, randomBytes } from "crypto";
+import type { DailyChallenge } from "@shared/schema";
+import { MODIFIER_IDS, type ModifierId } from "@shared/engine/modifiers";
+import { SeededRandom } from "@shared/engine/rng";
+
+// Keeps tomorrow's course out of reach until it's handed out. Without one set,
+// the challenge changes whenever the server restarts.
+const DAILY_SECRET = process.env.DAILY_SECRET || randomBytes(32).toString("hex");
+
+// Today's challenge date in UTC, e.g. "2024-05-01"
+export function getDailyDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+// Derived from the date and DAILY_SECRET, so every server instance sharing the
+// secret hands out the same challenge without storing it, and nobody can work
+// out a day's seed before it comes round. Each day gets one or two modifiers.
+export function getDailyChallenge(date: string): DailyChallenge {
+  const seed = createHmac("sha256", DAILY_SECRET).update(`daily:${date}`).digest().readUInt32BE(0);
+  const rng = new SeededRandom(seed);
+  const pool: ModifierId[] = [...MODIFIER_IDS];
+  const count = 1 + Math.floor(rng.next() * 2);
+  const modifiers: ModifierId[] = [];
+  for (let i = 0; i < count; i++) {
+    const [picked] = pool.splice(Math.floor(rng.next() * pool.length), 1);
+    modifiers.push(picked);
+  }
+  return { date, seed, modifiers };
+}
@@ -0,0 +1,20 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any Drizzle Postgres driver works here (node-postgres in production, an
+// in-process Postgres such as PGlite for local experiments).
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Without DATABASE_URL the server falls back to in-memory storage.
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+export const db = pool ? drizzle(pool, { schema }) : null;
+
+export async function runMigrations() {
+  if (!db) return;
+  await migrate(db, { migrationsFolder: "migrations" });
+}
@@ -0,0 +1,28 @@
+import type { RequestHandler } from "express";
+
+// Lets each signed-in player make `limit` requests per `windowMs` through the
+// routes it guards and answers 429 past that. Goes after requireAuth. Counts
+// are kept in memory, so each server instance has its own.
+export function limitPerUser(limit: number, windowMs: number): RequestHandler {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    let window = windows.get(req.user!.id);
+    if (!window || now - window.start >= windowMs) {
+      // Forget players whose windows have run out, so the map stays small
+      windows.forEach((other, userId) => {
+        if (now - other.start >= windowMs) windows.delete(userId);
+      });
+      window = { start: now, count: 0 };
+      windows.set(req.user!.id, window);
+    }
+
+    window.count++;
+    if (window.count > limit) {
+      res.setHeader("Retry-After", Math.ceil((window.start + windowMs - now) / 1000).toString());
+      return res.status(429).json({ error: "Too many runs sent at once, try again in a minute" });
+    }
+    next();
+  };
+}
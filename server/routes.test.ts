@@ -0,0 +1,107 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { getAutopilotInput } from "@shared/engine/autopilot";
+import { InputRecorder, runReplay, type Replay } from "@shared/engine/replay";
+import { HeistSimulation } from "@shared/engine/simulation";
+import { registerRoutes } from "./routes";
+
+// The API end to end on in-memory storage (no DATABASE_URL), through real
+// HTTP requests with a session cookie per player.
+
+let server: Server;
+let baseUrl: string;
+// An autopilot run from start to bust, and what it really scored
+let replay: Replay;
+let claim: { score: number; distance: number; coins: number };
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(createServer(app), app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const sim = new HeistSimulation(5);
+  const recorder = new InputRecorder(5);
+  while (sim.status === "running") {
+    const input = getAutopilotInput(sim);
+    recorder.record(input);
+    sim.step(input);
+  }
+  replay = recorder.toReplay();
+  const { score, distance, coins } = runReplay(replay);
+  claim = { score, distance, coins };
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// Registers a new player and returns a way to send requests as them
+async function signUp(username: string) {
+  const res = await fetch(`${baseUrl}/api/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password: "password" }),
+  });
+  assert.equal(res.status, 201);
+  const cookie = res.headers.get("set-cookie")!.split(";")[0];
+  return (method: string, path: string, body?: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+}
+
+describe("POST /api/highscores", () => {
+  it("ranks a run whose replay reproduces its score", async () => {
+    const send = await signUp("honest");
+    const res = await send("POST", "/api/highscores", { ...claim, replay });
+    assert.equal(res.status, 201);
+    assert.equal((await res.json()).score, claim.score);
+  });
+
+  it("turns down a score the replay doesn't reach", async () => {
+    const send = await signUp("forger");
+    const res = await send("POST", "/api/highscores", { ...claim, score: claim.score + 1000, replay });
+    assert.equal(res.status, 422);
+  });
+
+  it("turns down a replay that was tampered with", async () => {
+    const send = await signUp("tamperer");
+    // Holding UP for the opening second plays out as a different run
+    const tampered: Replay = { ...replay, inputs: [[60, 1], ...replay.inputs.slice(1)] };
+    const res = await send("POST", "/api/highscores", { ...claim, replay: tampered });
+    assert.equal(res.status, 422);
+  });
+});
+
+describe("POST /api/profile/runs", () => {
+  it("turns down a replay that stops before the run ends", async () => {
+    const send = await signUp("quitter");
+    const res = await send("POST", "/api/profile/runs", { replay: { ...replay, inputs: replay.inputs.slice(0, -1) } });
+    assert.equal(res.status, 422);
+  });
+
+  it("banks a run once", async () => {
+    const send = await signUp("saver");
+    assert.equal((await send("POST", "/api/profile/runs", { replay })).status, 200);
+    assert.equal((await send("POST", "/api/profile/runs", { replay })).status, 409);
+  });
+});
+
+describe("replay rate limit", () => {
+  it("turns a player away once they send too many runs in a minute", async () => {
+    const send = await signUp("spammer");
+    const statuses: number[] = [];
+    for (let i = 0; i < 31; i++) statuses.push((await send("POST", "/api/highscores", {})).status);
+    assert.deepEqual(statuses.slice(0, 30), new Array(30).fill(400));
+    assert.equal(statuses[30], 429);
+
+    // Other players aren't held up by it
+    const other = await signUp("bystander");
+    assert.equal((await other("POST", "/api/highscores", {})).status, 400);
+  });
+});
@@ -1,35 +1,556 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertHighScoreSchema } from "@shared/schema";
+import { requireAuth, setupAuth } from "./auth";
+import { limitPerUser } from "./rate-limit";
+import { getDailyChallenge, getDailyDate } from "./daily";
+import {
+  bankRunSchema,
+  dailyLeaderboardQuerySchema,
+  leaderboardQuerySchema,
+  levelLeaderboardQuerySchema,
+  levelListQuerySchema,
+  publishLevelSchema,
+  purchaseCharacterSchema,
+  purchaseUpgradeSchema,
+  rateLevelSchema,
+  submitHighScoreSchema,
+  type DailyChallengeStatus,
+  type SubmitHighScore,
+} from "@shared/schema";
+import { getReplayTickCount, runReplay, type Replay, type ReplayResult } from "@shared/engine/replay";
+import { hashSeed } from "@shared/engine/rng";
+import { SIMULATION_HZ } from "@shared/engine/constants";
+import { UPGRADE_IDS, ownsUpgrades } from "@shared/engine/upgrades";
+import { getUpgradeCost, ownsCharacter, purchaseCharacter, purchaseUpgrade, type SaveProfile } from "@shared/profile";
+import { levelSchema, type Level } from "@shared/engine/level";
+import { getStoryLevel } from "@shared/story";
+
+// Level ids nobody can publish under, besides the story's own
+const RESERVED_LEVEL_IDS = ["drafts"];
+// Requests a player may make per minute to the routes that re-simulate a
+// replay. Each finished run makes one or two (banking it and posting its score).
+const REPLAY_REQUESTS_PER_MINUTE = 30;
+// Allowance for the request that started a daily attempt reaching the server
+// after the run's first ticks
+const ATTEMPT_SLACK_SECONDS = 5;
+
+// The level a replay was recorded on: null for the endless run, undefined if
+// it names a level that is neither in the story nor published
+async function getReplayLevel(replay: Replay): Promise<Level | null | undefined> {
+  if (replay.levelId === undefined) return null;
+  return getStoryLevel(replay.levelId) ?? (await storage.getCommunityLevel(replay.levelId))?.level;
+}
+
+// Re-simulate a replay; null unless it plays through to the end of the run
+// with no input left over (or it names a level that doesn't exist).
+async function verifyReplay(replay: Replay): Promise<ReplayResult | null> {
+  const level = await getReplayLevel(replay);
+  if (level === undefined) return null;
+  const result = runReplay(replay, level);
+  const finished = result.status !== "running" && result.ticks === getReplayTickCount(replay);
+  return finished ? result : null;
+}
+
+// Never trust the client's numbers: replay the run and keep what the simulation
+// produces. Returns null if that doesn't match the claimed result.
+async function verifySubmission({ replay, ...claimed }: SubmitHighScore): Promise<ReplayResult | null> {
+  const result = await verifyReplay(replay);
+  const reproduced =
+    result !== null &&
+    result.score === claimed.score &&
+    result.distance === claimed.distance &&
+    result.coins === claimed.coins;
+  return reproduced ? result : null;
+}
+
+// Why a replay can't count for this player, or null if they own everything it uses
+function getLoadoutError(profile: SaveProfile, replay: Replay): string | null {
+  if (!ownsUpgrades(profile.upgrades, replay.upgrades)) return "Replay uses upgrades you don't own";
+  if (!ownsCharacter(profile, replay.character)) return "Replay uses a character you haven't unlocked";
+  return null;
+}
+
+// Why a run doesn't prove that a level can be beaten, or null if it does. It
+// has to reach the helicopter on that exact layout as the classic runner with
+// no upgrades or modifiers, so anyone who downloads the level could do the same.
+function getSolutionError(level: Level, replay: Replay): string | null {
+  if (replay.levelId !== level.id) return "Replay was recorded on a different level";
+  if (replay.character !== "classic") return "The winning run has to use the classic runner";
+  if (replay.modifiers.length > 0) return "The winning run can't use modifiers";
+  if (UPGRADE_IDS.some((id) => replay.upgrades[id] > 0)) return "The winning run can't use upgrades";
+  const result = runReplay(replay, level);
+  if (result.status !== "escaped" || result.ticks !== getReplayTickCount(replay)) {
+    return "Replay doesn't reach the helicopter, so the level may not be beatable";
+  }
+  return null;
+}
+
+// Identifies a run for banking, so the same replay can't be cashed in twice
+function getRunKey(replay: Replay) {
+  const run = `${replay.seed}:${hashSeed(JSON.stringify(replay.inputs))}`;
+  return replay.levelId === undefined ? run : `${replay.levelId}:${run}`;
+}
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  setupAuth(app);
+  // Shared by every route that re-simulates, since that's the cost being limited
+  const limitReplays = limitPerUser(REPLAY_REQUESTS_PER_MINUTE, 60 * 1000);
+
   app.get("/api/highscores", async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 10;
-      const scores = await storage.getHighScores(limit);
-      res.json(scores);
+      const parseResult = leaderboardQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid leaderboard query", details: parseResult.error.errors });
+      }
+
+      const page = await storage.getLeaderboard(parseResult.data);
+      res.json(page);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch high scores" });
     }
   });
 
-  app.post("/api/highscores", async (req, res) => {
+  app.post("/api/highscores", requireAuth, limitReplays, async (req, res) => {
     try {
-      const parseResult = insertHighScoreSchema.safeParse(req.body);
+      const parseResult = submitHighScoreSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ error: "Invalid score data", details: parseResult.error.errors });
       }
-      
-      const newScore = await storage.createHighScore(parseResult.data);
+
+      // Modified runs (daily challenges) only count on their own leaderboard
+      if (parseResult.data.replay.modifiers.length > 0) {
+        return res.status(422).json({ error: "Runs with modifiers can't be posted to this leaderboard" });
+      }
+      if (parseResult.data.replay.levelId !== undefined) {
+        return res.status(422).json({ error: "Level runs can't be posted to this leaderboard" });
+      }
+
+      const loadoutError = getLoadoutError(await storage.getProfile(req.user!.id), parseResult.data.replay);
+      if (loadoutError) {
+        return res.status(422).json({ error: loadoutError });
+      }
+
+      const result = await verifySubmission(parseResult.data);
+      if (!result) {
+        return res.status(422).json({ error: "Replay does not reproduce the submitted score" });
+      }
+
+      const newScore = await storage.createHighScore({
+        userId: req.user!.id,
+        playerName: req.user!.username,
+        score: result.score,
+        distance: result.distance,
+        coins: result.coins,
+        character: parseResult.data.replay.character,
+        replay: parseResult.data.replay,
+      });
       res.status(201).json(newScore);
     } catch (error) {
       res.status(500).json({ error: "Failed to save high score" });
     }
   });
 
+  // Ghost data for a leaderboard entry
+  app.get("/api/highscores/:id/replay", async (req, res) => {
+    try {
+      const replay = await storage.getHighScoreReplay(req.params.id);
+      if (!replay) {
+        return res.status(404).json({ error: "Replay not found" });
+      }
+      res.json(replay);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch replay" });
+    }
+  });
+
+  app.get("/api/daily", async (req, res) => {
+    try {
+      const challenge = getDailyChallenge(getDailyDate());
+      const started = req.user ? await storage.getDailyAttempt(req.user.id, challenge.date) : undefined;
+      const attempt = req.user ? await storage.getDailyScore(req.user.id, challenge.date) : undefined;
+      const status: DailyChallengeStatus = { ...challenge, started: started !== undefined, attempt: attempt ?? null };
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch daily challenge" });
+    }
+  });
+
+  // Claims today's ranked attempt as the run starts; runs after it are practice
+  app.post("/api/daily/attempts", requireAuth, async (req, res) => {
+    try {
+      const attempt = await storage.startDailyAttempt(req.user!.id, getDailyDate());
+      if (!attempt) {
+        return res.status(409).json({ error: "You already have a ranked attempt today" });
+      }
+      res.status(201).json(attempt);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start daily attempt" });
+    }
+  });
+
+  app.get("/api/daily/scores", async (req, res) => {
+    try {
+      const parseResult = dailyLeaderboardQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid leaderboard query", details: parseResult.error.errors });
+      }
+
+      const { date = getDailyDate(), ...query } = parseResult.data;
+      const page = await storage.getDailyLeaderboard(date, query);
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch daily scores" });
+    }
+  });
+
+  app.get("/api/daily/scores/:id/replay", async (req, res) => {
+    try {
+      const replay = await storage.getDailyScoreReplay(req.params.id);
+      if (!replay) {
+        return res.status(404).json({ error: "Replay not found" });
+      }
+      res.json(replay);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch replay" });
+    }
+  });
+
+  app.post("/api/daily/scores", requireAuth, limitReplays, async (req, res) => {
+    try {
+      const parseResult = submitHighScoreSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid score data", details: parseResult.error.errors });
+      }
+
+      // Only today's challenge is ranked; a run that started before midnight UTC misses out
+      const challenge = getDailyChallenge(getDailyDate());
+      const { replay } = parseResult.data;
+      const isTodaysChallenge =
+        replay.seed === challenge.seed &&
+        replay.levelId === undefined &&
+        replay.modifiers.length === challenge.modifiers.length &&
+        challenge.modifiers.every((modifier) => replay.modifiers.includes(modifier));
+      if (!isTodaysChallenge) {
+        return res.status(422).json({ error: "Replay is not today's daily challenge" });
+      }
+      // Everyone plays the daily on equal terms; only the character is a free choice
+      if (UPGRADE_IDS.some((id) => replay.upgrades[id] > 0)) {
+        return res.status(422).json({ error: "Daily Heist runs can't use upgrades" });
+      }
+      if (!ownsCharacter(await storage.getProfile(req.user!.id), replay.character)) {
+        return res.status(422).json({ error: "Replay uses a character you haven't unlocked" });
+      }
+      // The ranked run is the one played since the attempt started, so it can't run longer than that
+      const attempt = await storage.getDailyAttempt(req.user!.id, challenge.date);
+      if (!attempt) {
+        return res.status(409).json({ error: "Start today's ranked attempt before posting a score" });
+      }
+      const elapsedTicks = ((Date.now() - attempt.startedAt.getTime()) / 1000 + ATTEMPT_SLACK_SECONDS) * SIMULATION_HZ;
+      if (getReplayTickCount(replay) > elapsedTicks) {
+        return res.status(422).json({ error: "Replay is longer than today's ranked attempt has been going" });
+      }
+
+      const result = await verifySubmission(parseResult.data);
+      if (!result) {
+        return res.status(422).json({ error: "Replay does not reproduce the submitted score" });
+      }
+
+      const dailyScore = await storage.createDailyScore({
+        userId: req.user!.id,
+        playerName: req.user!.username,
+        challengeDate: challenge.date,
+        score: result.score,
+        distance: result.distance,
+        coins: result.coins,
+        character: replay.character,
+        replay,
+      });
+      if (!dailyScore) {
+        return res.status(409).json({ error: "You already have a ranked attempt today" });
+      }
+      res.status(201).json(dailyScore);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save daily score" });
+    }
+  });
+
+  app.get("/api/profile", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getProfile(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch profile" });
+    }
+  });
+
+  // Bank the coins and stats from a finished run
+  app.post("/api/profile/runs", requireAuth, limitReplays, async (req, res) => {
+    try {
+      const parseResult = bankRunSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid run data", details: parseResult.error.errors });
+      }
+
+      const { replay } = parseResult.data;
+      const loadoutError = getLoadoutError(await storage.getProfile(req.user!.id), replay);
+      if (loadoutError) {
+        return res.status(422).json({ error: loadoutError });
+      }
+      // Turned away before re-simulating, which is the expensive part; bankRun
+      // still settles two deposits of the same run at once
+      const runKey = getRunKey(replay);
+      if (await storage.isRunBanked(req.user!.id, runKey)) {
+        return res.status(409).json({ error: "This run was already banked" });
+      }
+      const result = await verifyReplay(replay);
+      if (!result) {
+        return res.status(422).json({ error: "Replay does not reproduce a finished run" });
+      }
+
+      const profile = await storage.bankRun(req.user!.id, runKey, result.stats);
+      if (!profile) {
+        return res.status(409).json({ error: "This run was already banked" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to bank run" });
+    }
+  });
+
+  app.post("/api/profile/upgrades", requireAuth, async (req, res) => {
+    try {
+      const parseResult = purchaseUpgradeSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid upgrade", details: parseResult.error.errors });
+      }
+
+      const { upgrade } = parseResult.data;
+      const current = await storage.getProfile(req.user!.id);
+      const cost = getUpgradeCost(current, upgrade);
+      if (cost === null) {
+        return res.status(409).json({ error: "Upgrade is already maxed out" });
+      }
+
+      // Re-checked inside the update in case coins were spent in the meantime
+      const profile = await storage.updateProfile(req.user!.id, (latest) => purchaseUpgrade(latest, upgrade));
+      if (!profile) {
+        return res.status(409).json({ error: "Not enough coins" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to buy upgrade" });
+    }
+  });
+
+  app.post("/api/profile/characters", requireAuth, async (req, res) => {
+    try {
+      const parseResult = purchaseCharacterSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid character", details: parseResult.error.errors });
+      }
+
+      const { character } = parseResult.data;
+      const current = await storage.getProfile(req.user!.id);
+      if (ownsCharacter(current, character)) {
+        return res.status(409).json({ error: "Character is already unlocked" });
+      }
+
+      const profile = await storage.updateProfile(req.user!.id, (latest) => purchaseCharacter(latest, character));
+      if (!profile) {
+        return res.status(409).json({ error: "Not enough coins" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unlock character" });
+    }
+  });
+
+  app.get("/api/levels/drafts", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getLevelDrafts(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch level drafts" });
+    }
+  });
+
+  app.get("/api/levels/drafts/:id", requireAuth, async (req, res) => {
+    try {
+      const level = await storage.getLevelDraft(req.user!.id, req.params.id);
+      if (!level) {
+        return res.status(404).json({ error: "Level draft not found" });
+      }
+      res.json(level);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch level draft" });
+    }
+  });
+
+  // Save from the editor; the body is a level file, which must be valid
+  app.put("/api/levels/drafts/:id", requireAuth, async (req, res) => {
+    try {
+      const parseResult = levelSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid level", details: parseResult.error.errors });
+      }
+      if (parseResult.data.id !== req.params.id) {
+        return res.status(400).json({ error: "Level id doesn't match the URL" });
+      }
+
+      res.json(await storage.saveLevelDraft(req.user!.id, parseResult.data));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save level draft" });
+    }
+  });
+
+  // Published levels. These come after the drafts routes so /api/levels/drafts
+  // isn't taken for a level id.
+  app.get("/api/levels", async (req, res) => {
+    try {
+      const parseResult = levelListQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid level query", details: parseResult.error.errors });
+      }
+
+      res.json(await storage.getCommunityLevels(parseResult.data));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch levels" });
+    }
+  });
+
+  // Publish a level. The body carries a winning run on it, re-simulated here
+  // so nobody can upload a level that can't be finished.
+  app.post("/api/levels", requireAuth, limitReplays, async (req, res) => {
+    try {
+      const parseResult = publishLevelSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid level", details: parseResult.error.errors });
+      }
+
+      const { level, replay } = parseResult.data;
+      if (RESERVED_LEVEL_IDS.includes(level.id) || getStoryLevel(level.id)) {
+        return res.status(409).json({ error: "That level id is reserved" });
+      }
+      const solutionError = getSolutionError(level, replay);
+      if (solutionError) {
+        return res.status(422).json({ error: solutionError });
+      }
+
+      // Published levels never change, so an id can only be used once
+      const published = await storage.createCommunityLevel({
+        id: level.id,
+        authorId: req.user!.id,
+        authorName: req.user!.username,
+        data: level,
+      });
+      if (!published) {
+        return res.status(409).json({ error: "A level with that id is already published" });
+      }
+      res.status(201).json(published);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to publish level" });
+    }
+  });
+
+  app.get("/api/levels/:id", async (req, res) => {
+    try {
+      const level = await storage.getCommunityLevel(req.params.id);
+      if (!level) {
+        return res.status(404).json({ error: "Level not found" });
+      }
+      res.json(level);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch level" });
+    }
+  });
+
+  app.post("/api/levels/:id/ratings", requireAuth, async (req, res) => {
+    try {
+      const parseResult = rateLevelSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid rating", details: parseResult.error.errors });
+      }
+
+      const level = await storage.getCommunityLevel(req.params.id);
+      if (!level) {
+        return res.status(404).json({ error: "Level not found" });
+      }
+      if (level.authorId === req.user!.id) {
+        return res.status(403).json({ error: "You can't rate your own level" });
+      }
+
+      const rated = await storage.rateCommunityLevel(level.id, req.user!.id, parseResult.data.stars);
+      if (!rated) {
+        return res.status(404).json({ error: "Level not found" });
+      }
+      res.json(rated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rate level" });
+    }
+  });
+
+  app.get("/api/levels/:id/scores", async (req, res) => {
+    try {
+      const parseResult = levelLeaderboardQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid leaderboard query", details: parseResult.error.errors });
+      }
+
+      res.json(await storage.getLevelLeaderboard(req.params.id, parseResult.data));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch level scores" });
+    }
+  });
+
+  // Only escapes are ranked, and each player keeps their best one
+  app.post("/api/levels/:id/scores", requireAuth, limitReplays, async (req, res) => {
+    try {
+      const parseResult = submitHighScoreSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ error: "Invalid score data", details: parseResult.error.errors });
+      }
+
+      const { replay } = parseResult.data;
+      if (replay.levelId !== req.params.id || !(await storage.getCommunityLevel(req.params.id))) {
+        return res.status(422).json({ error: "Replay is not a run on this level" });
+      }
+      if (replay.modifiers.length > 0) {
+        return res.status(422).json({ error: "Runs with modifiers can't be posted to this leaderboard" });
+      }
+
+      const loadoutError = getLoadoutError(await storage.getProfile(req.user!.id), replay);
+      if (loadoutError) {
+        return res.status(422).json({ error: loadoutError });
+      }
+
+      const result = await verifySubmission(parseResult.data);
+      if (!result) {
+        return res.status(422).json({ error: "Replay does not reproduce the submitted score" });
+      }
+      if (result.status !== "escaped") {
+        return res.status(422).json({ error: "Only runs that reach the helicopter are ranked" });
+      }
+
+      const levelScore = await storage.saveLevelScore({
+        levelId: req.params.id,
+        userId: req.user!.id,
+        playerName: req.user!.username,
+        score: result.score,
+        distance: result.distance,
+        coins: result.coins,
+        character: replay.character,
+        replay,
+      });
+      if (!levelScore) {
+        return res.status(409).json({ error: "You already have a better run on this level" });
+      }
+      res.status(201).json(levelScore);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save level score" });
+    }
+  });
+
   return httpServer;
 }
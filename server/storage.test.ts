@@ -0,0 +1,226 @@
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite, type PGliteInterface } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { createRunStats } from "@shared/engine/stats";
+import { purchaseUpgrade } from "@shared/profile";
+import { STORY_LEVELS } from "@shared/story";
+import type { Database } from "./db";
+import { DbStorage, getPeriodStart } from "./storage";
+
+// DbStorage against an in-process Postgres (PGlite). The migrations run once
+// into a template database, and every test starts from an empty copy of it.
+
+let template: PGlite;
+let client: PGliteInterface;
+let db: Database;
+let storage: DbStorage;
+// SQL the storage sent, for checking how it locks
+let queries: string[];
+
+before(async () => {
+  template = new PGlite();
+  await migrate(drizzle(template), { migrationsFolder: "migrations" });
+});
+
+after(() => template.close());
+
+beforeEach(async () => {
+  client = await template.clone();
+  queries = [];
+  const pglite = drizzle(client as PGlite, { schema, logger: { logQuery: (query) => queries.push(query) } });
+  db = pglite as unknown as Database;
+  storage = new DbStorage(db);
+});
+
+afterEach(() => client.close());
+
+async function createUser(username: string) {
+  const user = await storage.createUser({ username, password: "hash" });
+  assert.ok(user);
+  return user;
+}
+
+const run = { distance: 100, coins: 5 };
+
+describe("users", () => {
+  it("treats names that differ only in case as one account", async () => {
+    const alice = await createUser("Alice");
+    assert.equal(await storage.createUser({ username: "alice", password: "hash" }), undefined);
+    assert.equal((await storage.getUserByUsername("ALICE"))?.id, alice.id);
+  });
+});
+
+describe("getLeaderboard", () => {
+  const now = new Date();
+  const dayStart = getPeriodStart("day", now)!;
+  const weekStart = getPeriodStart("week", now)!;
+
+  async function addScore(playerName: string, score: number, createdAt: Date) {
+    await db.insert(schema.highScores).values({ playerName, score, ...run, createdAt });
+  }
+
+  it("only counts runs inside the period", async () => {
+    await addScore("today", 300, now);
+    await addScore("yesterday", 200, new Date(dayStart.getTime() - 1));
+    await addScore("last week", 100, new Date(weekStart.getTime() - 1));
+
+    const day = await storage.getLeaderboard({ period: "day", limit: 10, offset: 0 });
+    assert.deepEqual(day.entries.map((entry) => entry.playerName), ["today"]);
+
+    // Yesterday is still this week unless today is a Monday
+    const week = await storage.getLeaderboard({ period: "week", limit: 10, offset: 0 });
+    const expectedWeek = dayStart > weekStart ? ["today", "yesterday"] : ["today"];
+    assert.deepEqual(week.entries.map((entry) => entry.playerName), expectedWeek);
+
+    const all = await storage.getLeaderboard({ period: "all", limit: 10, offset: 0 });
+    assert.deepEqual(all.entries.map((entry) => entry.playerName), ["today", "yesterday", "last week"]);
+  });
+
+  it("ranks each player's best run once", async () => {
+    await addScore("ann", 100, now);
+    await addScore("ann", 500, now);
+    await addScore("bob", 300, now);
+
+    const page = await storage.getLeaderboard({ period: "all", limit: 10, offset: 0 });
+    assert.equal(page.total, 2);
+    assert.deepEqual(
+      page.entries.map(({ playerName, score, rank }) => ({ playerName, score, rank })),
+      [
+        { playerName: "ann", score: 500, rank: 1 },
+        { playerName: "bob", score: 300, rank: 2 },
+      ],
+    );
+  });
+
+  it("centres the page on the player named by around", async () => {
+    for (let i = 1; i <= 10; i++) await addScore(`p${i}`, 1000 - i, now);
+
+    const page = await storage.getLeaderboard({ period: "all", limit: 4, offset: 0, around: "P7" });
+    assert.equal(page.offset, 4);
+    assert.deepEqual(page.entries.map((entry) => entry.rank), [5, 6, 7, 8]);
+
+    // Near the top the page can't start before the first entry
+    const top = await storage.getLeaderboard({ period: "all", limit: 4, offset: 0, around: "p1" });
+    assert.equal(top.offset, 0);
+
+    // An unknown player leaves the requested offset alone
+    const unknown = await storage.getLeaderboard({ period: "all", limit: 4, offset: 8, around: "nobody" });
+    assert.equal(unknown.offset, 8);
+  });
+});
+
+describe("getPeriodStart", () => {
+  it("starts days at UTC midnight and weeks on Monday", () => {
+    // A Thursday afternoon
+    const now = new Date("2026-10-15T15:30:00Z");
+    assert.equal(getPeriodStart("day", now)?.toISOString(), "2026-10-15T00:00:00.000Z");
+    assert.equal(getPeriodStart("week", now)?.toISOString(), "2026-10-12T00:00:00.000Z");
+    assert.equal(getPeriodStart("week", new Date("2026-10-18T23:59:00Z"))?.toISOString(), "2026-10-12T00:00:00.000Z");
+    assert.equal(getPeriodStart("all", now), null);
+  });
+});
+
+describe("createDailyScore", () => {
+  it("ranks only the first attempt of the day", async () => {
+    const user = await createUser("daily");
+    const attempt = { userId: user.id, playerName: user.username, challengeDate: "2026-10-15", ...run };
+
+    const first = await storage.createDailyScore({ ...attempt, score: 100 });
+    assert.ok(first);
+    assert.equal(await storage.createDailyScore({ ...attempt, score: 900 }), undefined);
+    assert.equal((await storage.getDailyScore(user.id, "2026-10-15"))?.score, 100);
+
+    // The next day is a new attempt
+    assert.ok(await storage.createDailyScore({ ...attempt, challengeDate: "2026-10-16", score: 50 }));
+  });
+
+  it("lets only one of two simultaneous attempts through", async () => {
+    const user = await createUser("racer");
+    const attempt = { userId: user.id, playerName: user.username, challengeDate: "2026-10-15", ...run };
+    const results = await Promise.all([
+      storage.createDailyScore({ ...attempt, score: 100 }),
+      storage.createDailyScore({ ...attempt, score: 200 }),
+    ]);
+    assert.equal(results.filter(Boolean).length, 1);
+  });
+});
+
+describe("startDailyAttempt", () => {
+  it("starts one ranked attempt per player per day", async () => {
+    const user = await createUser("starter");
+    const results = await Promise.all([
+      storage.startDailyAttempt(user.id, "2026-10-15"),
+      storage.startDailyAttempt(user.id, "2026-10-15"),
+    ]);
+    assert.equal(results.filter(Boolean).length, 1);
+    assert.ok(await storage.getDailyAttempt(user.id, "2026-10-15"));
+
+    // The next day is a new attempt
+    assert.ok(await storage.startDailyAttempt(user.id, "2026-10-16"));
+  });
+});
+
+describe("bankRun", () => {
+  it("banks a run once", async () => {
+    const user = await createUser("banker");
+    const stats = { ...createRunStats(), runs: 1, coins: 40 };
+
+    assert.equal((await storage.bankRun(user.id, "run-1", stats))?.coins, 40);
+    assert.equal(await storage.bankRun(user.id, "run-1", stats), undefined);
+    assert.equal((await storage.getProfile(user.id)).coins, 40);
+
+    assert.equal((await storage.bankRun(user.id, "run-2", stats))?.coins, 80);
+  });
+
+  it("keeps every deposit when runs are banked at the same time", async () => {
+    const user = await createUser("rush");
+    const stats = { ...createRunStats(), runs: 1, coins: 10 };
+    await Promise.all(Array.from({ length: 5 }, (_, i) => storage.bankRun(user.id, `run-${i}`, stats)));
+    assert.equal((await storage.getProfile(user.id)).coins, 50);
+  });
+});
+
+describe("updateProfile", () => {
+  it("locks the profile row while changing it", async () => {
+    const user = await createUser("locker");
+    await storage.updateProfile(user.id, (profile) => ({ ...profile, coins: 10 }));
+    const read = queries.findIndex((query) => query.includes('from "profiles"'));
+    assert.match(queries[read] ?? "", /for update/);
+    // A player's first change has no row to lock until the default one goes in
+    const insert = queries.findIndex((query) => query.startsWith('insert into "profiles"'));
+    assert.match(queries[insert] ?? "", /on conflict do nothing/);
+    assert.ok(insert < read);
+  });
+
+  it("saves nothing when the change is refused", async () => {
+    const user = await createUser("broke");
+    await storage.bankRun(user.id, "run", { ...createRunStats(), runs: 1, coins: 10 });
+    // Far too few coins for anything in the shop
+    assert.equal(await storage.updateProfile(user.id, (profile) => purchaseUpgrade(profile, "glide")), undefined);
+    assert.equal((await storage.getProfile(user.id)).coins, 10);
+  });
+});
+
+describe("saveLevelScore", () => {
+  const level = STORY_LEVELS[0];
+
+  it("keeps each player's best run on a level", async () => {
+    const author = await createUser("author");
+    const player = await createUser("player");
+    assert.ok(await storage.createCommunityLevel({ id: level.id, authorId: author.id, authorName: author.username, data: level }));
+    const entry = { levelId: level.id, userId: player.id, playerName: player.username, ...run };
+
+    assert.equal((await storage.saveLevelScore({ ...entry, score: 500 }))?.score, 500);
+    // A worse or equal run is turned down and the best one stays
+    assert.equal(await storage.saveLevelScore({ ...entry, score: 400 }), undefined);
+    assert.equal(await storage.saveLevelScore({ ...entry, score: 500 }), undefined);
+    assert.equal((await storage.saveLevelScore({ ...entry, score: 700 }))?.score, 700);
+
+    const page = await storage.getLevelLeaderboard(level.id, { limit: 10, offset: 0 });
+    assert.equal(page.total, 1);
+    assert.equal(page.entries[0].score, 700);
+  });
+});
@@ -1,21 +1,173 @@
-import { type User, type InsertUser, type HighScore, type InsertHighScore } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type HighScore,
+  type InsertHighScore,
+  type LeaderboardPage,
+  type LeaderboardPeriod,
+  type LeaderboardQuery,
+  type DailyAttempt,
+  type DailyScore,
+  type InsertDailyScore,
+  type DailyLeaderboardPage,
+  type DailyLeaderboardQuery,
+  type LevelDraftSummary,
+  type CommunityLevel,
+  type CommunityLevelPage,
+  type CommunityLevelRow,
+  type CommunityLevelSummary,
+  type InsertCommunityLevel,
+  type LevelListQuery,
+  type LevelScore,
+  type InsertLevelScore,
+  type LevelLeaderboardPage,
+  type LevelLeaderboardQuery,
+  users,
+  highScores,
+  dailyScores,
+  dailyAttempts,
+  profiles,
+  bankedRuns,
+  levelDrafts,
+  communityLevels,
+  levelRatings,
+  levelScores,
+} from "@shared/schema";
+import type { Level } from "@shared/engine/level";
+import type { Replay } from "@shared/engine/replay";
+import type { RunStats } from "@shared/engine/stats";
+import { addRunToProfile, createSaveProfile, parseSaveProfile, type SaveProfile } from "@shared/profile";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, getTableColumns, gte, sql } from "drizzle-orm";
+import { db, type Database } from "./db";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
+  // Usernames are matched ignoring case, so "Alice" and "alice" are one account
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  getHighScores(limit?: number): Promise<HighScore[]>;
+  // Resolves to undefined if the username is taken
+  createUser(user: InsertUser): Promise<User | undefined>;
+  getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardPage>;
   createHighScore(score: InsertHighScore): Promise<HighScore>;
+  getHighScoreReplay(id: string): Promise<Replay | undefined>;
+  getDailyAttempt(userId: string, date: string): Promise<DailyAttempt | undefined>;
+  // Resolves to undefined if the player already started a ranked attempt that day
+  startDailyAttempt(userId: string, date: string): Promise<DailyAttempt | undefined>;
+  getDailyScore(userId: string, date: string): Promise<DailyScore | undefined>;
+  // Resolves to undefined if the player already has a ranked attempt that day
+  createDailyScore(score: InsertDailyScore): Promise<DailyScore | undefined>;
+  getDailyLeaderboard(date: string, query: Omit<DailyLeaderboardQuery, "date">): Promise<DailyLeaderboardPage>;
+  getDailyScoreReplay(id: string): Promise<Replay | undefined>;
+  // A fresh profile for players who have never saved one
+  getProfile(userId: string): Promise<SaveProfile>;
+  // Applies `change` to the stored profile atomically. Resolves to undefined
+  // (saving nothing) if `change` returns null.
+  updateProfile(userId: string, change: (profile: SaveProfile) => SaveProfile | null): Promise<SaveProfile | undefined>;
+  isRunBanked(userId: string, runKey: string): Promise<boolean>;
+  // Adds a finished run's coins and stats once; resolves to undefined if `runKey` was banked before
+  bankRun(userId: string, runKey: string, stats: RunStats): Promise<SaveProfile | undefined>;
+  // The player's editor drafts, most recently saved first
+  getLevelDrafts(userId: string): Promise<LevelDraftSummary[]>;
+  getLevelDraft(userId: string, levelId: string): Promise<Level | undefined>;
+  // Creates the draft or overwrites the player's draft with the same level id
+  saveLevelDraft(userId: string, level: Level): Promise<LevelDraftSummary>;
+  getCommunityLevels(query: LevelListQuery): Promise<CommunityLevelPage>;
+  getCommunityLevel(id: string): Promise<CommunityLevel | undefined>;
+  // Resolves to undefined if a community level already has that id
+  createCommunityLevel(level: InsertCommunityLevel): Promise<CommunityLevelSummary | undefined>;
+  // Sets or replaces the player's rating; resolves to undefined if there's no such level
+  rateCommunityLevel(levelId: string, userId: string, stars: number): Promise<CommunityLevelSummary | undefined>;
+  // Keeps each player's best run per level; resolves to undefined if their
+  // existing run scored at least as much
+  saveLevelScore(score: InsertLevelScore): Promise<LevelScore | undefined>;
+  getLevelLeaderboard(levelId: string, query: LevelLeaderboardQuery): Promise<LevelLeaderboardPage>;
+}
+
+// Start of the leaderboard window in UTC, or null for all-time
+export function getPeriodStart(period: LeaderboardPeriod, now: Date = new Date()): Date | null {
+  if (period === "all") return null;
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === "week") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return start;
+}
+
+// Offset that puts the entry at `index` in the middle of a page
+function centredOffset(index: number, limit: number) {
+  return Math.max(0, index - Math.floor(limit / 2));
+}
+
+// Higher score first; on a tie the earlier run ranks higher
+function compareScores(a: { score: number; createdAt: Date }, b: { score: number; createdAt: Date }) {
+  return b.score - a.score || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+// Slice one page out of an already ranked list; replays stay out of listings
+function rankedPage<T extends { playerName: string; replay: Replay | null }>(
+  ranked: T[],
+  { limit, offset, around }: { limit: number; offset: number; around?: string },
+) {
+  if (around) {
+    const index = ranked.findIndex(s => s.playerName.toLowerCase() === around.toLowerCase());
+    if (index >= 0) offset = centredOffset(index, limit);
+  }
+
+  return {
+    total: ranked.length,
+    offset,
+    entries: ranked
+      .slice(offset, offset + limit)
+      .map(({ replay, ...score }, i) => ({ ...score, rank: offset + i + 1 })),
+  };
+}
+
+// A published level's listing, with its name and settings read out of the layout
+function summarizeLevel({ data, ...row }: CommunityLevelRow, rating: number | null, ratings: number): CommunityLevelSummary {
+  return {
+    ...row,
+    name: data.name,
+    description: data.description,
+    biome: data.biome,
+    chase: data.chase,
+    rating,
+    ratings,
+  };
+}
+
+// "top": best average first, rated levels before unrated ones, then the most
+// ratings. Newest first breaks ties, and is the whole order for "new".
+function compareLevels(sort: LevelListQuery["sort"]) {
+  return (a: CommunityLevelSummary, b: CommunityLevelSummary) => {
+    const byRating = sort === "top" ? (b.rating ?? -1) - (a.rating ?? -1) || b.ratings - a.ratings : 0;
+    return byRating || b.createdAt.getTime() - a.createdAt.getTime();
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private highScores: Map<string, HighScore>;
+  private dailyScores: Map<string, DailyScore>;
+  private dailyAttempts: Map<string, DailyAttempt>;
+  private profiles: Map<string, SaveProfile>;
+  private bankedRuns: Set<string>;
+  private levelDrafts: Map<string, { userId: string; level: Level; updatedAt: Date }>;
+  private communityLevels: Map<string, CommunityLevelRow>;
+  private levelRatings: Map<string, { levelId: string; stars: number }>;
+  private levelScores: Map<string, LevelScore>;
 
   constructor() {
     this.users = new Map();
     this.highScores = new Map();
+    this.dailyScores = new Map();
+    this.dailyAttempts = new Map();
+    this.profiles = new Map();
+    this.bankedRuns = new Set();
+    this.levelDrafts = new Map();
+    this.communityLevels = new Map();
+    this.levelRatings = new Map();
+    this.levelScores = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -24,51 +176,539 @@ export class MemStorage implements IStorage {
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.username === username,
+      (user) => user.username.toLowerCase() === username.toLowerCase(),
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    if (await this.getUserByUsername(insertUser.username)) return undefined;
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
 
-  async getHighScores(limit: number = 10): Promise<HighScore[]> {
-    const scores = Array.from(this.highScores.values());
-    return scores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+  async getLeaderboard({ period, ...page }: LeaderboardQuery): Promise<LeaderboardPage> {
+    const start = getPeriodStart(period);
+
+    // Each player's best run in the period
+    const best = new Map<string, HighScore>();
+    for (const score of Array.from(this.highScores.values())) {
+      if (start && score.createdAt < start) continue;
+      const key = score.userId ?? score.playerName.toLowerCase();
+      const current = best.get(key);
+      if (!current || compareScores(score, current) < 0) {
+        best.set(key, score);
+      }
+    }
+    const ranked = Array.from(best.values()).sort(compareScores);
+    return { period, ...rankedPage(ranked, page) };
   }
 
   async createHighScore(insertScore: InsertHighScore): Promise<HighScore> {
-    // Check if player already has a score - only keep their best
-    const existingScores = Array.from(this.highScores.values());
-    const existingPlayerScore = existingScores.find(
-      s => s.playerName.toLowerCase() === insertScore.playerName.toLowerCase()
+    // Every run is kept; leaderboards pick each player's best per period
+    const id = randomUUID();
+    const highScore: HighScore = {
+      ...insertScore,
+      userId: insertScore.userId ?? null,
+      character: insertScore.character ?? "classic",
+      replay: insertScore.replay ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.highScores.set(id, highScore);
+    return highScore;
+  }
+
+  async getHighScoreReplay(id: string): Promise<Replay | undefined> {
+    return this.highScores.get(id)?.replay ?? undefined;
+  }
+
+  async getDailyAttempt(userId: string, date: string): Promise<DailyAttempt | undefined> {
+    return this.dailyAttempts.get(`${userId}:${date}`);
+  }
+
+  async startDailyAttempt(userId: string, date: string): Promise<DailyAttempt | undefined> {
+    if (await this.getDailyAttempt(userId, date)) return undefined;
+    const attempt: DailyAttempt = { userId, challengeDate: date, startedAt: new Date() };
+    this.dailyAttempts.set(`${userId}:${date}`, attempt);
+    return attempt;
+  }
+
+  async getDailyScore(userId: string, date: string): Promise<DailyScore | undefined> {
+    return Array.from(this.dailyScores.values()).find(
+      (score) => score.userId === userId && score.challengeDate === date,
     );
+  }
 
-    if (existingPlayerScore) {
-      // Only update if new score is higher
-      if (insertScore.score > existingPlayerScore.score) {
-        const updatedScore: HighScore = {
-          ...insertScore,
-          id: existingPlayerScore.id
-        };
-        this.highScores.set(existingPlayerScore.id, updatedScore);
-        return updatedScore;
-      }
-      // Return existing score if new one isn't higher
-      return existingPlayerScore;
+  async createDailyScore(insertScore: InsertDailyScore): Promise<DailyScore | undefined> {
+    if (await this.getDailyScore(insertScore.userId, insertScore.challengeDate)) return undefined;
+    const id = randomUUID();
+    const dailyScore: DailyScore = {
+      ...insertScore,
+      character: insertScore.character ?? "classic",
+      replay: insertScore.replay ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.dailyScores.set(id, dailyScore);
+    return dailyScore;
+  }
+
+  async getDailyLeaderboard(date: string, page: Omit<DailyLeaderboardQuery, "date">): Promise<DailyLeaderboardPage> {
+    const ranked = Array.from(this.dailyScores.values())
+      .filter((score) => score.challengeDate === date)
+      .sort(compareScores);
+    return { date, ...rankedPage(ranked, page) };
+  }
+
+  async getDailyScoreReplay(id: string): Promise<Replay | undefined> {
+    return this.dailyScores.get(id)?.replay ?? undefined;
+  }
+
+  async getProfile(userId: string): Promise<SaveProfile> {
+    return this.profiles.get(userId) ?? createSaveProfile();
+  }
+
+  async updateProfile(userId: string, change: (profile: SaveProfile) => SaveProfile | null): Promise<SaveProfile | undefined> {
+    const updated = change(await this.getProfile(userId));
+    if (!updated) return undefined;
+    this.profiles.set(userId, updated);
+    return updated;
+  }
+
+  async isRunBanked(userId: string, runKey: string): Promise<boolean> {
+    return this.bankedRuns.has(`${userId}:${runKey}`);
+  }
+
+  async bankRun(userId: string, runKey: string, stats: RunStats): Promise<SaveProfile | undefined> {
+    const key = `${userId}:${runKey}`;
+    if (this.bankedRuns.has(key)) return undefined;
+    this.bankedRuns.add(key);
+    return this.updateProfile(userId, (profile) => addRunToProfile(profile, stats));
+  }
+
+  async getLevelDrafts(userId: string): Promise<LevelDraftSummary[]> {
+    return Array.from(this.levelDrafts.values())
+      .filter((draft) => draft.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(({ level, updatedAt }) => ({ levelId: level.id, name: level.name, updatedAt }));
+  }
+
+  async getLevelDraft(userId: string, levelId: string): Promise<Level | undefined> {
+    return this.levelDrafts.get(`${userId}:${levelId}`)?.level;
+  }
+
+  async saveLevelDraft(userId: string, level: Level): Promise<LevelDraftSummary> {
+    const updatedAt = new Date();
+    this.levelDrafts.set(`${userId}:${level.id}`, { userId, level, updatedAt });
+    return { levelId: level.id, name: level.name, updatedAt };
+  }
+
+  private summarizeLevel(row: CommunityLevelRow): CommunityLevelSummary {
+    const stars = Array.from(this.levelRatings.values())
+      .filter((rating) => rating.levelId === row.id)
+      .map((rating) => rating.stars);
+    const average = stars.length > 0 ? stars.reduce((sum, n) => sum + n, 0) / stars.length : null;
+    return summarizeLevel(row, average, stars.length);
+  }
+
+  async getCommunityLevels({ sort, limit, offset }: LevelListQuery): Promise<CommunityLevelPage> {
+    const levels = Array.from(this.communityLevels.values())
+      .map((row) => this.summarizeLevel(row))
+      .sort(compareLevels(sort));
+    return { total: levels.length, offset, levels: levels.slice(offset, offset + limit) };
+  }
+
+  async getCommunityLevel(id: string): Promise<CommunityLevel | undefined> {
+    const row = this.communityLevels.get(id);
+    return row && { ...this.summarizeLevel(row), level: row.data };
+  }
+
+  async createCommunityLevel(level: InsertCommunityLevel): Promise<CommunityLevelSummary | undefined> {
+    if (this.communityLevels.has(level.id)) return undefined;
+    const row: CommunityLevelRow = { ...level, createdAt: new Date() };
+    this.communityLevels.set(level.id, row);
+    return this.summarizeLevel(row);
+  }
+
+  async rateCommunityLevel(levelId: string, userId: string, stars: number): Promise<CommunityLevelSummary | undefined> {
+    const row = this.communityLevels.get(levelId);
+    if (!row) return undefined;
+    this.levelRatings.set(`${levelId}:${userId}`, { levelId, stars });
+    return this.summarizeLevel(row);
+  }
+
+  async saveLevelScore(insertScore: InsertLevelScore): Promise<LevelScore | undefined> {
+    const key = `${insertScore.levelId}:${insertScore.userId}`;
+    const current = this.levelScores.get(key);
+    if (current && current.score >= insertScore.score) return undefined;
+    const levelScore: LevelScore = {
+      ...insertScore,
+      character: insertScore.character ?? "classic",
+      replay: insertScore.replay ?? null,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.levelScores.set(key, levelScore);
+    return levelScore;
+  }
+
+  async getLevelLeaderboard(levelId: string, page: LevelLeaderboardQuery): Promise<LevelLeaderboardPage> {
+    const ranked = Array.from(this.levelScores.values())
+      .filter((score) => score.levelId === levelId)
+      .sort(compareScores);
+    return { levelId, ...rankedPage(ranked, page) };
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.username}) = lower(${username})`);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User | undefined> {
+    // The unique index on lower(username) settles concurrent registrations
+    const [user] = await this.db.insert(users).values(insertUser).onConflictDoNothing().returning();
+    return user;
+  }
+
+  async getLeaderboard({ period, limit, offset, around }: LeaderboardQuery): Promise<LeaderboardPage> {
+    const start = getPeriodStart(period);
+    const playerKey = sql`coalesce(${highScores.userId}, lower(${highScores.playerName}))`;
+    const { replay, ...columns } = getTableColumns(highScores);
+
+    // Each player's best run in the period, then ranked across players
+    const best = this.db
+      .selectDistinctOn([playerKey], columns)
+      .from(highScores)
+      .where(start ? gte(highScores.createdAt, start) : undefined)
+      .orderBy(playerKey, desc(highScores.score), asc(highScores.createdAt))
+      .as("best");
+    const ranked = this.db
+      .select({
+        id: best.id,
+        userId: best.userId,
+        playerName: best.playerName,
+        score: best.score,
+        distance: best.distance,
+        coins: best.coins,
+        character: best.character,
+        createdAt: best.createdAt,
+        rank: sql<number>`row_number() over (order by ${best.score} desc, ${best.createdAt} asc)`
+          .mapWith(Number)
+          .as("rank"),
+      })
+      .from(best)
+      .as("ranked");
+
+    if (around) {
+      const [player] = await this.db
+        .select({ rank: ranked.rank })
+        .from(ranked)
+        .where(sql`lower(${ranked.playerName}) = lower(${around})`)
+        .limit(1);
+      if (player) offset = centredOffset(player.rank - 1, limit);
     }
 
-    // New player - create new entry
-    const id = randomUUID();
-    const highScore: HighScore = { ...insertScore, id };
-    this.highScores.set(id, highScore);
+    const [{ total }] = await this.db.select({ total: count() }).from(best);
+    const entries = await this.db
+      .select()
+      .from(ranked)
+      .orderBy(ranked.rank)
+      .limit(limit)
+      .offset(offset);
+
+    return { period, total, offset, entries };
+  }
+
+  async createHighScore(insertScore: InsertHighScore): Promise<HighScore> {
+    // Every run is kept; leaderboards pick each player's best per period
+    const [highScore] = await this.db.insert(highScores).values(insertScore).returning();
     return highScore;
   }
+
+  async getHighScoreReplay(id: string): Promise<Replay | undefined> {
+    const [row] = await this.db
+      .select({ replay: highScores.replay })
+      .from(highScores)
+      .where(eq(highScores.id, id));
+    return row?.replay ?? undefined;
+  }
+
+  async getDailyAttempt(userId: string, date: string): Promise<DailyAttempt | undefined> {
+    const [attempt] = await this.db
+      .select()
+      .from(dailyAttempts)
+      .where(and(eq(dailyAttempts.userId, userId), eq(dailyAttempts.challengeDate, date)));
+    return attempt;
+  }
+
+  async startDailyAttempt(userId: string, date: string): Promise<DailyAttempt | undefined> {
+    // The (user, date) key settles two starts at once
+    const [attempt] = await this.db
+      .insert(dailyAttempts)
+      .values({ userId, challengeDate: date })
+      .onConflictDoNothing()
+      .returning();
+    return attempt;
+  }
+
+  async getDailyScore(userId: string, date: string): Promise<DailyScore | undefined> {
+    const [dailyScore] = await this.db
+      .select()
+      .from(dailyScores)
+      .where(and(eq(dailyScores.userId, userId), eq(dailyScores.challengeDate, date)));
+    return dailyScore;
+  }
+
+  async createDailyScore(insertScore: InsertDailyScore): Promise<DailyScore | undefined> {
+    // The unique (user, date) index settles concurrent submissions
+    const [dailyScore] = await this.db
+      .insert(dailyScores)
+      .values(insertScore)
+      .onConflictDoNothing()
+      .returning();
+    return dailyScore;
+  }
+
+  async getDailyLeaderboard(
+    date: string,
+    { limit, offset, around }: Omit<DailyLeaderboardQuery, "date">,
+  ): Promise<DailyLeaderboardPage> {
+    const { replay, ...columns } = getTableColumns(dailyScores);
+    const ranked = this.db
+      .select({
+        ...columns,
+        rank: sql<number>`row_number() over (order by ${dailyScores.score} desc, ${dailyScores.createdAt} asc)`
+          .mapWith(Number)
+          .as("rank"),
+      })
+      .from(dailyScores)
+      .where(eq(dailyScores.challengeDate, date))
+      .as("ranked");
+
+    if (around) {
+      const [player] = await this.db
+        .select({ rank: ranked.rank })
+        .from(ranked)
+        .where(sql`lower(${ranked.playerName}) = lower(${around})`)
+        .limit(1);
+      if (player) offset = centredOffset(player.rank - 1, limit);
+    }
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(dailyScores)
+      .where(eq(dailyScores.challengeDate, date));
+    const entries = await this.db
+      .select()
+      .from(ranked)
+      .orderBy(ranked.rank)
+      .limit(limit)
+      .offset(offset);
+
+    return { date, total, offset, entries };
+  }
+
+  async getDailyScoreReplay(id: string): Promise<Replay | undefined> {
+    const [row] = await this.db
+      .select({ replay: dailyScores.replay })
+      .from(dailyScores)
+      .where(eq(dailyScores.id, id));
+    return row?.replay ?? undefined;
+  }
+
+  async getProfile(userId: string): Promise<SaveProfile> {
+    const [row] = await this.db.select({ data: profiles.data }).from(profiles).where(eq(profiles.userId, userId));
+    return row ? parseSaveProfile(row.data) : createSaveProfile();
+  }
+
+  async updateProfile(userId: string, change: (profile: SaveProfile) => SaveProfile | null): Promise<SaveProfile | undefined> {
+    return this.db.transaction((tx) => applyProfileChange(tx, userId, change));
+  }
+
+  async isRunBanked(userId: string, runKey: string): Promise<boolean> {
+    const [banked] = await this.db
+      .select({ runKey: bankedRuns.runKey })
+      .from(bankedRuns)
+      .where(and(eq(bankedRuns.userId, userId), eq(bankedRuns.runKey, runKey)));
+    return banked !== undefined;
+  }
+
+  async bankRun(userId: string, runKey: string, stats: RunStats): Promise<SaveProfile | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [banked] = await tx.insert(bankedRuns).values({ userId, runKey }).onConflictDoNothing().returning();
+      if (!banked) return undefined;
+      return applyProfileChange(tx, userId, (profile) => addRunToProfile(profile, stats));
+    });
+  }
+
+  async getLevelDrafts(userId: string): Promise<LevelDraftSummary[]> {
+    return this.db
+      .select({
+        levelId: levelDrafts.levelId,
+        name: sql<string>`${levelDrafts.data}->>'name'`,
+        updatedAt: levelDrafts.updatedAt,
+      })
+      .from(levelDrafts)
+      .where(eq(levelDrafts.userId, userId))
+      .orderBy(desc(levelDrafts.updatedAt));
+  }
+
+  async getLevelDraft(userId: string, levelId: string): Promise<Level | undefined> {
+    const [row] = await this.db
+      .select({ data: levelDrafts.data })
+      .from(levelDrafts)
+      .where(and(eq(levelDrafts.userId, userId), eq(levelDrafts.levelId, levelId)));
+    return row?.data;
+  }
+
+  async saveLevelDraft(userId: string, level: Level): Promise<LevelDraftSummary> {
+    const updatedAt = new Date();
+    await this.db
+      .insert(levelDrafts)
+      .values({ userId, levelId: level.id, data: level, updatedAt })
+      .onConflictDoUpdate({ target: [levelDrafts.userId, levelDrafts.levelId], set: { data: level, updatedAt } });
+    return { levelId: level.id, name: level.name, updatedAt };
+  }
+
+  // Community levels joined with their ratings, one row per level
+  private selectLevels() {
+    return this.db
+      .select({
+        row: communityLevels,
+        rating: sql<number | null>`avg(${levelRatings.stars})::float8`,
+        ratings: count(levelRatings.stars),
+      })
+      .from(communityLevels)
+      .leftJoin(levelRatings, eq(levelRatings.levelId, communityLevels.id))
+      .groupBy(communityLevels.id)
+      .$dynamic();
+  }
+
+  async getCommunityLevels({ sort, limit, offset }: LevelListQuery): Promise<CommunityLevelPage> {
+    const order =
+      sort === "top"
+        ? [sql`avg(${levelRatings.stars}) desc nulls last`, desc(count(levelRatings.stars)), desc(communityLevels.createdAt)]
+        : [desc(communityLevels.createdAt)];
+    const [{ total }] = await this.db.select({ total: count() }).from(communityLevels);
+    const rows = await this.selectLevels().orderBy(...order).limit(limit).offset(offset);
+    return {
+      total,
+      offset,
+      levels: rows.map(({ row, rating, ratings }) => summarizeLevel(row, rating, ratings)),
+    };
+  }
+
+  async getCommunityLevel(id: string): Promise<CommunityLevel | undefined> {
+    const [found] = await this.selectLevels().where(eq(communityLevels.id, id));
+    return found && { ...summarizeLevel(found.row, found.rating, found.ratings), level: found.row.data };
+  }
+
+  async createCommunityLevel(level: InsertCommunityLevel): Promise<CommunityLevelSummary | undefined> {
+    const [row] = await this.db.insert(communityLevels).values(level).onConflictDoNothing().returning();
+    return row && summarizeLevel(row, null, 0);
+  }
+
+  async rateCommunityLevel(levelId: string, userId: string, stars: number): Promise<CommunityLevelSummary | undefined> {
+    const [exists] = await this.db
+      .select({ id: communityLevels.id })
+      .from(communityLevels)
+      .where(eq(communityLevels.id, levelId));
+    if (!exists) return undefined;
+    await this.db
+      .insert(levelRatings)
+      .values({ levelId, userId, stars })
+      .onConflictDoUpdate({ target: [levelRatings.levelId, levelRatings.userId], set: { stars, updatedAt: new Date() } });
+    const rated = await this.getCommunityLevel(levelId);
+    if (!rated) return undefined;
+    const { level, ...summary } = rated;
+    return summary;
+  }
+
+  async saveLevelScore(insertScore: InsertLevelScore): Promise<LevelScore | undefined> {
+    // The unique (level, user) index keeps one row per player; it's only
+    // replaced by a higher score
+    const { levelId, userId, ...run } = insertScore;
+    const [levelScore] = await this.db
+      .insert(levelScores)
+      .values(insertScore)
+      .onConflictDoUpdate({
+        target: [levelScores.levelId, levelScores.userId],
+        set: { ...run, replay: run.replay ?? null, createdAt: new Date() },
+        setWhere: sql`excluded.score > ${levelScores.score}`,
+      })
+      .returning();
+    return levelScore;
+  }
+
+  async getLevelLeaderboard(levelId: string, { limit, offset, around }: LevelLeaderboardQuery): Promise<LevelLeaderboardPage> {
+    const { replay, ...columns } = getTableColumns(levelScores);
+    const ranked = this.db
+      .select({
+        ...columns,
+        rank: sql<number>`row_number() over (order by ${levelScores.score} desc, ${levelScores.createdAt} asc)`
+          .mapWith(Number)
+          .as("rank"),
+      })
+      .from(levelScores)
+      .where(eq(levelScores.levelId, levelId))
+      .as("ranked");
+
+    if (around) {
+      const [player] = await this.db
+        .select({ rank: ranked.rank })
+        .from(ranked)
+        .where(sql`lower(${ranked.playerName}) = lower(${around})`)
+        .limit(1);
+      if (player) offset = centredOffset(player.rank - 1, limit);
+    }
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(levelScores)
+      .where(eq(levelScores.levelId, levelId));
+    const entries = await this.db
+      .select()
+      .from(ranked)
+      .orderBy(ranked.rank)
+      .limit(limit)
+      .offset(offset);
+
+    return { levelId, total, offset, entries };
+  }
+}
+
+// Read-modify-write of a profile inside a transaction; the row lock keeps
+// concurrent purchases and deposits from overwriting each other. A player's
+// first change finds no row to lock, so the default one is put in first
+async function applyProfileChange(
+  tx: Database,
+  userId: string,
+  change: (profile: SaveProfile) => SaveProfile | null,
+): Promise<SaveProfile | undefined> {
+  await tx.insert(profiles).values({ userId, data: createSaveProfile() }).onConflictDoNothing();
+  const [row] = await tx
+    .select({ data: profiles.data })
+    .from(profiles)
+    .where(eq(profiles.userId, userId))
+    .for("update");
+  const updated = change(parseSaveProfile(row.data));
+  if (!updated) return undefined;
+  await tx.update(profiles).set({ data: updated, updatedAt: new Date() }).where(eq(profiles.userId, userId));
+  return updated;
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
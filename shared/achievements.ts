@@ -0,0 +1,66 @@
+import type { CharacterId } from "./engine/characters";
+import type { RunStats, StatId } from "./engine/stats";
+
+export const ACHIEVEMENT_IDS = [
+  "closeShave",
+  "wheelsUp",
+  "longHaul",
+  "hopper",
+  "slippery",
+  "tarzan",
+  "leapOfFaith",
+  "daredevil",
+  "moneyBags",
+  "jailbird",
+  "marathon",
+  "regular",
+] as const;
+
+export type AchievementId = typeof ACHIEVEMENT_IDS[number];
+
+export interface Achievement {
+  name: string;
+  description: string;
+  stat: StatId;
+  goal: number;
+  // "run" goals must be reached within a single run, "lifetime" ones across all runs
+  scope: "run" | "lifetime";
+  // Character unlocked for free by earning this
+  unlocks?: CharacterId;
+}
+
+export const ACHIEVEMENTS: Record<AchievementId, Achievement> = {
+  closeShave: { name: "Close Shave", description: "Pull away after the police nearly catch you", stat: "nearMisses", goal: 1, scope: "lifetime" },
+  wheelsUp: { name: "Wheels Up", description: "Escape in the getaway helicopter", stat: "escapes", goal: 1, scope: "lifetime" },
+  longHaul: { name: "Long Haul", description: "Run 10,000m in a single run", stat: "distance", goal: 10000, scope: "run" },
+  hopper: { name: "Hopper", description: "Jump 1,000 times", stat: "jumps", goal: 1000, scope: "lifetime" },
+  slippery: { name: "Slippery", description: "Slide 250 times", stat: "slides", goal: 250, scope: "lifetime" },
+  tarzan: { name: "Tarzan", description: "Swing on 100 vines", stat: "vineSwings", goal: 100, scope: "lifetime", unlocks: "neon" },
+  leapOfFaith: { name: "Leap of Faith", description: "Cross 50 chasms", stat: "chasmsCrossed", goal: 50, scope: "lifetime" },
+  daredevil: { name: "Daredevil", description: "Have 3 near-misses in a single run", stat: "nearMisses", goal: 3, scope: "run", unlocks: "ninja" },
+  moneyBags: { name: "Money Bags", description: "Collect 1,000 coins", stat: "coins", goal: 1000, scope: "lifetime", unlocks: "gold" },
+  jailbird: { name: "Jailbird", description: "Get busted 50 times", stat: "timesBusted", goal: 50, scope: "lifetime" },
+  marathon: { name: "Marathon", description: "Run 100,000m in total", stat: "distance", goal: 100000, scope: "lifetime" },
+  regular: { name: "Regular", description: "Finish 100 runs", stat: "runs", goal: 100, scope: "lifetime" },
+};
+
+// Lifetime totals plus the best value of each stat in any single run
+export interface StatsRecord {
+  lifetime: RunStats;
+  best: RunStats;
+}
+
+// How far towards the goal a player is, capped at the goal
+export function getAchievementProgress(id: AchievementId, record: StatsRecord): number {
+  const { stat, goal, scope } = ACHIEVEMENTS[id];
+  return Math.min(goal, record[scope === "run" ? "best" : "lifetime"][stat]);
+}
+
+export function getEarnedAchievements(record: StatsRecord): AchievementId[] {
+  return ACHIEVEMENT_IDS.filter((id) => getAchievementProgress(id, record) >= ACHIEVEMENTS[id].goal);
+}
+
+// The achievement that unlocks a character, if any
+export function getUnlockingAchievement(character: CharacterId): AchievementId | undefined {
+  return ACHIEVEMENT_IDS.find((id) => ACHIEVEMENTS[id].unlocks === character);
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getAutopilotInput } from "./autopilot";
+import { BASE_GROUND_Y, CANVAS_HEIGHT, MUSHROOM_HEIGHT, MUSHROOM_WIDTH } from "./constants";
+import { HeistSimulation } from "./simulation";
+import { createSectionProbe } from "./solvability";
+import type { Obstacle, TerrainSegment, Vine } from "./types";
+
+function obstacle(type: Obstacle["type"], x: number, width: number, height: number): Obstacle {
+  return { type, x, width, height, passed: false };
+}
+
+// Runs the autopilot over the course from 1000 to past `toX` (flat ground
+// unless terrain is given), and says what got in its way
+function runOver(
+  obstacles: Obstacle[],
+  toX: number,
+  vines: Vine[] = [],
+  terrain: TerrainSegment[] = [{ startX: 0, endX: toX + 4000, startY: BASE_GROUND_Y, endY: BASE_GROUND_Y }],
+) {
+  const probe = createSectionProbe({ terrain, obstacles, vines, platforms: [] }, 1000, toX);
+  const sim = new HeistSimulation(1, [], undefined, "classic", probe.level);
+  const hits: string[] = [];
+  sim.events.on("crash", (event) => hits.push(event.obstacle));
+  sim.events.on("wallHit", () => hits.push("low_beam"));
+  let slideBoosts = 0;
+  sim.events.on("slideBoost", () => slideBoosts++);
+  for (let tick = 0; tick < 1200 && sim.status === "running" && sim.player.x < probe.goalX; tick++) {
+    sim.step(getAutopilotInput(sim));
+  }
+  return { sim, hits, slideBoosts, reached: sim.player.x >= probe.goalX };
+}
+
+describe("autopilot", () => {
+  it("jumps a spike", () => {
+    const { hits, reached } = runOver([obstacle("spike", 1400, 30, 40)], 1430);
+    assert.deepEqual(hits, []);
+    assert.ok(reached);
+  });
+
+  it("slides under a beam", () => {
+    const { hits, reached } = runOver([obstacle("low_beam", 1400, 40, CANVAS_HEIGHT)], 1440);
+    assert.deepEqual(hits, []);
+    assert.ok(reached);
+  });
+
+  it("jumps the widest pit the course lays out", () => {
+    const { sim, reached } = runOver([obstacle("gap", 1400, 250, 300)], 1650);
+    assert.equal(sim.status, "running");
+    assert.ok(reached);
+  });
+
+  it("clears a run of obstacles one after another", () => {
+    const { sim, hits, reached } = runOver(
+      [
+        obstacle("spike", 1400, 30, 40),
+        obstacle("low_beam", 1900, 40, CANVAS_HEIGHT),
+        obstacle("gap", 2400, 200, 300),
+        obstacle("spike", 3000, 30, 40),
+      ],
+      3030,
+    );
+    assert.deepEqual(hits, []);
+    assert.equal(sim.status, "running");
+    assert.ok(reached);
+  });
+
+  it("swings across a chasm on its vines", () => {
+    // As spawnChasm places them: a vine before the lip and one over the middle
+    const chasmX = 1500;
+    const width = 1150;
+    const vines: Vine[] = [
+      { x: chasmX - 140, anchorY: 20, length: 240, angle: -Math.PI / 6, angularVelocity: 0 },
+      { x: chasmX + width * 0.45, anchorY: 30, length: 220, angle: -Math.PI / 10, angularVelocity: 0 },
+    ];
+    const { sim, reached } = runOver([obstacle("gap", chasmX, width, 300)], chasmX + width, vines);
+    assert.equal(sim.status, "running");
+    assert.ok(reached);
+  });
+
+  it("slides down a slope for speed, even with a bounce pad ahead", () => {
+    const terrain: TerrainSegment[] = [
+      { startX: 0, endX: 1400, startY: 300, endY: 300 },
+      { startX: 1400, endX: 1800, startY: 300, endY: 360 },
+      { startX: 1800, endX: 6000, startY: 360, endY: 360 },
+    ];
+    const { slideBoosts, reached } = runOver([obstacle("mushroom", 1900, MUSHROOM_WIDTH, MUSHROOM_HEIGHT)], 2000, [], terrain);
+    assert.ok(reached);
+    assert.ok(slideBoosts > 10, `slid on ${slideBoosts} ticks of the slope`);
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  CANVAS_HEIGHT,
+  GRAVITY,
+  JUMP_FORCE,
+  PLAYER_BASE_SPEED,
+  PLAYER_HEIGHT,
+  PLAYER_WIDTH,
+  SIMULATION_HZ,
+  SLIDE_HEIGHT,
+  THE_ABYSS,
+} from "./constants";
+import { getModifierTuning } from "./modifiers";
+import { getVinePoint, type HeistSimulation } from "./simulation";
+import type { Obstacle, SimulationInput, Vine } from "./types";
+
+// A computer player. It drives a run through the same UP/DOWN input a person
+// has, deciding each tick from what it can see ahead: it slides under beams,
+// jumps spikes and gaps at the last moment that clears them, grabs vines to
+// cross chasms, lets go when the fling lands somewhere solid, glides when a
+// fall would otherwise end in a pit and boards the helicopter at the end. It
+// looks ahead by following simple arcs rather than simulating, so it's cheap
+// enough for batch runs and for the attract-mode demo on the start screen.
+
+// How far ahead it looks for something to deal with
+const LOOKAHEAD = 700;
+// Slope past which sliding picks up speed (see the simulation's slope physics)
+const DOWNHILL_SLOPE = 0.1;
+// How far ahead a vine is worth jumping for
+const VINE_LOOKAHEAD = 400;
+// Catching a vine nearer its anchor than this share of its length makes too
+// short a swing to fling far
+const MIN_GRAB_LEVER = 0.6;
+// Ticks an arc is followed before it's given up on
+const ARC_TICKS = 180;
+// Starts sliding this many ticks before reaching a beam
+const SLIDE_LEAD_TICKS = 6;
+// Room kept around spikes, so a jump that only just clears one in theory isn't chosen
+const SPIKE_MARGIN = 4;
+// Ticks on a vine before it can be let go of (see the simulation's swing)
+const MIN_SWING_TICKS = 15;
+// Lets go regardless after swinging this long, rather than hang until caught
+const MAX_SWING_TICKS = 4 * SIMULATION_HZ;
+// The simulation boards the player within 100 of the helicopter and no more
+// than 150 below it; it bobs 10 either way, so only aim well inside that
+const PLANE_REACH = 80;
+const PLANE_BELOW = 140;
+
+const IDLE: SimulationInput = { up: false, down: false };
+const JUMP: SimulationInput = { up: true, down: false };
+const SLIDE: SimulationInput = { up: false, down: true };
+
+// Where and how fast the player is moving through the air
+interface Flight {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+// How following an arc ends: on something solid, catching a vine worth
+// swinging on (only with UP held), snagging one that isn't (already passed,
+// or caught too near the top to fling far), aboard the helicopter, or badly.
+// Landing before the far side of what's being jumped is "short": it leaves
+// no room to run up for another jump. Catching the vine just let go of is a
+// "regrab": the simulation doesn't stop it, and it only swings back and forth.
+// Flying into a beam is a "wall": it knocks the player back but doesn't end the run.
+type ArcEnd = "landed" | "vine" | "snag" | "boarded" | "short" | "regrab" | "wall" | "crash" | "fell";
+
+function isSafe(end: ArcEnd) {
+  return end === "landed" || end === "vine" || end === "snag" || end === "boarded";
+}
+
+// Whether any pit lies under the player's feet at x (the simulation counts
+// a pit under either edge or the middle)
+function isOverPit(obstacles: readonly Obstacle[], x: number) {
+  return obstacles.some((o) => o.type === "gap" && x + PLAYER_WIDTH - 5 > o.x && x + 5 < o.x + o.width);
+}
+
+// The spike or beam the player at (x, y) runs into, if any
+function hitsObstacle(sim: HeistSimulation, obstacles: readonly Obstacle[], x: number, y: number, height: number) {
+  return obstacles.find((o) => {
+    if (x + PLAYER_WIDTH <= o.x || x >= o.x + o.width) return false;
+    if (o.type === "spike") {
+      const groundY = sim.getTerrainHeight(o.x + o.width / 2);
+      return x + PLAYER_WIDTH > o.x + 5 - SPIKE_MARGIN && x < o.x + o.width - 5 + SPIKE_MARGIN && y + height > groundY - o.height - SPIKE_MARGIN;
+    }
+    // A beam only stops someone standing up; the simulation lets them through below it
+    if (o.type === "low_beam") return y < sim.getTerrainHeight(o.x) - SLIDE_HEIGHT - 20;
+    return false;
+  });
+}
+
+// Whether the player at (x, y) is close enough to the waiting helicopter to board it
+function reachesPlane(sim: HeistSimulation, x: number, y: number) {
+  const { plane } = sim;
+  if (plane.state !== "waiting") return false;
+  return Math.hypot(x + PLAYER_WIDTH / 2 - plane.x, y - plane.y) < PLANE_REACH && y < plane.y + PLANE_BELOW;
+}
+
+// The vine UP would catch with the player at (x, y), judged the way
+// ArcEnd describes, or null if none is in reach. Like the simulation, the
+// first vine in reach is caught at its closest point.
+function grabAt(sim: HeistSimulation, x: number, y: number, letGo: Vine | null): "vine" | "snag" | "regrab" | null {
+  const centerX = x + PLAYER_WIDTH / 2;
+  const centerY = y + PLAYER_HEIGHT / 2;
+  const radius = sim.upgradeTuning.vineGrabRadius;
+  for (const vine of sim.vines) {
+    if (Math.abs(vine.x - centerX) > vine.length + radius) continue;
+    let closest = { x: 0, y: 0 };
+    let closestDist = Infinity;
+    for (let i = 0; i <= 10; i++) {
+      const point = getVinePoint(vine, i / 10);
+      const dist = Math.hypot(centerX - point.x, centerY - point.y);
+      if (dist < closestDist) {
+        closest = point;
+        closestDist = dist;
+      }
+    }
+    if (closestDist >= radius) continue;
+    if (vine === letGo) return "regrab";
+    const lever = Math.hypot(closest.x - vine.x, closest.y - vine.anchorY);
+    return vine.x > centerX && lever >= vine.length * MIN_GRAB_LEVER ? "vine" : "snag";
+  }
+  return null;
+}
+
+// Follows the player through the air the way the simulation moves them.
+// With `holdUp` they glide while glide lasts and catch any vine in reach,
+// `letGo` being the one just let go of. Landing before `pastX` is short.
+function followArc(sim: HeistSimulation, start: Flight, holdUp: boolean, letGo: Vine | null = null, pastX = -Infinity): ArcEnd {
+  const obstacles = sim.obstacles.filter((o) => o.x + o.width > start.x && o.x < start.x + LOOKAHEAD * 3);
+  const gravity = GRAVITY * getModifierTuning(sim.modifiers).gravity;
+  let { x, y, vx, vy } = start;
+  let glideTicks = holdUp ? Math.floor(sim.glideSeconds * SIMULATION_HZ) : 0;
+  let groundY = sim.getSurfaceHeight(x + PLAYER_WIDTH / 2, y + PLAYER_HEIGHT - 5);
+
+  for (let tick = 0; tick < ARC_TICKS; tick++) {
+    vx = vx > PLAYER_BASE_SPEED ? vx - 0.05 : PLAYER_BASE_SPEED;
+    const feetBefore = y + PLAYER_HEIGHT;
+    // Gliding only starts once the player is clear of the ground
+    if (glideTicks > 0 && feetBefore < groundY - 5) {
+      glideTicks--;
+      if (vy > 2) vy = 2;
+      vy += gravity * 0.2;
+    } else {
+      vy += gravity;
+    }
+    y += vy;
+    x += vx;
+
+    const hit = hitsObstacle(sim, obstacles, x, y, PLAYER_HEIGHT);
+    if (hit) return hit.type === "low_beam" ? "wall" : "crash";
+    if (reachesPlane(sim, x, y)) return "boarded";
+    if (y > CANVAS_HEIGHT) return "fell";
+    const grab = holdUp ? grabAt(sim, x, y, letGo) : null;
+    if (grab) return grab;
+
+    const surface = sim.getSurface(x + PLAYER_WIDTH / 2, feetBefore - 5);
+    groundY = surface.y;
+    const solid = surface.platform !== null || (surface.y < THE_ABYSS && !isOverPit(obstacles, x));
+    if (solid && vy >= 0 && y + PLAYER_HEIGHT >= surface.y - 2) return x < pastX ? "short" : "landed";
+  }
+  return "fell";
+}
+
+// The better of falling freely and holding UP from here, preferring not to
+// hold UP (and spend glide or catch a vine) when falling freely is fine.
+// Taking a wall beats snagging a vine, which would only swing back into it.
+function bestArc(sim: HeistSimulation, start: Flight, letGo: Vine | null = null, pastX = -Infinity): { end: ArcEnd; holdUp: boolean } {
+  const free = followArc(sim, start, false, null, pastX);
+  if (isSafe(free)) return { end: free, holdUp: false };
+  const held = followArc(sim, start, true, letGo, pastX);
+  if (free === "wall" && (held === "snag" || !isSafe(held))) return { end: free, holdUp: false };
+  return { end: held, holdUp: true };
+}
+
+// A jump taken after running `delay` more ticks
+function jumpAfter(sim: HeistSimulation, delay: number): Flight {
+  const { player } = sim;
+  const x = player.x + player.vx * delay;
+  const groundY = sim.getSurfaceHeight(x + PLAYER_WIDTH / 2, player.y + player.height - 5);
+  return { x, y: groundY - PLAYER_HEIGHT, vx: player.vx, vy: JUMP_FORCE };
+}
+
+// Whether running on for `ticks` more ticks stays out of pits and spikes
+function canRun(sim: HeistSimulation, ticks: number) {
+  const { player } = sim;
+  const x = player.x + player.vx * ticks;
+  const groundY = sim.getSurfaceHeight(x + PLAYER_WIDTH / 2, player.y + player.height - 5);
+  if (groundY >= THE_ABYSS || isOverPit(sim.obstacles, x)) return false;
+  const height = player.state === "sliding" ? SLIDE_HEIGHT : PLAYER_HEIGHT;
+  return !sim.obstacles.some((o) => o.type === "spike" && hitsObstacle(sim, [o], x, groundY - height, height));
+}
+
+// The flight DOWN launches the player on if they reach a ramp next tick, or
+// null if they won't be on one
+function rampLaunch(sim: HeistSimulation): Flight | null {
+  const { player } = sim;
+  const x = player.x + player.vx;
+  const center = x + PLAYER_WIDTH / 2;
+  const ramp = sim.obstacles.find((o) => o.type === "ramp" && center > o.x && center < o.x + o.width);
+  if (!ramp) return null;
+  const rampY = sim.getTerrainHeight(ramp.x + ramp.width / 2) - ((center - ramp.x) / ramp.width) * ramp.height;
+  return { x, y: rampY - PLAYER_HEIGHT, vx: player.vx + 3, vy: -8 * sim.characterTuning.rampLaunch };
+}
+
+// Whether the ground under the player next tick slopes down enough that
+// sliding speeds them up (measured as the simulation does). The simulation
+// applies slopes before input, so a slide started a tick early gets the first boost.
+function isDownhill(sim: HeistSimulation) {
+  const { player } = sim;
+  const x = player.x + player.vx;
+  const here = sim.getTerrainHeight(x + 5, true);
+  const ahead = sim.getTerrainHeight(x + player.width + 5, true);
+  return (ahead - here) / player.width > DOWNHILL_SLOPE;
+}
+
+function onGround(sim: HeistSimulation): SimulationInput {
+  const { player } = sim;
+  const front = player.x + PLAYER_WIDTH;
+  const ahead = sim.obstacles
+    .filter((o) => o.x + o.width > player.x && o.x < front + LOOKAHEAD && o.type !== "warning" && o.type !== "ramp")
+    .sort((a, b) => a.x - b.x);
+  const next = ahead[0];
+
+  // The helicopter ends the run: jump for it as soon as a jump reaches it
+  if (sim.plane.state === "waiting" && followArc(sim, jumpAfter(sim, 0), false) === "boarded") return JUMP;
+
+  // Bounce pads are there to be run into, so leave the launch to the pad
+  // (a slide still bounces off one, so keep sliding downhill on the way)
+  if (next?.type === "mushroom") return isDownhill(sim) ? SLIDE : IDLE;
+  if (next?.type === "low_beam" && next.x - front < player.vx * SLIDE_LEAD_TICKS) return SLIDE;
+
+  // A spike or a pit: jump at the last tick that still clears it, landing
+  // beyond it
+  if (next && next.type !== "low_beam") {
+    if (!canRun(sim, 1)) return JUMP;
+    const farSide = next.x + next.width;
+    const now = bestArc(sim, jumpAfter(sim, 0), null, farSide);
+    const later = isSafe(now.end) ? bestArc(sim, jumpAfter(sim, 1), null, farSide) : now;
+    if (isSafe(now.end) && (!isSafe(later.end) || !canRun(sim, 2))) return JUMP;
+  }
+
+  // Otherwise build up speed to outpace the police: launch off ramps, slide
+  // down slopes, and take any vine in reach for the fling off it
+  const launch = rampLaunch(sim);
+  const pastNext = next && next.type !== "low_beam" ? next.x + next.width : -Infinity;
+  if (launch && isSafe(bestArc(sim, launch, null, pastNext).end)) return SLIDE;
+  if (isDownhill(sim)) return SLIDE;
+  const vineAhead = sim.vines.some((vine) => vine.x > player.x && vine.x < front + VINE_LOOKAHEAD);
+  return vineAhead && followArc(sim, jumpAfter(sim, 0), true) === "vine" ? JUMP : IDLE;
+}
+
+function onVine(sim: HeistSimulation): SimulationInput {
+  const { player, vineSwingTime } = sim;
+  const vine = player.onVine;
+  if (!vine || vineSwingTime <= MIN_SWING_TICKS) return JUMP;
+
+  // Let go as soon as the fling lands somewhere solid or reaches another vine
+  const length = player.vineLength || vine.length;
+  const releaseSpeed = vine.angularVelocity * length;
+  const forwardBoost = Math.max(0, Math.cos(vine.angle)) * Math.abs(releaseSpeed) * 1.5;
+  const release: Flight = {
+    x: player.x,
+    y: player.y,
+    vx: Math.max(PLAYER_BASE_SPEED + 1, Math.min(PLAYER_BASE_SPEED + forwardBoost, PLAYER_BASE_SPEED * 3)),
+    vy: -Math.abs(Math.sin(vine.angle) * releaseSpeed) * 1.2 - 6,
+  };
+  // Past the bottom of the swing, moving forward, is where the fling is strongest
+  const swingingForward = vine.angularVelocity > 0 && vine.angle >= 0;
+  if (swingingForward && isSafe(bestArc(sim, release, vine).end)) return IDLE;
+  // Even a fling that ends badly is let go of ahead of the anchor, where the
+  // vine isn't caught again on the way down
+  if (swingingForward && vineSwingTime > MAX_SWING_TICKS) return IDLE;
+  return JUMP;
+}
+
+// The input for the run's next tick
+export function getAutopilotInput(sim: HeistSimulation): SimulationInput {
+  const { player } = sim;
+  if (player.state === "swinging") return onVine(sim);
+  if (player.state === "running" || player.state === "sliding") return onGround(sim);
+  // A slide starts with a short drop to the ground at slide height. Landing
+  // from it without DOWN leaves the player running at slide height, bobbing
+  // off the ground and unable to jump, so hold DOWN until it's a slide again.
+  if (player.height === SLIDE_HEIGHT) return SLIDE;
+  // Running down a steep slope drops the player a little every tick; the
+  // simulation still lets them jump or slide from just above the ground
+  const feet = player.y + player.height;
+  if (player.vy >= 0 && feet >= sim.getSurfaceHeight(player.x + player.width / 2, feet - 5) - 5) return onGround(sim);
+
+  // In the air: hold UP for a vine in reach, or when that's what keeps the run going
+  const flight = { x: player.x, y: player.y, vx: player.vx, vy: player.vy };
+  if (!sim.vineGrabCooldown && followArc(sim, flight, true) === "vine") return JUMP;
+  return bestArc(sim, flight).holdUp ? JUMP : IDLE;
+}
@@ -0,0 +1,113 @@
+import type { PlatformKind } from "./types";
+
+// Stretches of the route with their own terrain and hazard mix. They rotate in
+// order every BIOME_LENGTH pixels of world, starting in the city. Art for each
+// lives with the renderer.
+export const BIOME_IDS = ["city", "rooftops", "sewers", "trainYard", "jungle"] as const;
+
+export type BiomeId = typeof BIOME_IDS[number];
+
+export const BIOME_LENGTH = 6000; // World pixels, roughly 3,000m
+// Most the ground can rise or fall per terrain segment while it eases into a new biome's range
+export const BIOME_RAMP_STEP = 40;
+
+// Multi-obstacle layouts; the generator proves each one can be got through
+// before keeping it (see solvability.ts)
+export const SET_PIECES = ["chasm", "mushroomLaunch", "mushroomVine"] as const;
+
+// What spawnObstacle can place: plain obstacles plus the set pieces
+export const OBSTACLE_PATTERNS = ["spike", "low_beam", "gap", "ramp", "mushroom", ...SET_PIECES] as const;
+
+export type ObstaclePattern = typeof OBSTACLE_PATTERNS[number];
+export type SetPiece = typeof SET_PIECES[number];
+
+export function isSetPiece(pattern: ObstaclePattern): pattern is SetPiece {
+  return (SET_PIECES as readonly ObstaclePattern[]).includes(pattern);
+}
+
+export interface Biome {
+  name: string;
+  terrain: {
+    // Ground height range (canvas y, so smaller is higher)
+    minY: number;
+    maxY: number;
+    // Largest height change between neighbouring segments
+    roughness: number;
+    minSegmentWidth: number;
+    maxSegmentWidth: number;
+  };
+  // Relative odds of each pattern; they don't need to add up to 1
+  obstacleWeights: Record<ObstaclePattern, number>;
+  // Multipliers on the usual spacing between obstacles and between vines
+  obstacleSpacing: number;
+  vineSpacing: number;
+  // Ledges and the like above the ground (see platforms.ts); null for none
+  platforms: { spacing: number; kinds: PlatformKind[] } | null;
+}
+
+export const BIOMES: Record<BiomeId, Biome> = {
+  city: {
+    name: "City Streets",
+    terrain: { minY: 310, maxY: 380, roughness: 25, minSegmentWidth: 200, maxSegmentWidth: 400 },
+    obstacleWeights: { spike: 0.3, low_beam: 0.3, gap: 0.15, ramp: 0.1, mushroom: 0.06, chasm: 0.04, mushroomLaunch: 0.03, mushroomVine: 0.02 },
+    obstacleSpacing: 1,
+    vineSpacing: 1.2,
+    platforms: { spacing: 1400, kinds: ["awning", "fireEscape"] },
+  },
+  // Jumping between buildings: high ground and plenty of gaps
+  rooftops: {
+    name: "Rooftops",
+    terrain: { minY: 250, maxY: 320, roughness: 30, minSegmentWidth: 150, maxSegmentWidth: 300 },
+    obstacleWeights: { spike: 0.15, low_beam: 0.15, gap: 0.4, ramp: 0.05, mushroom: 0.08, chasm: 0.1, mushroomLaunch: 0.05, mushroomVine: 0.02 },
+    obstacleSpacing: 0.9,
+    vineSpacing: 1,
+    platforms: { spacing: 700, kinds: ["ledge", "fireEscape"] },
+  },
+  // Low pipes to slide under and hardly any open pits
+  sewers: {
+    name: "Sewers",
+    terrain: { minY: 350, maxY: 400, roughness: 15, minSegmentWidth: 250, maxSegmentWidth: 450 },
+    obstacleWeights: { spike: 0.2, low_beam: 0.5, gap: 0.1, ramp: 0.05, mushroom: 0.1, chasm: 0.02, mushroomLaunch: 0.02, mushroomVine: 0.01 },
+    obstacleSpacing: 0.85,
+    vineSpacing: 1.5,
+    platforms: null,
+  },
+  // Flat yard full of debris and loading ramps
+  trainYard: {
+    name: "Train Yard",
+    terrain: { minY: 340, maxY: 365, roughness: 8, minSegmentWidth: 300, maxSegmentWidth: 500 },
+    obstacleWeights: { spike: 0.4, low_beam: 0.2, gap: 0.12, ramp: 0.15, mushroom: 0.05, chasm: 0.05, mushroomLaunch: 0.02, mushroomVine: 0.01 },
+    obstacleSpacing: 0.9,
+    vineSpacing: 1.3,
+    platforms: null,
+  },
+  // The original rolling hills
+  jungle: {
+    name: "Jungle Outskirts",
+    terrain: { minY: 280, maxY: 400, roughness: 40, minSegmentWidth: 150, maxSegmentWidth: 350 },
+    obstacleWeights: { spike: 0.27, low_beam: 0.26, gap: 0.22, ramp: 0.05, mushroom: 0.08, chasm: 0.07, mushroomLaunch: 0.03, mushroomVine: 0.02 },
+    obstacleSpacing: 1,
+    vineSpacing: 0.8,
+    platforms: null,
+  },
+};
+
+// Which lap of the rotation a world position is in (0 for the first biome)
+export function getBiomeIndex(worldX: number): number {
+  return Math.floor(Math.max(0, worldX) / BIOME_LENGTH);
+}
+
+export function getBiomeAt(worldX: number): BiomeId {
+  return BIOME_IDS[getBiomeIndex(worldX) % BIOME_IDS.length];
+}
+
+// Weighted pick; `roll` is uniform in [0, 1)
+export function pickObstaclePattern(weights: Record<ObstaclePattern, number>, roll: number): ObstaclePattern {
+  const total = OBSTACLE_PATTERNS.reduce((sum, pattern) => sum + weights[pattern], 0);
+  let remaining = roll * total;
+  for (const pattern of OBSTACLE_PATTERNS) {
+    remaining -= weights[pattern];
+    if (remaining < 0) return pattern;
+  }
+  return "spike";
+}
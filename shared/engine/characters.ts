@@ -0,0 +1,32 @@
+// Playable characters. Each has a small gameplay trait, so like upgrades the
+// character is part of a replay. Palettes live with the renderer.
+export const CHARACTER_IDS = ["classic", "ninja", "clown", "gold", "neon"] as const;
+
+export type CharacterId = typeof CHARACTER_IDS[number];
+
+// `cost` is the unlock price in banked coins; 0 means available from the start.
+// Some can also be earned for free through an achievement (see shared/achievements.ts).
+export const CHARACTERS: Record<CharacterId, { name: string; trait: string; cost: number }> = {
+  classic: { name: "Classic Robber", trait: "No special trait", cost: 0 },
+  ninja: { name: "Shadow Ninja", trait: "Keeps sliding for a moment after letting go of DOWN", cost: 300 },
+  clown: { name: "Crazy Clown", trait: "Launches 30% higher off ramps", cost: 300 },
+  gold: { name: "Gold Digger", trait: "Earns 1.5x coins", cost: 600 },
+  neon: { name: "Neon Runner", trait: "Glide charges last 50% longer", cost: 450 },
+};
+
+export interface CharacterTuning {
+  // Ticks a slide carries on after DOWN is released
+  slideLingerTicks: number;
+  rampLaunch: number;
+  coinMultiplier: number;
+  glideChargeSeconds: number;
+}
+
+export function getCharacterTuning(character: CharacterId): CharacterTuning {
+  return {
+    slideLingerTicks: character === "ninja" ? 30 : 0,
+    rampLaunch: character === "clown" ? 1.3 : 1,
+    coinMultiplier: character === "gold" ? 1.5 : 1,
+    glideChargeSeconds: character === "neon" ? 1.5 : 1,
+  };
+}
@@ -0,0 +1,76 @@
+// Fixed simulation rate. Every per-tick value below (speeds, gravity,
+// cooldowns measured in ticks) is tuned for this rate.
+export const SIMULATION_HZ = 60;
+export const FIXED_TIMESTEP_MS = 1000 / SIMULATION_HZ;
+
+export const GRAVITY = 0.6;
+export const JUMP_FORCE = -14;
+export const BASE_GROUND_Y = 350;
+export const PLAYER_WIDTH = 40;
+export const PLAYER_HEIGHT = 50;
+export const SLIDE_HEIGHT = 25;
+export const PLAYER_BASE_SPEED = 6;
+export const POLICE_SPEED = 6.8;
+export const POLICE_LENGTH = 100;
+export const POLICE_ACCELERATION = 0.08;
+export const POLICE_DECELERATION = 0.4;
+export const POLICE_BRAKE_DISTANCE = 160; // Starts braking this far before a low beam
+export const POLICE_BRAKE_SPEED = 3; // Crawl speed while squeezing past a low beam
+export const POLICE_MAX_JUMP_GAP = 300; // Wider gaps are crossed by flying
+export const POLICE_FLY_ALTITUDE = 70;
+export const POLICE_FLY_SPEED_FACTOR = 0.85;
+// Rubber-banding: the police ease off when closer than NEAR and speed up
+// towards MAX when the player leads by FAR or more
+export const POLICE_RUBBER_BAND_NEAR = 250;
+export const POLICE_RUBBER_BAND_FAR = 1000;
+export const POLICE_RUBBER_BAND_MIN = 0.9;
+export const POLICE_RUBBER_BAND_MAX = 1.4;
+// A near-miss: the police car gets within NEAR of the player (it catches at 40)
+// and the player then pulls away to CLEAR
+export const POLICE_NEAR_MISS_DISTANCE = 100;
+export const POLICE_NEAR_MISS_CLEAR = 400;
+// Extra pursuers that join the chase as the run goes on (see pursuers.ts)
+export const MOTORBIKE_LENGTH = 60;
+export const MOTORBIKE_SPEED_FACTOR = 1.15; // Relative to the police car's cruise speed
+export const K9_LENGTH = 50;
+export const K9_SPEED_FACTOR = 1.05;
+export const K9_MAX_LEAP = 500; // Dogs give up at wider gaps
+export const POLICE_HELI_Y = 90;
+export const POLICE_HELI_SPEED_FACTOR = 1.2; // Top speed relative to the police cruise speed
+export const POLICE_HELI_LEAD = 120; // Hovers this far ahead of the player, looking back
+export const POLICE_HELI_STAY_TICKS = 15 * SIMULATION_HZ;
+export const SPOTLIGHT_SWEEP = 200; // Beam swings this far either side of the helicopter
+export const SPOTLIGHT_SWEEP_RATE = 0.025;
+export const SPOTLIGHT_RADIUS = 65;
+export const SPOTLIGHT_DRAG = 0.97; // Per-tick speed loss while lit
+export const SPOTLIGHT_MIN_SPEED = 4;
+// Heat builds by 1 per lit tick and cools by SPOTLIGHT_COOLING otherwise;
+// reaching SPOTLIGHT_CAPTURE_HEAT pins the player down
+export const SPOTLIGHT_COOLING = 0.1;
+export const SPOTLIGHT_CAPTURE_HEAT = 100;
+export const CANVAS_WIDTH = 960;
+export const CANVAS_HEIGHT = 540;
+export const THE_ABYSS = 2000; // Physics height inside pits (non-grounding)
+export const GAP_FLATTEN_RANGE = 120;
+export const VINE_WALL_BUFFER = 220;
+export const VINE_SPIKE_BUFFER = 260;
+export const VINE_GRAB_RADIUS = 70;
+export const PLATFORM_BEAM_CLEARANCE = 100; // Low beams are kept this far from platforms
+export const MUSHROOM_WIDTH = 50;
+export const MUSHROOM_HEIGHT = 40;
+export const MUSHROOM_BOUNCE_FORCE = -20;
+export const MUSHROOM_SPEED_BOOST = 2;
+export const MUSHROOM_GAP_BUFFER = 150; // Solid ground kept either side of a pad
+export const MUSHROOM_VINE_BUFFER = 200;
+export const POWER_UP_SPACING = 3000; // Minimum distance between pickups; up to double that
+export const POWER_UP_PICKUP_RADIUS = 35;
+export const MAGNET_RADIUS = 260;
+export const MAGNET_PULL = 12; // Coin speed towards the player, per tick
+export const SMOKE_BOMB_KNOCKBACK = 400;
+export const SMOKE_BOMB_SLOW = 0.5; // Chase speed multiplier while the smoke lingers
+export const SPEED_BURST_BOOST = 6; // Added on top of the base running speed
+export const GLIDE_CHARGE_DISTANCE = 500;
+export const GLIDE_CHARGE_SECONDS = 0.5;
+export const VICTORY_DISTANCE = 20000;
+export const CHECKPOINT_DISTANCE = 10000;
+export const SECOND_CHECKPOINT_DISTANCE = 15000; // Only with the Second Checkpoint upgrade
@@ -0,0 +1,41 @@
+import type { SimulationEvent } from "./types";
+
+export type SimulationEventType = SimulationEvent["type"];
+
+export type SimulationEventOf<T extends SimulationEventType> = Extract<SimulationEvent, { type: T }>;
+
+type Listener<T extends SimulationEventType> = (event: SimulationEventOf<T>) => void;
+type AnyListener = (event: SimulationEvent) => void;
+
+// Typed publish/subscribe for simulation events. Sound, particles, HUD,
+// stats and achievements each subscribe to what they need instead of the
+// game loop calling them directly. Subscribing returns the unsubscribe.
+export class SimulationEventBus {
+  private listeners = new Map<SimulationEventType, Set<AnyListener>>();
+  private anyListeners = new Set<AnyListener>();
+
+  on<T extends SimulationEventType>(type: T, listener: Listener<T>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    const registered = listener as AnyListener;
+    listeners.add(registered);
+    return () => {
+      listeners.delete(registered);
+    };
+  }
+
+  onAny(listener: AnyListener): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  emit(event: SimulationEvent) {
+    this.listeners.get(event.type)?.forEach((listener) => listener(event));
+    this.anyListeners.forEach((listener) => listener(event));
+  }
+}
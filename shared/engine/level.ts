@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { BIOME_IDS } from "./biomes";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, MUSHROOM_HEIGHT } from "./constants";
+import type { Obstacle } from "./types";
+
+// Bumped whenever the format changes in a way older level files can't be read as
+export const LEVEL_VERSION = 1;
+// Longest level the format allows, in world pixels (roughly 10,000m)
+export const MAX_LEVEL_LENGTH = 20000;
+
+// How tall each obstacle type is when a level doesn't say
+export const DEFAULT_OBSTACLE_HEIGHTS: Record<Obstacle["type"], number> = {
+  spike: 40,
+  low_beam: CANVAS_HEIGHT,
+  gap: 300,
+  ramp: 60,
+  mushroom: MUSHROOM_HEIGHT,
+  warning: 80,
+};
+
+const worldX = z.number().min(0).max(MAX_LEVEL_LENGTH);
+const worldY = z.number().min(0).max(CANVAS_HEIGHT);
+
+// A hand-built level. Positions are world pixels: x grows to the right from
+// the start of the level, y grows downwards from the top of the screen (the
+// default ground is at y=350). The run starts at x=320 and is won by boarding
+// the helicopter at the extraction point.
+export const levelSchema = z.object({
+  version: z.literal(LEVEL_VERSION),
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes").max(40),
+  name: z.string().trim().min(1).max(40),
+  description: z.string().max(200).default(""),
+  // Sets the look; the layout is entirely the level's own
+  biome: z.enum(BIOME_IDS).default("city"),
+  // Police and the other pursuers; off for calmer, puzzle-style levels
+  chase: z.boolean().default(true),
+  // Ground as consecutive straight segments, starting at x=0
+  terrain: z.array(z.object({
+    startX: worldX,
+    endX: worldX,
+    startY: worldY,
+    endY: worldY,
+  })).min(1).max(500),
+  obstacles: z.array(z.object({
+    type: z.enum(["spike", "low_beam", "gap", "ramp", "mushroom", "warning"]),
+    x: worldX,
+    width: z.number().positive().max(2000),
+    height: z.number().positive().max(CANVAS_HEIGHT).optional(),
+  })).max(500).default([]),
+  platforms: z.array(z.object({
+    kind: z.enum(["ledge", "fireEscape", "awning"]),
+    x: worldX,
+    y: worldY,
+    width: z.number().positive().max(2000),
+  })).max(200).default([]),
+  vines: z.array(z.object({
+    x: worldX,
+    length: z.number().min(40).max(400),
+    // Starting swing angle in radians; negative leans back towards the player
+    angle: z.number().min(-Math.PI / 2).max(Math.PI / 2).default(-Math.PI / 4),
+    anchorY: worldY.default(20),
+  })).max(200).default([]),
+  coins: z.array(z.object({ x: worldX, y: worldY })).max(1000).default([]),
+  powerUps: z.array(z.object({
+    kind: z.enum(["magnet", "shield", "smokeBomb", "speedBurst"]),
+    x: worldX,
+    y: worldY,
+  })).max(50).default([]),
+  // x positions; passing one banks a respawn there
+  checkpoints: z.array(worldX).max(5).default([]),
+  // Where the helicopter hovers, waiting for the player to jump aboard
+  extraction: z.object({
+    x: worldX,
+    y: z.number().min(40).max(250).default(100),
+  }),
+}).superRefine((level, ctx) => {
+  const { terrain, extraction, checkpoints } = level;
+  if (terrain[0].startX !== 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["terrain", 0, "startX"], message: "Terrain must start at x=0" });
+  }
+  terrain.forEach((segment, i) => {
+    if (segment.endX <= segment.startX) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["terrain", i, "endX"], message: "Segment must end after it starts" });
+    }
+    if (i > 0 && segment.startX !== terrain[i - 1].endX) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["terrain", i, "startX"], message: "Segment must start where the previous one ends" });
+    }
+  });
+  // Room past the helicopter so the end of the world never comes into view early
+  if (terrain[terrain.length - 1].endX < extraction.x + CANVAS_WIDTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["terrain"], message: `Terrain must reach at least ${CANVAS_WIDTH}px past the extraction point` });
+  }
+  checkpoints.forEach((x, i) => {
+    if (x >= extraction.x || (i > 0 && x <= checkpoints[i - 1])) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["checkpoints", i], message: "Checkpoints must be in order and before the extraction point" });
+    }
+  });
+});
+
+export type Level = z.infer<typeof levelSchema>;
+// What a level file holds before defaults are filled in
+export type LevelFile = z.input<typeof levelSchema>;
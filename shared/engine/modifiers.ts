@@ -0,0 +1,29 @@
+// Optional rule tweaks layered on top of a run (used by the daily challenge).
+// They change the simulation, so a replay has to carry them to reproduce.
+export const MODIFIER_IDS = ["hotPursuit", "moonBoots", "coinRush", "rushHour"] as const;
+
+export type ModifierId = typeof MODIFIER_IDS[number];
+
+export const MODIFIERS: Record<ModifierId, { name: string; description: string }> = {
+  hotPursuit: { name: "Hot Pursuit", description: "Police drive 10% faster" },
+  moonBoots: { name: "Moon Boots", description: "Gravity is 20% weaker" },
+  coinRush: { name: "Coin Rush", description: "Coins appear twice as often" },
+  rushHour: { name: "Rush Hour", description: "Obstacles appear more often" },
+};
+
+// Multipliers the simulation applies; 1 everywhere means no modifiers.
+export interface ModifierTuning {
+  policeSpeed: number;
+  gravity: number;
+  coinSpacing: number;
+  obstacleSpacing: number;
+}
+
+export function getModifierTuning(modifiers: readonly ModifierId[]): ModifierTuning {
+  return {
+    policeSpeed: modifiers.includes("hotPursuit") ? 1.1 : 1,
+    gravity: modifiers.includes("moonBoots") ? 0.8 : 1,
+    coinSpacing: modifiers.includes("coinRush") ? 0.5 : 1,
+    obstacleSpacing: modifiers.includes("rushHour") ? 0.7 : 1,
+  };
+}
@@ -0,0 +1,27 @@
+import type { Platform, PlatformKind } from "./types";
+
+export const PLATFORM_KINDS: readonly PlatformKind[] = ["ledge", "fireEscape", "awning"];
+
+// Size of each kind and how high its top sits above the ground below it. A
+// plain jump clears about 160px, so every first level is reachable from the
+// ground; fire escapes add a second level reachable from the first.
+export const PLATFORMS: Record<PlatformKind, { minWidth: number; maxWidth: number; minRise: number; maxRise: number }> = {
+  ledge: { minWidth: 220, maxWidth: 360, minRise: 110, maxRise: 140 },
+  fireEscape: { minWidth: 160, maxWidth: 200, minRise: 95, maxRise: 110 },
+  awning: { minWidth: 120, maxWidth: 180, minRise: 80, maxRise: 100 },
+};
+
+// Height between the levels of a fire escape
+export const FIRE_ESCAPE_LEVEL_GAP = 100;
+
+// The highest platform at worldX whose top is at or below y, ignoring `skip`
+// (the one being dropped through).
+export function findPlatformBelow(platforms: readonly Platform[], worldX: number, y: number, skip: Platform | null = null): Platform | null {
+  let found: Platform | null = null;
+  for (const platform of platforms) {
+    if (platform === skip || worldX < platform.x || worldX > platform.x + platform.width) continue;
+    if (platform.y < y) continue;
+    if (!found || platform.y < found.y) found = platform;
+  }
+  return found;
+}
@@ -0,0 +1,95 @@
+import {
+  GRAVITY,
+  POLICE_ACCELERATION,
+  POLICE_BRAKE_DISTANCE,
+  POLICE_BRAKE_SPEED,
+  POLICE_DECELERATION,
+  POLICE_FLY_ALTITUDE,
+  POLICE_FLY_SPEED_FACTOR,
+  POLICE_LENGTH,
+  POLICE_MAX_JUMP_GAP,
+  POLICE_RUBBER_BAND_FAR,
+  POLICE_RUBBER_BAND_MAX,
+  POLICE_RUBBER_BAND_MIN,
+  POLICE_RUBBER_BAND_NEAR,
+} from "./constants";
+import type { Obstacle, PoliceCar } from "./types";
+
+export function createPoliceCar(x: number, speed: number): PoliceCar {
+  return { x, speed, state: "pursuing", altitude: 0, climb: 0 };
+}
+
+// What the police react to each tick.
+export interface PoliceSurroundings {
+  obstacles: Obstacle[];
+  playerX: number;
+  // Chase speed before rubber-banding (already scaled for difficulty)
+  cruiseSpeed: number;
+}
+
+// Speed multiplier from how far the player leads the car's front bumper.
+export function getRubberBand(lead: number): number {
+  const t = Math.min(1, Math.max(0, (lead - POLICE_RUBBER_BAND_NEAR) / (POLICE_RUBBER_BAND_FAR - POLICE_RUBBER_BAND_NEAR)));
+  return POLICE_RUBBER_BAND_MIN + (POLICE_RUBBER_BAND_MAX - POLICE_RUBBER_BAND_MIN) * t;
+}
+
+// Advance the police car one tick. The car chases at a rubber-banded speed,
+// brakes to squeeze past low beams, and jumps gaps it can clear or flies
+// over wider ones.
+export function updatePolice(police: PoliceCar, { obstacles, playerX, cruiseSpeed }: PoliceSurroundings) {
+  const front = police.x + POLICE_LENGTH;
+  // Any wheel still over a gap keeps the car airborne
+  const overGap = obstacles.some(o => o.type === "gap" && front > o.x && police.x < o.x + o.width);
+  let targetSpeed = cruiseSpeed * getRubberBand(playerX - front);
+
+  switch (police.state) {
+    case "pursuing":
+    case "braking": {
+      // Take off just before the front wheels would drop into a gap
+      const gapAhead = obstacles.find(o => o.type === "gap" && o.x >= front && o.x - front <= police.speed);
+      if (gapAhead) {
+        if (gapAhead.width <= POLICE_MAX_JUMP_GAP) {
+          // Enough hang time to carry the whole car across at the current speed
+          const airTicks = (gapAhead.width + POLICE_LENGTH) / Math.max(police.speed, 1);
+          police.state = "jumping";
+          police.climb = (airTicks * GRAVITY) / 2;
+        } else {
+          police.state = "flying";
+        }
+        break;
+      }
+
+      const wallAhead = obstacles.some(o => o.type === "low_beam" && o.x + o.width > police.x && o.x - front < POLICE_BRAKE_DISTANCE);
+      police.state = wallAhead ? "braking" : "pursuing";
+      if (wallAhead) targetSpeed = Math.min(targetSpeed, POLICE_BRAKE_SPEED);
+      break;
+    }
+
+    case "jumping":
+      police.altitude += police.climb;
+      police.climb -= GRAVITY;
+      if (police.altitude <= 0) {
+        police.altitude = 0;
+        police.climb = 0;
+        // Came up short: deploy the rotor rather than drop into the pit
+        police.state = overGap ? "flying" : "pursuing";
+      }
+      // Ballistic: no throttle changes in the air
+      police.x += police.speed;
+      return;
+
+    case "flying":
+      targetSpeed *= POLICE_FLY_SPEED_FACTOR;
+      if (overGap) {
+        police.altitude += (POLICE_FLY_ALTITUDE - police.altitude) * 0.1;
+      } else {
+        police.altitude = Math.max(0, police.altitude - 3);
+        if (police.altitude === 0) police.state = "pursuing";
+      }
+      break;
+  }
+
+  const change = targetSpeed - police.speed;
+  police.speed += Math.max(-POLICE_DECELERATION, Math.min(POLICE_ACCELERATION, change));
+  police.x += police.speed;
+}
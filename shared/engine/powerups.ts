@@ -0,0 +1,17 @@
+import { SIMULATION_HZ } from "./constants";
+import type { PowerUpKind } from "./types";
+
+export const POWER_UP_KINDS: readonly PowerUpKind[] = ["magnet", "shield", "smokeBomb", "speedBurst"];
+
+// How long each pickup lasts once collected. The shield also ends early when
+// it absorbs a hit.
+export const POWER_UPS: Record<PowerUpKind, { name: string; description: string; durationTicks: number }> = {
+  magnet: { name: "Magnet", description: "Pulls nearby coins in", durationTicks: 8 * SIMULATION_HZ },
+  shield: { name: "Shield", description: "Absorbs one crash", durationTicks: 10 * SIMULATION_HZ },
+  smokeBomb: { name: "Smoke Bomb", description: "Knocks the police back and slows them", durationTicks: 3 * SIMULATION_HZ },
+  speedBurst: { name: "Speed Burst", description: "Run faster for a few seconds", durationTicks: 4 * SIMULATION_HZ },
+};
+
+export function createPowerUpTimers(): Record<PowerUpKind, number> {
+  return { magnet: 0, shield: 0, smokeBomb: 0, speedBurst: 0 };
+}
@@ -0,0 +1,136 @@
+import {
+  GRAVITY,
+  K9_LENGTH,
+  K9_MAX_LEAP,
+  K9_SPEED_FACTOR,
+  MOTORBIKE_LENGTH,
+  MOTORBIKE_SPEED_FACTOR,
+  POLICE_ACCELERATION,
+  POLICE_DECELERATION,
+  POLICE_HELI_LEAD,
+  POLICE_HELI_SPEED_FACTOR,
+  POLICE_HELI_STAY_TICKS,
+  POLICE_HELI_Y,
+  POLICE_MAX_JUMP_GAP,
+  SIMULATION_HZ,
+  SPOTLIGHT_SWEEP,
+  SPOTLIGHT_SWEEP_RATE,
+} from "./constants";
+import { getRubberBand, type PoliceSurroundings } from "./police";
+import type { GroundPursuer, Obstacle, PoliceHelicopter, Pursuer } from "./types";
+
+// Who joins the chase and when. Each kind is on the road at most once at a
+// time; after one drops out the next waits `respawnTicks`.
+export const PURSUER_ROSTER: ReadonlyArray<{ kind: Pursuer["kind"]; fromDistance: number; respawnTicks: number }> = [
+  { kind: "motorbike", fromDistance: 2500, respawnTicks: 6 * SIMULATION_HZ },
+  { kind: "k9", fromDistance: 5000, respawnTicks: 8 * SIMULATION_HZ },
+  { kind: "helicopter", fromDistance: 8000, respawnTicks: 20 * SIMULATION_HZ },
+];
+
+// Ground units further back than this have lost the player and leave
+const GIVE_UP_DISTANCE = 1500;
+// Halted units linger on screen this long before being removed
+const HALTED_TICKS = 90;
+
+export function createPursuer(kind: Pursuer["kind"], playerX: number): Pursuer {
+  if (kind === "helicopter") {
+    const x = playerX - 600;
+    return { kind, x, y: POLICE_HELI_Y, sweep: 0, spotlightX: x, lit: false, heat: 0, ticksLeft: POLICE_HELI_STAY_TICKS };
+  }
+  return { kind, x: playerX - 900, speed: 0, state: "chasing", altitude: 0, climb: 0, haltedTicks: 0 };
+}
+
+export function getPursuerLength(unit: GroundPursuer) {
+  return unit.kind === "motorbike" ? MOTORBIKE_LENGTH : K9_LENGTH;
+}
+
+function isOverGap(obstacles: Obstacle[], from: number, to: number) {
+  return obstacles.some(o => o.type === "gap" && to > o.x && from < o.x + o.width);
+}
+
+// Advance a motorbike or dog one tick. Returns what happened so the
+// simulation can raise an event for it.
+export function updateGroundPursuer(
+  unit: GroundPursuer,
+  { obstacles, playerX, cruiseSpeed }: PoliceSurroundings,
+): "leap" | "halt" | null {
+  const length = getPursuerLength(unit);
+  const front = unit.x + length;
+
+  switch (unit.state) {
+    case "halted":
+      unit.haltedTicks++;
+      unit.speed *= 0.9;
+      unit.x += unit.speed;
+      // A bike that came off over a gap falls in
+      if (isOverGap(obstacles, unit.x, front)) unit.altitude -= 8;
+      return null;
+
+    case "leaping":
+      unit.altitude += unit.climb;
+      unit.climb -= GRAVITY;
+      unit.x += unit.speed;
+      if (unit.altitude <= 0) {
+        unit.altitude = 0;
+        unit.climb = 0;
+        if (isOverGap(obstacles, unit.x, front)) {
+          unit.state = "halted";
+          return "halt";
+        }
+        unit.state = "chasing";
+      }
+      return null;
+
+    case "chasing": {
+      const factor = unit.kind === "motorbike" ? MOTORBIKE_SPEED_FACTOR : K9_SPEED_FACTOR;
+      const targetSpeed = cruiseSpeed * factor * getRubberBand(playerX - front);
+      const change = targetSpeed - unit.speed;
+      unit.speed += Math.max(-POLICE_DECELERATION, Math.min(POLICE_ACCELERATION * 2, change));
+
+      // Bikes ride under low beams and dogs run under them, so only spikes
+      // and gaps matter
+      const ahead = obstacles.find(o => (o.type === "spike" || o.type === "gap") && o.x >= front && o.x - front <= unit.speed);
+      unit.x += unit.speed;
+      if (!ahead) return null;
+
+      const maxLeap = unit.kind === "motorbike" ? POLICE_MAX_JUMP_GAP : K9_MAX_LEAP;
+      const canLeap = ahead.type === "gap"
+        ? ahead.width <= maxLeap
+        : unit.kind === "k9"; // Tyres versus spikes never ends well
+      if (!canLeap) {
+        unit.state = "halted";
+        if (unit.kind === "k9") unit.speed = 0; // Stops at the lip
+        return "halt";
+      }
+
+      const airTicks = (ahead.width + length) / Math.max(unit.speed, 1);
+      unit.state = "leaping";
+      unit.climb = (airTicks * GRAVITY) / 2;
+      return "leap";
+    }
+  }
+}
+
+// Hover ahead of the player sweeping the spotlight, then fly off once the
+// stay runs out.
+export function updateHelicopter(heli: PoliceHelicopter, { playerX, cruiseSpeed }: PoliceSurroundings) {
+  const maxSpeed = cruiseSpeed * POLICE_HELI_SPEED_FACTOR;
+  heli.ticksLeft--;
+  heli.sweep += SPOTLIGHT_SWEEP_RATE;
+
+  if (heli.ticksLeft > 0) {
+    const chase = (playerX + POLICE_HELI_LEAD - heli.x) * 0.05;
+    heli.x += Math.max(-maxSpeed, Math.min(maxSpeed, chase));
+    heli.y = POLICE_HELI_Y + Math.sin(heli.sweep * 2) * 6;
+  } else {
+    heli.x += maxSpeed;
+    heli.y -= 2;
+  }
+  heli.spotlightX = heli.x + Math.sin(heli.sweep) * SPOTLIGHT_SWEEP;
+}
+
+// Whether a pursuer has left the chase and can be dropped.
+export function isPursuerDone(unit: Pursuer, playerX: number) {
+  if (unit.kind === "helicopter") return unit.ticksLeft <= 0 && unit.y < -100;
+  return (unit.state === "halted" && unit.haltedTicks > HALTED_TICKS) || unit.x < playerX - GIVE_UP_DISTANCE;
+}
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getAutopilotInput } from "./autopilot";
+import { InputRecorder, ReplayPlayer } from "./replay";
+import { HeistSimulation } from "./simulation";
+import { NO_UPGRADES } from "./upgrades";
+
+// The obstacles a run has been shown so far, by where they sit
+function noteObstacles(sim: HeistSimulation, seen: Map<object, string>) {
+  for (const o of sim.obstacles) if (!seen.has(o)) seen.set(o, `${o.type} ${o.x} ${o.width}`);
+}
+
+describe("ghost races", () => {
+  it("play the ghost on the racer's course whatever loadout it was recorded with", () => {
+    const seed = 5;
+    const upgrades = { ...NO_UPGRADES, glide: 3, vineReach: 3 };
+
+    // The ghost's run, recorded as another character with upgrades
+    const recorded = new HeistSimulation(seed, [], upgrades, "ninja");
+    const recorder = new InputRecorder(seed, [], upgrades, "ninja");
+    for (let tick = 0; tick < 1200 && recorded.status === "running"; tick++) {
+      const input = getAutopilotInput(recorded);
+      recorder.record(input);
+      recorded.step(input);
+    }
+    const replay = recorder.toReplay();
+
+    // Raced by a classic runner without upgrades, stepping both side by side as the game does
+    const racer = new HeistSimulation(seed, [], NO_UPGRADES, "classic");
+    const ghost = new HeistSimulation(replay.seed, replay.modifiers, replay.upgrades, replay.character);
+    const ghostInputs = new ReplayPlayer(replay);
+    const racerSeen = new Map<object, string>();
+    const ghostSeen = new Map<object, string>();
+    for (let tick = 0; tick < 1200; tick++) {
+      noteObstacles(racer, racerSeen);
+      noteObstacles(ghost, ghostSeen);
+      if (racer.status === "running") racer.step(getAutopilotInput(racer));
+      const input = ghostInputs.next();
+      if (input && ghost.status === "running") ghost.step(input);
+    }
+
+    // Compared as far as both courses have surely been laid out
+    const reach = Math.min(racer.cameraX, ghost.cameraX);
+    assert.ok(reach > 3000);
+    const within = (seen: Map<object, string>) =>
+      Array.from(seen.values()).filter((label) => Number(label.split(" ")[1]) < reach).sort();
+    assert.deepEqual(within(ghostSeen), within(racerSeen));
+  });
+});
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { CHARACTER_IDS, type CharacterId } from "./characters";
+import { SIMULATION_HZ } from "./constants";
+import type { Level } from "./level";
+import { MODIFIER_IDS, type ModifierId } from "./modifiers";
+import { HeistSimulation } from "./simulation";
+import type { RunStats } from "./stats";
+import { NO_UPGRADES, upgradeLevelsSchema, type UpgradeLevels } from "./upgrades";
+import type { SimulationInput, SimulationStatus } from "./types";
+
+// Bumped whenever a gameplay change means older replays no longer reproduce
+export const REPLAY_VERSION = 11;
+// Upper bound on replay length (15 minutes); bounds server-side re-simulation cost
+export const MAX_REPLAY_TICKS = 15 * 60 * SIMULATION_HZ;
+
+const INPUT_UP = 1;
+const INPUT_DOWN = 2;
+
+// A run is fully described by its seed (plus any modifiers, upgrades, the character and level) and
+// the input held on every tick.
+// Inputs are run-length encoded as [tickCount, inputBits] pairs, which keeps a
+// multi-minute run down to a few hundred entries.
+export const replaySchema = z.object({
+  version: z.literal(REPLAY_VERSION),
+  seed: z.number().int().min(0).max(0xffffffff),
+  // Absent in replays saved before modifiers existed
+  modifiers: z.array(z.enum(MODIFIER_IDS)).max(MODIFIER_IDS.length).default([]),
+  upgrades: upgradeLevelsSchema.default({}),
+  character: z.enum(CHARACTER_IDS).default("classic"),
+  // The hand-built level played, if any; absent for procedural runs
+  levelId: z.string().max(40).optional(),
+  inputs: z.array(z.tuple([
+    z.number().int().positive(),
+    z.number().int().min(0).max(INPUT_UP | INPUT_DOWN),
+  ])).max(MAX_REPLAY_TICKS),
+});
+
+export type Replay = z.infer<typeof replaySchema>;
+
+function encodeInput(input: SimulationInput): number {
+  return (input.up ? INPUT_UP : 0) | (input.down ? INPUT_DOWN : 0);
+}
+
+function decodeInput(bits: number): SimulationInput {
+  return { up: (bits & INPUT_UP) !== 0, down: (bits & INPUT_DOWN) !== 0 };
+}
+
+export function getReplayTickCount(replay: Replay): number {
+  return replay.inputs.reduce((total, [ticks]) => total + ticks, 0);
+}
+
+export class InputRecorder {
+  private runs: [number, number][] = [];
+
+  constructor(
+    readonly seed: number,
+    readonly modifiers: readonly ModifierId[] = [],
+    readonly upgrades: UpgradeLevels = NO_UPGRADES,
+    readonly character: CharacterId = "classic",
+    readonly levelId?: string,
+  ) {}
+
+  // Call once per simulation tick with the input passed to step().
+  record(input: SimulationInput) {
+    const bits = encodeInput(input);
+    const last = this.runs[this.runs.length - 1];
+    if (last && last[1] === bits) {
+      last[0]++;
+    } else {
+      this.runs.push([1, bits]);
+    }
+  }
+
+  toReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      modifiers: [...this.modifiers],
+      upgrades: { ...this.upgrades },
+      character: this.character,
+      levelId: this.levelId,
+      inputs: this.runs.map(([ticks, bits]) => [ticks, bits]),
+    };
+  }
+}
+
+// Feeds a recorded input log back one tick at a time.
+export class ReplayPlayer {
+  private runIndex = 0;
+  private runOffset = 0;
+
+  constructor(readonly replay: Replay) {}
+
+  get done(): boolean {
+    return this.runIndex >= this.replay.inputs.length;
+  }
+
+  // Input for the next tick, or null once the log is exhausted.
+  next(): SimulationInput | null {
+    if (this.done) return null;
+    const [ticks, bits] = this.replay.inputs[this.runIndex];
+    this.runOffset++;
+    if (this.runOffset >= ticks) {
+      this.runIndex++;
+      this.runOffset = 0;
+    }
+    return decodeInput(bits);
+  }
+}
+
+export interface ReplayResult {
+  status: SimulationStatus;
+  score: number;
+  distance: number;
+  coins: number;
+  stats: RunStats;
+  // Ticks actually simulated; less than the log's length if the run ended early
+  ticks: number;
+}
+
+// Re-run a replay from scratch on a fresh simulation. Stops when the run ends,
+// the input log is exhausted, or MAX_REPLAY_TICKS is reached. A level replay
+// needs the level it was recorded on.
+export function runReplay(replay: Replay, level: Level | null = null): ReplayResult {
+  if ((replay.levelId ?? null) !== (level?.id ?? null)) {
+    throw new Error(`Replay is for level ${replay.levelId ?? "(none)"}, not ${level?.id ?? "(none)"}`);
+  }
+  const sim = new HeistSimulation(replay.seed, replay.modifiers, replay.upgrades, replay.character, level);
+  const player = new ReplayPlayer(replay);
+  let ticks = 0;
+
+  while (sim.status === "running" && ticks < MAX_REPLAY_TICKS) {
+    const input = player.next();
+    if (!input) break;
+    sim.step(input);
+    ticks++;
+  }
+
+  return {
+    status: sim.status,
+    score: sim.scoreValue,
+    distance: Math.floor(sim.distanceTraveled),
+    coins: sim.coinsCollected,
+    stats: { ...sim.stats },
+    ticks,
+  };
+}
@@ -0,0 +1,53 @@
+const MAX_SEED = 0xffffffff;
+
+// Small, fast deterministic PRNG (mulberry32). Every procedural decision in a
+// run draws from one of these so a seed reproduces the exact same layout.
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1), same contract as Math.random().
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) >>> 0;
+}
+
+// Seeds are shown to players as short base-36 codes, e.g. "1Z4K9Q".
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36).toUpperCase();
+}
+
+// Accepts a code produced by formatSeed, or any other text which is hashed
+// (FNV-1a) so players can also share memorable words as seeds.
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (/^[0-9a-z]{1,7}$/i.test(trimmed)) {
+    const value = parseInt(trimmed, 36);
+    if (value <= MAX_SEED) return value >>> 0;
+  }
+
+  return hashSeed(trimmed);
+}
+
+// FNV-1a hash of arbitrary text into the seed range.
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
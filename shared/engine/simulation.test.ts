@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getAutopilotInput } from "./autopilot";
+import type { CharacterId } from "./characters";
+import { HeistSimulation } from "./simulation";
+import type { SimulationInput } from "./types";
+import { NO_UPGRADES, type UpgradeLevels } from "./upgrades";
+
+// Everything the course put down during a run, by position, and how far
+// ahead it's sure to be complete (set pieces reach up to 2000 past the cursor)
+function playLayout(
+  seed: number,
+  character: CharacterId,
+  upgrades: UpgradeLevels,
+  play: (sim: HeistSimulation, tick: number) => SimulationInput,
+) {
+  const sim = new HeistSimulation(seed, [], upgrades, character);
+  // Noted where each first appears, since a magnet pulls coins in
+  const items = new Map<object, { x: number; label: string }>();
+  const add = (item: object, x: number, label: string) => {
+    if (!items.has(item)) items.set(item, { x, label });
+  };
+  const note = () => {
+    for (const o of sim.obstacles) add(o, o.x, `${o.type} ${o.x} ${o.width}`);
+    for (const v of sim.vines) add(v, v.x, `vine ${v.x} ${v.length}`);
+    for (const c of sim.coinsList) add(c, c.x, `coin ${c.x} ${c.y}`);
+    for (const p of sim.platforms) add(p, p.x, `platform ${p.x} ${p.y} ${p.width}`);
+  };
+  for (let tick = 0; tick < 1500 && sim.status === "running"; tick++) {
+    note();
+    sim.step(play(sim, tick));
+  }
+  note();
+  const all = Array.from(items.values());
+  return { all, reach: Math.max(...all.map((item) => item.x)) - 2000 };
+}
+
+describe("course layout", () => {
+  it("depends on the seed alone, not on how the run is played", () => {
+    const autopilot = (sim: HeistSimulation) => getAutopilotInput(sim);
+    const slideFirst = (sim: HeistSimulation, tick: number) =>
+      tick > 100 && tick < 220 ? { up: false, down: true } : getAutopilotInput(sim);
+
+    for (const seed of [5, 27]) {
+      const runs = [
+        playLayout(seed, "classic", NO_UPGRADES, autopilot),
+        playLayout(seed, "classic", NO_UPGRADES, slideFirst),
+        playLayout(seed, "ninja", NO_UPGRADES, autopilot),
+        playLayout(seed, "classic", { ...NO_UPGRADES, glide: 3, vineReach: 3 }, autopilot),
+      ];
+      const reach = Math.min(...runs.map((run) => run.reach));
+      assert.ok(reach > 3000, `seed ${seed} should get some way into the course`);
+      const [first, ...rest] = runs.map((run) =>
+        run.all.filter((item) => item.x < reach).map((item) => item.label).sort(),
+      );
+      for (const layout of rest) assert.deepEqual(layout, first);
+    }
+  });
+});
@@ -0,0 +1,1441 @@
+import {
+  BASE_GROUND_Y,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  GAP_FLATTEN_RANGE,
+  GLIDE_CHARGE_DISTANCE,
+  GRAVITY,
+  JUMP_FORCE,
+  MUSHROOM_BOUNCE_FORCE,
+  MUSHROOM_GAP_BUFFER,
+  MUSHROOM_HEIGHT,
+  MUSHROOM_SPEED_BOOST,
+  MUSHROOM_VINE_BUFFER,
+  MUSHROOM_WIDTH,
+  PLAYER_BASE_SPEED,
+  PLAYER_HEIGHT,
+  PLAYER_WIDTH,
+  PLATFORM_BEAM_CLEARANCE,
+  POWER_UP_PICKUP_RADIUS,
+  POWER_UP_SPACING,
+  MAGNET_PULL,
+  MAGNET_RADIUS,
+  SMOKE_BOMB_KNOCKBACK,
+  SMOKE_BOMB_SLOW,
+  SPEED_BURST_BOOST,
+  POLICE_NEAR_MISS_CLEAR,
+  POLICE_NEAR_MISS_DISTANCE,
+  POLICE_SPEED,
+  SIMULATION_HZ,
+  SLIDE_HEIGHT,
+  SPOTLIGHT_CAPTURE_HEAT,
+  SPOTLIGHT_COOLING,
+  SPOTLIGHT_DRAG,
+  SPOTLIGHT_MIN_SPEED,
+  SPOTLIGHT_RADIUS,
+  THE_ABYSS,
+  VICTORY_DISTANCE,
+  VINE_SPIKE_BUFFER,
+  VINE_WALL_BUFFER,
+} from "./constants";
+import {
+  BIOME_RAMP_STEP,
+  BIOMES,
+  getBiomeAt,
+  getBiomeIndex,
+  isSetPiece,
+  pickObstaclePattern,
+  type BiomeId,
+  type ObstaclePattern,
+  type SetPiece,
+} from "./biomes";
+import { getCharacterTuning, type CharacterId, type CharacterTuning } from "./characters";
+import { SimulationEventBus } from "./events";
+import { DEFAULT_OBSTACLE_HEIGHTS, type Level } from "./level";
+import { getModifierTuning, type ModifierId, type ModifierTuning } from "./modifiers";
+import { FIRE_ESCAPE_LEVEL_GAP, PLATFORMS, findPlatformBelow } from "./platforms";
+import { createPoliceCar, updatePolice, type PoliceSurroundings } from "./police";
+import { POWER_UP_KINDS, POWER_UPS, createPowerUpTimers } from "./powerups";
+import {
+  PURSUER_ROSTER,
+  createPursuer,
+  getPursuerLength,
+  isPursuerDone,
+  updateGroundPursuer,
+  updateHelicopter,
+} from "./pursuers";
+import { SeededRandom, randomSeed } from "./rng";
+import { SolutionSearch, createSectionProbe } from "./solvability";
+import { createRunStats, tallyEvent, type RunStats } from "./stats";
+import { NO_UPGRADES, getUpgradeTuning, type UpgradeLevels, type UpgradeTuning } from "./upgrades";
+import type {
+  Coin,
+  Obstacle,
+  Plane,
+  Platform,
+  PlatformKind,
+  Player,
+  PoliceCar,
+  PowerUp,
+  PowerUpKind,
+  Pursuer,
+  PursuerKind,
+  SimulationEvent,
+  SimulationInput,
+  SimulationStatus,
+  TerrainSegment,
+  Vine,
+} from "./types";
+
+// Point along the vine's drawn bezier curve, t in [0, 1] from anchor to tip.
+export function getVinePoint(vine: Vine, t: number) {
+  const startX = vine.x;
+  const startY = vine.anchorY;
+  const endX = vine.x + Math.sin(vine.angle) * vine.length;
+  const endY = vine.anchorY + Math.cos(vine.angle) * vine.length;
+
+  const cp1x = vine.x + Math.sin(vine.angle * 0.5) * vine.length * 0.3;
+  const cp1y = vine.anchorY + vine.length * 0.3;
+  const cp2x = vine.x + Math.sin(vine.angle * 0.8) * vine.length * 0.7;
+  const cp2y = vine.anchorY + vine.length * 0.7;
+
+  const u = 1 - t;
+  const tt = t * t;
+  const uu = u * u;
+  const uuu = uu * u;
+  const ttt = tt * t;
+
+  const x = uuu * startX + 3 * uu * t * cp1x + 3 * u * tt * cp2x + ttt * endX;
+  const y = uuu * startY + 3 * uu * t * cp1y + 3 * u * tt * cp2y + ttt * endY;
+  return { x, y };
+}
+
+// Where the course starts, leaving a clear stretch to get going on
+const LAYOUT_START = CANVAS_WIDTH + 800;
+// How far ahead of the screen's right edge the course is laid out, which is
+// the run of ticks a set piece's search has before it comes into view
+const LAYOUT_AHEAD = 2400;
+// The course is laid out from a cursor that moves in steps of about a tick's
+// running, so spacing draws come out as they would following the camera
+const LAYOUT_STEP = PLAYER_BASE_SPEED;
+// Tries at a set piece the generator can't prove winnable before it settles for a spike
+const SET_PIECE_ATTEMPTS = 2;
+// Longest a set piece runs past where it spawns (a chasm: 500 to the lip and
+// up to 1200 across), plus flattening and room to land
+const SET_PIECE_REACH = 2000;
+// Fewest simulated ticks of a set piece's search run per tick of the run, a
+// couple of milliseconds' work. Slices grow when the search would otherwise
+// still be going as the set piece scrolls into view.
+const SET_PIECE_SEARCH_SLICE = 30;
+
+interface LayoutMark {
+  obstacles: Set<Obstacle>;
+  vines: Set<Vine>;
+  terrain: TerrainSegment[];
+  nextTerrainX: number;
+  lastObstacleX: number;
+  lastVineX: number;
+}
+
+// A set piece that's been laid out but not yet proven winnable
+interface PendingSetPiece {
+  pattern: SetPiece;
+  x: number;
+  // Set pieces already turned down at this spot
+  attempt: number;
+  mark: LayoutMark;
+  search: SolutionSearch;
+}
+
+// Deep copy of simulation state. Objects reached twice stay shared in the
+// copy, so the vine the player hangs from is still one of its `vines`.
+function copyState<T>(value: T, copies: Map<object, unknown>): T {
+  if (value === null || typeof value !== "object") return value;
+  const existing = copies.get(value);
+  if (existing) return existing as T;
+  const copy = Array.isArray(value) ? [] : Object.create(Object.getPrototypeOf(value));
+  copies.set(value, copy);
+  for (const key of Object.keys(value)) {
+    copy[key] = copyState((value as Record<string, unknown>)[key], copies);
+  }
+  return copy;
+}
+
+// Headless game simulation. Owns all gameplay state and advances it one fixed
+// tick per step(); rendering, audio and UI live outside and only read from it.
+export class HeistSimulation {
+  player!: Player;
+  police!: PoliceCar;
+  pursuers: Pursuer[] = [];
+  // Who ended the run, if it ended in an arrest
+  caughtBy: PursuerKind | null = null;
+  plane!: Plane;
+  cameraX = 0;
+  obstacles: Obstacle[] = [];
+  vines: Vine[] = [];
+  coinsList: Coin[] = [];
+  powerUps: PowerUp[] = [];
+  // Ticks left on each collected power-up; 0 means inactive
+  powerUpTicks: Record<PowerUpKind, number> = createPowerUpTimers();
+  terrain: TerrainSegment[] = [];
+  platforms: Platform[] = [];
+  distanceTraveled = 0;
+  scoreValue = 0;
+  coinsCollected = 0;
+  frameCount = 0;
+  nextTerrainX = 0;
+  lastObstacleX = 0;
+  lastVineX = 0;
+  lastCoinX = 0;
+  lastPowerUpX = 0;
+  lastPlatformX = 0;
+  vineSwingTime = 0;
+  vineGrabCooldown = 0;
+  glideSeconds = 0;
+  glideChargeProgress = 0;
+  nextGlideChargeDistance = GLIDE_CHARGE_DISTANCE;
+  // Biomes the player has run into so far, counting the first (see biomes.ts)
+  biomeIndex = 0;
+  // Checkpoints passed so far; each one banks a respawn
+  checkpointsReached = 0;
+  respawnsUsed = 0;
+  status: SimulationStatus = "running";
+  seed!: number;
+  modifiers: ModifierId[] = [];
+  upgrades: UpgradeLevels = NO_UPGRADES;
+  upgradeTuning!: UpgradeTuning;
+  character: CharacterId = "classic";
+  characterTuning!: CharacterTuning;
+  // Hand-built level being played, or null for a procedural run
+  level: Level | null = null;
+  // Calls off the police and other pursuers for good, so balance runs can
+  // see which obstacles end a run rather than who catches up. Kept over reset().
+  chaseOff = false;
+  // Counted from this run's events, for lifetime stats and achievements
+  stats: RunStats = createRunStats();
+  // Subscriptions survive reset(), so listeners carry over from run to run
+  readonly events = new SimulationEventBus();
+
+  private rng!: SeededRandom;
+  private tuning!: ModifierTuning;
+  private input: SimulationInput = { up: false, down: false };
+  private tickEvents: SimulationEvent[] = [];
+  // Earliest frame each roster pursuer may (re)join the chase
+  private pursuerReadyFrame: Partial<Record<Pursuer["kind"], number>> = {};
+  // Coins earned including fractions from the character's multiplier; coinsCollected is the whole part
+  private coinValue = 0;
+  // Ticks left before a released slide stands back up
+  private slideLinger = 0;
+  // Set while the police car is within a near-miss of the player
+  private policeCloseCall = false;
+  private pendingSetPiece: PendingSetPiece | null = null;
+  // Where the course has been laid out to (see layOutTo)
+  private layoutX = 0;
+  // Platform the player is dropping through, ignored until they are below it
+  private dropThrough: Platform | null = null;
+
+  constructor(
+    seed: number = randomSeed(),
+    modifiers: readonly ModifierId[] = [],
+    upgrades: UpgradeLevels = NO_UPGRADES,
+    character: CharacterId = "classic",
+    level: Level | null = null,
+  ) {
+    this.events.onAny((event) => tallyEvent(this.stats, event));
+    this.reset(seed, modifiers, upgrades, character, level);
+  }
+
+  // Restart the run. Reuses the current seed, modifiers, upgrades, character and level unless new ones are given.
+  reset(
+    seed: number = this.seed,
+    modifiers: readonly ModifierId[] = this.modifiers,
+    upgrades: UpgradeLevels = this.upgrades,
+    character: CharacterId = this.character,
+    level: Level | null = this.level,
+  ) {
+    this.seed = seed >>> 0;
+    this.modifiers = [...modifiers];
+    this.upgrades = { ...upgrades };
+    this.character = character;
+    this.level = level;
+    this.tuning = getModifierTuning(this.modifiers);
+    this.upgradeTuning = getUpgradeTuning(this.upgrades);
+    this.characterTuning = getCharacterTuning(this.character);
+    this.rng = new SeededRandom(this.seed);
+    this.player = {
+      x: CANVAS_WIDTH / 3,
+      y: BASE_GROUND_Y - PLAYER_HEIGHT,
+      vx: PLAYER_BASE_SPEED,
+      vy: 0,
+      width: PLAYER_WIDTH,
+      height: PLAYER_HEIGHT,
+      state: "running",
+      animFrame: 0,
+      onVine: null,
+      vineLength: 0,
+      invincible: 0,
+    };
+    this.police = createPoliceCar(-200, POLICE_SPEED * this.tuning.policeSpeed);
+    this.pursuers = [];
+    this.caughtBy = null;
+    this.pursuerReadyFrame = {};
+    this.plane = { x: -200, y: 100, vx: 0, state: "hidden", rotorAngle: 0 };
+    this.cameraX = 0;
+    this.obstacles = [];
+    this.vines = [];
+    this.coinsList = [];
+    this.powerUps = [];
+    this.powerUpTicks = createPowerUpTimers();
+    this.terrain = [];
+    this.platforms = [];
+    this.dropThrough = null;
+    this.distanceTraveled = 0;
+    this.scoreValue = 0;
+    this.coinsCollected = 0;
+    this.coinValue = 0;
+    this.slideLinger = 0;
+    this.policeCloseCall = false;
+    this.stats = createRunStats();
+    this.frameCount = 0;
+    this.nextTerrainX = 0;
+    this.lastObstacleX = 0;
+    this.lastVineX = 0;
+    this.lastCoinX = 0;
+    this.lastPowerUpX = 0;
+    this.lastPlatformX = 0;
+    this.pendingSetPiece = null;
+    this.layoutX = LAYOUT_START;
+    this.vineSwingTime = 0;
+    this.vineGrabCooldown = 0;
+    this.glideSeconds = 0;
+    this.glideChargeProgress = 0;
+    this.nextGlideChargeDistance = GLIDE_CHARGE_DISTANCE;
+    this.biomeIndex = 0;
+    this.checkpointsReached = 0;
+    this.respawnsUsed = 0;
+    this.status = "running";
+    this.input = { up: false, down: false };
+    this.tickEvents = [];
+
+    if (level) {
+      this.loadLevel(level);
+    } else {
+      this.generateTerrain(0, 20);
+      // The first stretch is laid out before the run starts, and its set
+      // pieces are settled there and then rather than over the opening ticks
+      this.layOutTo(CANVAS_WIDTH + LAYOUT_AHEAD);
+      while (this.pendingSetPiece) {
+        this.checkSetPiece(Infinity);
+        this.layOutTo(CANVAS_WIDTH + LAYOUT_AHEAD);
+      }
+    }
+  }
+
+  // Lays out a hand-built level in place of procedural generation. Nothing
+  // spawns during a level run, so everything is placed up front.
+  private loadLevel(level: Level) {
+    this.terrain = level.terrain.map(segment => ({ ...segment }));
+    this.nextTerrainX = Infinity;
+    this.obstacles = level.obstacles.map(o => ({ ...o, height: o.height ?? DEFAULT_OBSTACLE_HEIGHTS[o.type], passed: false }));
+    this.platforms = level.platforms.map(platform => ({ ...platform }));
+    this.vines = level.vines.map(vine => ({ ...vine, angularVelocity: 0 }));
+    this.coinsList = level.coins.map(coin => ({ ...coin, collected: false, rotation: 0 }));
+    this.powerUps = level.powerUps.map(powerUp => ({ ...powerUp, collected: false }));
+    this.player.y = this.getTerrainHeight(this.player.x) - PLAYER_HEIGHT;
+  }
+
+  // An independent copy of the run as it stands, for looking ahead (the
+  // solvability checker branches on copies). Listeners aren't copied.
+  clone(): HeistSimulation {
+    // The level is never modified, so the copy can share it
+    const copies = new Map<object, unknown>(this.level ? [[this.level, this.level]] : []);
+    const state: Partial<this> = {};
+    for (const key of Object.keys(this) as (keyof this)[]) {
+      if (key !== "events") state[key] = copyState(this[key], copies);
+    }
+    const copy: HeistSimulation = Object.assign(Object.create(HeistSimulation.prototype), state, {
+      events: new SimulationEventBus(),
+    });
+    copy.events.onAny((event) => tallyEvent(copy.stats, event));
+    return copy;
+  }
+
+  // Whether the police and other pursuers are after the player
+  get chasing() {
+    return !this.chaseOff && (this.level?.chase ?? true);
+  }
+
+  // Glide time earned per charge, after upgrades and the character's trait
+  get glideChargeSeconds() {
+    return this.upgradeTuning.glideChargeSeconds * this.characterTuning.glideChargeSeconds;
+  }
+
+  // The biome the player is currently running through
+  get biome(): BiomeId {
+    return this.level?.biome ?? getBiomeAt(this.player.x);
+  }
+
+  getTerrainHeight(worldX: number, visuals: boolean = false): number {
+    const gaps = this.obstacles.filter(o => o.type === "gap");
+
+    // Force pits to be lethal (physics sees abyss, visuals see terrain)
+    const inGap = gaps.some(o => worldX >= o.x && worldX <= o.x + o.width);
+    if (inGap && !visuals) return THE_ABYSS;
+
+    // A level's ground stops where its terrain does
+    const levelEnd = this.level ? this.terrain[this.terrain.length - 1]?.endX ?? 0 : Infinity;
+    if (worldX >= levelEnd && !visuals) return THE_ABYSS;
+
+    let terrainY = BASE_GROUND_Y;
+    for (const segment of this.terrain) {
+      if (worldX >= segment.startX && worldX < segment.endX) {
+        const t = (worldX - segment.startX) / (segment.endX - segment.startX);
+        terrainY = segment.startY + (segment.endY - segment.startY) * t;
+        break;
+      }
+    }
+
+    if (gaps.length > 0) {
+      let blend = 0;
+      for (const gap of gaps) {
+        const leftStart = gap.x - GAP_FLATTEN_RANGE;
+        const rightEnd = gap.x + gap.width + GAP_FLATTEN_RANGE;
+        if (worldX >= leftStart && worldX < gap.x) {
+          const t = (worldX - leftStart) / GAP_FLATTEN_RANGE;
+          blend = Math.max(blend, t);
+        } else if (worldX > gap.x + gap.width && worldX <= rightEnd) {
+          const t = (rightEnd - worldX) / GAP_FLATTEN_RANGE;
+          blend = Math.max(blend, t);
+        }
+      }
+      if (blend > 0) {
+        terrainY = terrainY * (1 - blend) + BASE_GROUND_Y * blend;
+      }
+    }
+
+    return terrainY;
+  }
+
+  // What something coming down at worldX from height fromY lands on: the
+  // nearest platform below it, otherwise the ground (THE_ABYSS over a pit
+  // unless `visuals` is set, as with getTerrainHeight).
+  getSurface(worldX: number, fromY: number, visuals: boolean = false): { y: number; platform: Platform | null } {
+    const terrainY = this.getTerrainHeight(worldX, visuals);
+    const platform = findPlatformBelow(this.platforms, worldX, fromY, this.dropThrough);
+    // Ground that has risen above a platform (gap flattening can do that) wins
+    if (platform && platform.y < terrainY) return { y: platform.y, platform };
+    return { y: terrainY, platform: null };
+  }
+
+  getSurfaceHeight(worldX: number, fromY: number, visuals: boolean = false): number {
+    return this.getSurface(worldX, fromY, visuals).y;
+  }
+
+  // Advances one fixed tick (1 / SIMULATION_HZ seconds). The tick's events are
+  // published on `events` once the tick is complete, so listeners always see a
+  // consistent state; they are also returned for callers that just want the list.
+  step(input: SimulationInput): SimulationEvent[] {
+    this.tickEvents = [];
+    if (this.status !== "running") return this.tickEvents;
+    this.input = { up: input.up, down: input.down };
+    this.update();
+    this.tickEvents.forEach((event) => this.events.emit(event));
+    return this.tickEvents;
+  }
+
+  private emit(event: SimulationEvent) {
+    this.tickEvents.push(event);
+  }
+
+  private generateTerrainTo(x: number) {
+    while (this.nextTerrainX < x) this.generateTerrain(this.nextTerrainX, 10);
+  }
+
+  private generateTerrain(startX: number, count: number) {
+    let currentX = startX;
+    let currentY = this.terrain.length > 0
+      ? this.terrain[this.terrain.length - 1].endY
+      : BASE_GROUND_Y;
+
+    for (let i = 0; i < count; i++) {
+      const { terrain } = BIOMES[getBiomeAt(currentX)];
+      const segmentWidth = terrain.minSegmentWidth + this.rng.next() * (terrain.maxSegmentWidth - terrain.minSegmentWidth);
+      const heightChange = (this.rng.next() - 0.5) * 2 * terrain.roughness;
+      // Stepping into a biome with a different height range ramps over a few
+      // segments instead of leaving a cliff at the boundary
+      const clampedY = Math.max(terrain.minY, Math.min(terrain.maxY, currentY + heightChange));
+      const targetY = currentY + Math.max(-BIOME_RAMP_STEP, Math.min(BIOME_RAMP_STEP, clampedY - currentY));
+
+      this.terrain.push({
+        startX: currentX,
+        endX: currentX + segmentWidth,
+        startY: currentY,
+        endY: targetY,
+      });
+
+      currentX += segmentWidth;
+      currentY = targetY;
+    }
+    this.nextTerrainX = currentX;
+  }
+
+  private flattenTerrain(startX: number, endX: number) {
+    this.terrain.forEach(seg => {
+      if (seg.endX > startX && seg.startX < endX) {
+        seg.startY = BASE_GROUND_Y;
+        seg.endY = BASE_GROUND_Y;
+      }
+    });
+  }
+
+  private spawnVine(worldX: number, options: { force?: boolean; length?: number; angle?: number; anchorY?: number } = {}) {
+    const { force = false, length, angle, anchorY } = options;
+
+    if (!force) {
+      const inGap = this.obstacles.some(o => o.type === "gap" && worldX >= o.x && worldX <= o.x + o.width);
+      if (inGap) return;
+
+      const nearWall = this.obstacles.some(o => o.type === "low_beam" && worldX >= o.x - VINE_WALL_BUFFER && worldX <= o.x + o.width + VINE_WALL_BUFFER);
+      if (nearWall) return;
+
+      const nearSpike = this.obstacles.some(o => o.type === "spike" && worldX >= o.x - VINE_SPIKE_BUFFER && worldX <= o.x + o.width + VINE_SPIKE_BUFFER);
+      if (nearSpike) return;
+
+      const nearMushroom = this.obstacles.some(o => o.type === "mushroom" && worldX >= o.x - MUSHROOM_VINE_BUFFER && worldX <= o.x + o.width + MUSHROOM_VINE_BUFFER);
+      if (nearMushroom) return;
+    }
+
+    this.vines.push({
+      x: worldX,
+      anchorY: anchorY ?? 20,
+      length: length ?? (180 + this.rng.next() * 80),
+      angle: angle ?? -Math.PI / 4,
+      angularVelocity: 0,
+    });
+    this.lastVineX = worldX;
+  }
+
+  // `attempt` counts the set pieces already turned down at worldX
+  private spawnObstacle(worldX: number, attempt: number = 0) {
+    if (attempt >= SET_PIECE_ATTEMPTS) return this.spawnSingleObstacle(worldX, "spike");
+    // Each biome has its own mix; see obstacleWeights in biomes.ts
+    const weights = BIOMES[getBiomeAt(worldX)].obstacleWeights;
+    const pattern = pickObstaclePattern(weights, this.rng.next());
+    if (!isSetPiece(pattern)) return this.spawnSingleObstacle(worldX, pattern);
+
+    // The check needs the ground the set piece sits on, flattened where it should be
+    this.generateTerrainTo(worldX + SET_PIECE_REACH);
+    const mark = this.markLayout();
+    if (pattern === "chasm") this.spawnChasm(worldX);
+    if (pattern === "mushroomLaunch") this.spawnMushroomLaunch(worldX);
+    if (pattern === "mushroomVine") this.spawnMushroomVine(worldX);
+    // Kept for now; checkSetPiece settles it over the next few ticks
+    this.pendingSetPiece = { pattern, x: worldX, attempt, mark, search: this.searchSection(worldX, this.lastObstacleX) };
+  }
+
+  // Search ticks to spend on the pending set piece this tick. Aims to spend
+  // what's left of the budget by halfway to it coming into view, in case the
+  // run speeds up; a search still going once it's in view is finished there
+  // and then.
+  private setPieceSlice(pending: PendingSetPiece) {
+    const ticksToView = (pending.x - this.cameraX - CANVAS_WIDTH) / Math.max(this.player.vx, 1);
+    if (ticksToView <= 0) return Infinity;
+    return Math.max(SET_PIECE_SEARCH_SLICE, Math.ceil(pending.search.ticksLeft / Math.max(ticksToView / 2, 1)));
+  }
+
+  // Carries on the pending set piece's search for up to `slice` ticks, and
+  // takes the set piece back and rolls again if it fails
+  private checkSetPiece(slice: number) {
+    const pending = this.pendingSetPiece;
+    if (!pending || !pending.search.advance(slice)) return;
+
+    this.pendingSetPiece = null;
+    if (pending.search.solution) return;
+    this.emit({ type: "sectionRerolled", pattern: pending.pattern, x: pending.x });
+    this.restoreLayout(pending.mark);
+    this.spawnObstacle(pending.x, pending.attempt + 1);
+  }
+
+  // Layout: a warning sign, then a chasm too wide to jump with a vine before
+  // it and another hanging over the middle.
+  private spawnChasm(worldX: number) {
+    // Warning Sign FIRST
+    this.pushObstacle("warning", worldX, 40, 80); // Tall sign
+
+    // Then the ACTUAL Chasm 500 units later
+    const chasmX = worldX + 500;
+    const width = 800 + this.rng.next() * 400; // Giant
+    this.pushObstacle("gap", chasmX, width, 300);
+
+    // Flatten terrain around chasm
+    this.flattenTerrain(chasmX - GAP_FLATTEN_RANGE, chasmX + width + GAP_FLATTEN_RANGE);
+
+    const preChasmVineX = chasmX - 140;
+    const midChasmVineX = chasmX + width * 0.45;
+    this.spawnVine(preChasmVineX, { force: true, length: 240, angle: -Math.PI / 6 });
+    this.spawnVine(midChasmVineX, { force: true, length: 220, angle: -Math.PI / 10, anchorY: 30 });
+
+    this.lastObstacleX = chasmX + width;
+  }
+
+  // A search for a run that gets from fromX to toX, on the section alone with
+  // no chase and no glide to fall back on
+  private searchSection(fromX: number, toX: number) {
+    const probe = createSectionProbe(this, fromX, toX);
+    // Judged for the classic runner without upgrades, so the verdict (and so
+    // the course) is the same whoever is playing
+    const sim = new HeistSimulation(this.seed, this.modifiers, NO_UPGRADES, "classic", probe.level);
+    sim.nextGlideChargeDistance = Infinity;
+    return new SolutionSearch(sim, probe.goalX);
+  }
+
+  // What laying out a set piece changes, so a rejected one can be taken back
+  private markLayout(): LayoutMark {
+    return {
+      // Kept by identity, since things behind the camera are culled while a search runs
+      obstacles: new Set(this.obstacles),
+      vines: new Set(this.vines),
+      // flattenTerrain reshapes segments in place
+      terrain: this.terrain.map((segment) => ({ ...segment })),
+      nextTerrainX: this.nextTerrainX,
+      lastObstacleX: this.lastObstacleX,
+      lastVineX: this.lastVineX,
+    };
+  }
+
+  private restoreLayout(mark: LayoutMark) {
+    this.obstacles = this.obstacles.filter((obstacle) => mark.obstacles.has(obstacle));
+    this.vines = this.vines.filter((vine) => mark.vines.has(vine));
+    this.terrain = mark.terrain;
+    this.nextTerrainX = mark.nextTerrainX;
+    this.lastObstacleX = mark.lastObstacleX;
+    this.lastVineX = mark.lastVineX;
+  }
+
+  private spawnSingleObstacle(worldX: number, pattern: Exclude<ObstaclePattern, SetPiece>) {
+    let type: Obstacle["type"] = pattern;
+    let width = 60;
+    let height = 40;
+
+    let obstacleX = worldX;
+    const isNearVine = (buffer: number) => this.vines.some(v => Math.abs(v.x - obstacleX) < buffer);
+    if (type === "low_beam" && isNearVine(VINE_WALL_BUFFER)) {
+      obstacleX += VINE_WALL_BUFFER;
+    }
+    if (type === "spike" && isNearVine(VINE_SPIKE_BUFFER)) {
+      obstacleX += VINE_SPIKE_BUFFER;
+    }
+    // A pad under a vine would fling the player into it mid-swing
+    if (type === "mushroom" && isNearVine(MUSHROOM_VINE_BUFFER)) {
+      obstacleX += MUSHROOM_VINE_BUFFER;
+    }
+    // A beam fills everything above it, so it can't sit under a platform
+    if (type === "low_beam" && this.isUnderPlatform(obstacleX, 40)) {
+      type = "spike";
+    }
+    // Pads need solid ground under them and room to land
+    if (type === "mushroom" && this.isNearGap(obstacleX, MUSHROOM_WIDTH, MUSHROOM_GAP_BUFFER)) {
+      type = "spike";
+    }
+
+    switch (type) {
+      case "spike":
+        width = 30;
+        height = 40;
+        break;
+      case "low_beam":
+        width = 40; // Thicker wall
+        height = CANVAS_HEIGHT; // Full height (visual only, effective height handled in collision)
+        break;
+      case "gap":
+        // Regular Jumpable Gap - SMALLER as requested
+        width = 100 + this.rng.next() * 150; // Was 200+
+        height = 300;
+        break;
+      case "ramp":
+        width = 120;
+        height = 60;
+        break;
+      case "mushroom":
+        width = MUSHROOM_WIDTH;
+        height = MUSHROOM_HEIGHT;
+        break;
+    }
+
+    this.obstacles.push({
+      x: obstacleX,
+      type,
+      width,
+      height,
+      passed: false,
+    });
+
+    // Flatten terrain segments around gaps so pits have flat ground on both sides
+    if (type === "gap") {
+      this.flattenTerrain(obstacleX - GAP_FLATTEN_RANGE, obstacleX + width + GAP_FLATTEN_RANGE);
+    }
+
+    this.lastObstacleX = obstacleX + width;
+    if (type === "gap") this.lastVineX = obstacleX;
+  }
+
+  private isUnderPlatform(x: number, width: number) {
+    return this.platforms.some(pl => x + width + PLATFORM_BEAM_CLEARANCE > pl.x && x - PLATFORM_BEAM_CLEARANCE < pl.x + pl.width);
+  }
+
+  private isNearGap(x: number, width: number, buffer: number) {
+    return this.obstacles.some(o => o.type === "gap" && x + width + buffer > o.x && x - buffer < o.x + o.width);
+  }
+
+  private pushObstacle(type: Obstacle["type"], x: number, width: number, height: number) {
+    this.obstacles.push({ x, type, width, height, passed: false });
+  }
+
+  // Layout: a warning sign, then a bounce pad right at the lip of a chasm that
+  // is too wide to jump but that the pad's launch clears.
+  private spawnMushroomLaunch(worldX: number) {
+    this.pushObstacle("warning", worldX, 40, 80);
+
+    const padX = worldX + 400;
+    const chasmX = padX + MUSHROOM_WIDTH + 10;
+    const chasmWidth = 240 + this.rng.next() * 50;
+    this.pushObstacle("mushroom", padX, MUSHROOM_WIDTH, MUSHROOM_HEIGHT);
+    this.pushObstacle("gap", chasmX, chasmWidth, 300);
+    this.flattenTerrain(padX - GAP_FLATTEN_RANGE, chasmX + chasmWidth + GAP_FLATTEN_RANGE);
+
+    this.lastObstacleX = chasmX + chasmWidth;
+    this.lastVineX = chasmX;
+  }
+
+  // Layout: a bounce pad launches the player up to a vine hanging over a gap
+  // that the bounce alone falls short of.
+  private spawnMushroomVine(worldX: number) {
+    const padX = worldX;
+    const gapX = padX + 200;
+    const gapWidth = 400 + this.rng.next() * 60;
+    this.pushObstacle("mushroom", padX, MUSHROOM_WIDTH, MUSHROOM_HEIGHT);
+    this.pushObstacle("gap", gapX, gapWidth, 300);
+    this.flattenTerrain(padX - GAP_FLATTEN_RANGE, gapX + gapWidth + GAP_FLATTEN_RANGE);
+
+    // Anchored near the top of the bounce arc
+    this.spawnVine(padX + 320, { force: true, length: 200, angle: -Math.PI / 5, anchorY: 40 });
+
+    this.lastObstacleX = gapX + gapWidth;
+  }
+
+  // A ledge, awning or two-level fire escape, with a row of coins along the
+  // top as a reward for taking the high road
+  private spawnPlatform(worldX: number, kinds: readonly PlatformKind[]) {
+    const kind = kinds[Math.floor(this.rng.next() * kinds.length)];
+    const size = PLATFORMS[kind];
+    const width = size.minWidth + this.rng.next() * (size.maxWidth - size.minWidth);
+    const rise = size.minRise + this.rng.next() * (size.maxRise - size.minRise);
+    this.lastPlatformX = worldX + width;
+
+    const blocked = this.obstacles.some(o => o.type === "low_beam" && o.x + o.width + PLATFORM_BEAM_CLEARANCE > worldX && o.x - PLATFORM_BEAM_CLEARANCE < worldX + width);
+    if (blocked) return;
+
+    // Measured from the higher end so the platform clears the ground along its length
+    const groundY = Math.min(this.getTerrainHeight(worldX, true), this.getTerrainHeight(worldX + width, true));
+    const levels: Platform[] = [{ x: worldX, y: groundY - rise, width, kind }];
+    if (kind === "fireEscape") {
+      levels.push({ x: worldX + width * 0.6, y: groundY - rise - FIRE_ESCAPE_LEVEL_GAP, width, kind });
+      this.lastPlatformX = worldX + width * 1.6;
+    }
+    this.platforms.push(...levels);
+
+    const top = levels[levels.length - 1];
+    for (let x = top.x + 30; x < top.x + top.width - 20; x += 50) {
+      this.coinsList.push({ x, y: top.y - 30, collected: false, rotation: 0 });
+    }
+  }
+
+  private spawnCoin(worldX: number, groundY: number) {
+    const inGap = this.obstacles.some(o => o.type === "gap" && worldX >= o.x && worldX <= o.x + o.width);
+    if (inGap) return;
+    const yPositions = [groundY - 80, groundY - 130, groundY - 180];
+    this.coinsList.push({
+      x: worldX,
+      y: yPositions[Math.floor(this.rng.next() * yPositions.length)],
+      collected: false,
+      rotation: 0,
+    });
+    this.lastCoinX = worldX;
+  }
+
+  private spawnPowerUp(worldX: number, groundY: number) {
+    const inGap = this.obstacles.some(o => o.type === "gap" && worldX >= o.x && worldX <= o.x + o.width);
+    if (inGap) return;
+    this.powerUps.push({
+      x: worldX,
+      y: groundY - 110,
+      kind: POWER_UP_KINDS[Math.floor(this.rng.next() * POWER_UP_KINDS.length)],
+      collected: false,
+    });
+    this.lastPowerUpX = worldX;
+  }
+
+  private collectPowerUp(kind: PowerUpKind) {
+    // Picking up one that is already running restarts its timer
+    this.powerUpTicks[kind] = Math.round(POWER_UPS[kind].durationTicks * this.upgradeTuning.powerUpDuration);
+
+    if (kind === "smokeBomb") {
+      const p = this.player;
+      // Reset the car's state too, so it isn't dropped mid-jump
+      this.police = createPoliceCar(Math.min(this.police.x, p.x - 100) - SMOKE_BOMB_KNOCKBACK, this.police.speed * SMOKE_BOMB_SLOW);
+      for (const unit of this.pursuers) {
+        if (unit.kind !== "helicopter") unit.x -= SMOKE_BOMB_KNOCKBACK;
+      }
+    }
+  }
+
+  private checkCollision(p: Player, obs: Obstacle) {
+    if (p.invincible > 0) return false;
+    // Ignore warning signs
+    if (obs.type === "warning") return false;
+
+    const pLeft = p.x;
+    const pRight = p.x + p.width;
+    const pTop = p.y;
+    const pBottom = p.y + (p.state === "sliding" ? SLIDE_HEIGHT : p.height);
+    const groundY = this.getTerrainHeight(obs.x + obs.width / 2);
+
+    // Slide Wall Collision (formerly Low Beam)
+    if (obs.type === "low_beam") {
+      const wallGapHeight = SLIDE_HEIGHT + 20;
+      const wallBottom = this.getTerrainHeight(obs.x) - wallGapHeight;
+      // The wall exists from Y=0 to wallBottom.
+      // If player Top < wallBottom, they hit the wall.
+      if (p.x + p.width > obs.x && p.x < obs.x + obs.width) {
+        if (pTop < 0) return false;
+        if (pTop < wallBottom) {
+          return true; // Bonk!
+        }
+      }
+      return false;
+    }
+
+    switch (obs.type) {
+      case "spike":
+        const spikeLeft = obs.x + 5;
+        const spikeRight = obs.x + obs.width - 5;
+        const spikeTop = groundY - obs.height;
+        const spikeBottom = groundY;
+        return pRight > spikeLeft && pLeft < spikeRight && pBottom > spikeTop && pTop < spikeBottom;
+
+      case "gap":
+        // Let the player fall. Death is handled in the update loop when y > screen height
+        return false;
+
+      case "mushroom":
+      case "ramp":
+        return false;
+    }
+    return false;
+  }
+
+  // Ends the run, unless a checkpoint respawn is still available.
+  private bust() {
+    const p = this.player;
+
+    // CHECKPOINT LOGIC
+    if (this.respawnsUsed < this.checkpointsReached) {
+      // RESPAWN!
+      this.respawnsUsed++;
+
+      // Reset player to safe state; in a level, back at the last checkpoint
+      const checkpointX = this.level?.checkpoints[this.checkpointsReached - 1];
+      if (checkpointX !== undefined) {
+        p.x = checkpointX;
+        this.cameraX = p.x - CANVAS_WIDTH * 0.3;
+        p.y = this.getTerrainHeight(p.x, true) - PLAYER_HEIGHT - 100;
+      } else {
+        p.y = BASE_GROUND_Y - 100;
+      }
+      p.vy = 0;
+      p.vx = 0; // Stop momentum
+      p.state = "jumping"; // Fall in gracefully
+      p.invincible = 2 * SIMULATION_HZ; // 2 seconds safety
+
+      // Push police back, landing them if they were mid-jump, and call off
+      // the other pursuers for a while
+      this.police = createPoliceCar(p.x - 600, this.police.speed);
+      this.pursuers = [];
+      for (const { kind, respawnTicks } of PURSUER_ROSTER) {
+        this.pursuerReadyFrame[kind] = this.frameCount + respawnTicks;
+      }
+      this.caughtBy = null;
+
+      this.emit({ type: "respawn", x: p.x, y: p.y });
+      return;
+    }
+
+    this.status = "busted";
+    this.emit({ type: "busted" });
+  }
+
+  private updatePursuers(surroundings: PoliceSurroundings) {
+    const p = this.player;
+
+    for (const { kind, fromDistance } of PURSUER_ROSTER) {
+      if (this.distanceTraveled < fromDistance || this.plane.state !== "hidden") continue;
+      if (this.frameCount < (this.pursuerReadyFrame[kind] ?? 0)) continue;
+      if (this.pursuers.some(unit => unit.kind === kind)) continue;
+      const unit = createPursuer(kind, p.x);
+      this.pursuers.push(unit);
+      this.emit({ type: "pursuerArrived", kind, x: unit.x, y: unit.kind === "helicopter" ? unit.y : BASE_GROUND_Y });
+    }
+
+    for (const unit of this.pursuers) {
+      if (unit.kind === "helicopter") {
+        updateHelicopter(unit, surroundings);
+        const wasLit = unit.lit;
+        unit.lit = unit.ticksLeft > 0 && Math.abs(p.x + p.width / 2 - unit.spotlightX) < SPOTLIGHT_RADIUS;
+        if (unit.lit) {
+          unit.heat++;
+          p.vx = Math.max(Math.min(p.vx, SPOTLIGHT_MIN_SPEED), p.vx * SPOTLIGHT_DRAG);
+          if (!wasLit) this.emit({ type: "spotlight", x: p.x + p.width / 2, y: p.y });
+        } else {
+          unit.heat = Math.max(0, unit.heat - SPOTLIGHT_COOLING);
+        }
+        continue;
+      }
+
+      const outcome = updateGroundPursuer(unit, surroundings);
+      const front = unit.x + getPursuerLength(unit);
+      if (outcome === "leap") this.emit({ type: "pursuerLeap", kind: unit.kind, x: front, y: BASE_GROUND_Y });
+      if (outcome === "halt") this.emit({ type: "pursuerHalted", kind: unit.kind, x: front, y: BASE_GROUND_Y });
+    }
+
+    this.pursuers = this.pursuers.filter(unit => {
+      if (!isPursuerDone(unit, p.x)) return true;
+      const entry = PURSUER_ROSTER.find(r => r.kind === unit.kind);
+      this.pursuerReadyFrame[unit.kind] = this.frameCount + (entry?.respawnTicks ?? 0);
+      return false;
+    });
+  }
+
+  // The roster pursuer (if any) that has caught the player this tick.
+  private findCaptor(): PursuerKind | null {
+    const p = this.player;
+    for (const unit of this.pursuers) {
+      if (unit.kind === "helicopter") {
+        if (unit.heat >= SPOTLIGHT_CAPTURE_HEAT) return unit.kind;
+      } else if (unit.state !== "halted" && unit.x + getPursuerLength(unit) - 20 >= p.x) {
+        return unit.kind;
+      }
+    }
+    return null;
+  }
+
+  private update() {
+    const p = this.player;
+    const keys = this.input;
+    this.frameCount++;
+
+    for (const kind of POWER_UP_KINDS) {
+      if (this.powerUpTicks[kind] > 0) this.powerUpTicks[kind]--;
+    }
+
+    // Update Slope Physics
+    // Use visual center queries to ignore pits (preventing massive slope spikes)
+    const currentH = this.getTerrainHeight(p.x + 5, true);
+    const nextH = this.getTerrainHeight(p.x + p.width + 5, true);
+    const slope = (nextH - currentH) / p.width; // Positive = Downhill (increasing Y), Negative = Uphill (decreasing Y)
+
+    if (slope < -0.1) { // Uphill (Y getting smaller)
+      p.vx = Math.max(4, p.vx - 0.05); // Slow down on hills
+    } else if (slope > 0.1) { // Downhill (Y getting bigger)
+      const boost = p.state === "sliding" ? 1.5 : 0.05; // Insane boost for sliding
+      p.vx = Math.min(50, p.vx + boost); // Speed cap 50
+      if (p.state === "sliding") {
+        this.emit({ type: "slideBoost", x: p.x, y: p.y + p.height, speed: p.vx });
+      }
+    } else {
+      // Momentum Preservation: Very low friction on flat ground
+      if (p.vx > PLAYER_BASE_SPEED) p.vx *= 0.999;
+      if (p.vx < PLAYER_BASE_SPEED) p.vx = Math.min(PLAYER_BASE_SPEED, p.vx + 0.1);
+    }
+    if (this.powerUpTicks.speedBurst > 0) {
+      p.vx = Math.max(p.vx, PLAYER_BASE_SPEED + SPEED_BURST_BOOST);
+    }
+
+    this.distanceTraveled += p.vx * 0.5; // Increased from 0.1 for faster metrics
+    this.stats.distance = Math.floor(this.distanceTraveled);
+    if (this.distanceTraveled >= this.nextGlideChargeDistance) {
+      const charges = Math.floor((this.distanceTraveled - this.nextGlideChargeDistance) / GLIDE_CHARGE_DISTANCE) + 1;
+      this.glideSeconds += charges * this.glideChargeSeconds;
+      this.nextGlideChargeDistance += charges * GLIDE_CHARGE_DISTANCE;
+    }
+    const lastChargeBase = this.nextGlideChargeDistance - GLIDE_CHARGE_DISTANCE;
+    this.glideChargeProgress = Math.min(1, Math.max(0, (this.distanceTraveled - lastChargeBase) / GLIDE_CHARGE_DISTANCE));
+    this.scoreValue = Math.floor(this.distanceTraveled * 10) + this.coinsCollected * 100;
+
+    if (p.invincible > 0) p.invincible--;
+
+    // Scaling Difficulty: Police cruise speed increases with distance (levels set their own pace)
+    const difficultyMultiplier = this.level ? 1 : 1 + (this.distanceTraveled / 5000);
+    const smokeSlow = this.powerUpTicks.smokeBomb > 0 ? SMOKE_BOMB_SLOW : 1;
+    const surroundings = {
+      obstacles: this.obstacles,
+      playerX: p.x,
+      cruiseSpeed: POLICE_SPEED * this.tuning.policeSpeed * difficultyMultiplier * smokeSlow,
+    };
+    if (this.chasing) {
+      updatePolice(this.police, surroundings);
+      this.updatePursuers(surroundings);
+    }
+
+    const policeGap = p.x - this.police.x;
+    if (policeGap < POLICE_NEAR_MISS_DISTANCE) {
+      this.policeCloseCall = true;
+    } else if (this.policeCloseCall && policeGap > POLICE_NEAR_MISS_CLEAR) {
+      this.policeCloseCall = false;
+      this.emit({ type: "nearMiss", x: p.x, y: p.y + p.height / 2 });
+    }
+
+    // A gap counts as crossed once the player is past its far lip without having dropped in
+    for (const o of this.obstacles) {
+      if (o.type !== "gap" || o.passed || p.x < o.x + o.width) continue;
+      const farLipY = this.getTerrainHeight(o.x + o.width + 1);
+      if (p.y + p.height > farLipY + 20) continue;
+      o.passed = true;
+      this.emit({ type: "chasmCrossed", x: o.x + o.width, y: farLipY, width: o.width });
+    }
+
+    const biomeIndex = getBiomeIndex(p.x);
+    if (!this.level && biomeIndex > this.biomeIndex) {
+      this.biomeIndex = biomeIndex;
+      this.emit({ type: "biomeEntered", biome: getBiomeAt(p.x), x: p.x, y: p.y });
+    }
+
+    // Checkpoint Trigger: by distance, or at the level's own positions
+    if (this.level) {
+      const nextCheckpointX = this.level.checkpoints[this.checkpointsReached];
+      if (nextCheckpointX !== undefined && p.x >= nextCheckpointX) {
+        this.checkpointsReached++;
+        this.emit({ type: "checkpoint", x: p.x, y: p.y });
+      }
+    } else {
+      const nextCheckpoint = this.upgradeTuning.checkpoints[this.checkpointsReached];
+      if (nextCheckpoint !== undefined && this.distanceTraveled >= nextCheckpoint) {
+        this.checkpointsReached++;
+        this.emit({ type: "checkpoint", x: p.x, y: p.y });
+      }
+    }
+
+    // Victory Condition: 40km Escape, or reaching a level's extraction point
+    if (this.plane.state === "hidden") {
+      const extraction = this.level?.extraction;
+      if (extraction && p.x >= extraction.x - CANVAS_WIDTH) {
+        // Already on station when it comes into view
+        this.plane = { ...this.plane, x: extraction.x, y: extraction.y, vx: 0, state: "waiting" };
+      } else if (!extraction && this.distanceTraveled >= VICTORY_DISTANCE) {
+        // Flies in from ahead and pulls up over the route
+        this.plane = { ...this.plane, x: this.cameraX + CANVAS_WIDTH + 200, vx: -4, state: "entering" };
+        // Stop spawning obstacles
+        this.nextTerrainX = Infinity;
+      }
+    }
+
+    // Helicopter Logic
+    const heli = this.plane;
+    if (heli.state !== "hidden") {
+      heli.rotorAngle += 0.5; // Spin rotor
+
+      if (heli.state === "entering") {
+        heli.x += heli.vx;
+        // Slow down and stop above player's future position
+        if (heli.x < this.cameraX + CANVAS_WIDTH * 0.7) {
+          heli.vx *= 0.95;
+          if (Math.abs(heli.vx) < 0.1) {
+            heli.state = "waiting";
+          }
+        }
+      } else if (heli.state === "waiting") {
+        // Hover wiggle
+        const hoverY = this.level?.extraction.y ?? 100;
+        heli.y = hoverY + Math.sin(this.frameCount * 0.1) * 10;
+
+        // Check if player jumps into helicopter zone
+        const dx = (p.x + p.width / 2) - heli.x;
+        const dy = p.y - heli.y;
+        if (Math.sqrt(dx * dx + dy * dy) < 100 && p.y < hoverY + 150) {
+          // BOARD THE CHOPPA
+          heli.state = "departing";
+          p.state = "swinging"; // Hide player or attach
+          this.status = "escaped";
+          this.emit({ type: "victory" });
+        }
+      } else if (heli.state === "departing") {
+        // Fly away!
+        heli.x += 8;
+        heli.y -= 2;
+      }
+    }
+
+    const captor = this.police.x + 40 >= p.x ? "police" : this.findCaptor();
+    if (captor) {
+      this.caughtBy = captor;
+      this.emit({ type: "caught", x: p.x, y: p.y + p.height / 2, by: captor });
+      this.bust();
+      return;
+    }
+
+    if (p.y > CANVAS_HEIGHT) { // Player fell off the screen (in a gap)
+      this.bust();
+      return;
+    }
+
+    if (p.state === "swinging" && p.onVine) {
+      const vine = p.onVine;
+      const vineLength = p.vineLength || vine.length;
+
+      const gravity = 0.002;
+      vine.angularVelocity += -gravity * Math.sin(vine.angle);
+      vine.angularVelocity *= 0.98; // Increased damping to reduce extreme swinging
+      vine.angle += vine.angularVelocity;
+
+      p.x = vine.x + Math.sin(vine.angle) * vineLength - p.width / 2;
+      p.y = vine.anchorY + Math.cos(vine.angle) * vineLength - p.height / 2;
+
+      this.vineSwingTime = (this.vineSwingTime || 0) + 1;
+
+      if (!keys.up && this.vineSwingTime > 15) {
+        const releaseSpeed = vine.angularVelocity * vineLength;
+
+        const forwardBoost = Math.max(0, Math.cos(vine.angle)) * Math.abs(releaseSpeed) * 1.5;
+        p.vx = PLAYER_BASE_SPEED + forwardBoost;
+        p.vy = -Math.abs(Math.sin(vine.angle) * releaseSpeed) * 1.2 - 6;
+
+        p.vx = Math.max(PLAYER_BASE_SPEED + 1, Math.min(p.vx, PLAYER_BASE_SPEED * 3));
+
+        p.state = "jumping";
+        p.onVine = null;
+        p.vineLength = 0;
+        this.vineSwingTime = 0;
+        this.emit({ type: "vineRelease", x: p.x + p.width / 2, y: p.y + p.height / 2 });
+      }
+    } else {
+      if (p.vx > PLAYER_BASE_SPEED) {
+        p.vx -= 0.05;
+      } else {
+        p.vx = PLAYER_BASE_SPEED;
+      }
+
+      const playerCenterX = p.x + p.width / 2;
+      const playerLeftX = p.x + 5;
+      const playerRightX = p.x + p.width - 5;
+
+      // Done dropping once the player's head is below the platform or they've run past it
+      const dropping = this.dropThrough;
+      if (dropping && (p.y > dropping.y || p.x > dropping.x + dropping.width)) {
+        this.dropThrough = null;
+      }
+
+      // Feet are sampled a little high so a player standing on a platform keeps finding it
+      const surface = this.getSurface(playerCenterX, p.y + p.height - 5);
+      const overGap = !surface.platform && this.obstacles.some(o => {
+        if (o.type !== "gap") return false;
+        const inGapLeft = playerLeftX > o.x && playerLeftX < o.x + o.width;
+        const inGapRight = playerRightX > o.x && playerRightX < o.x + o.width;
+        const inGapCenter = playerCenterX > o.x && playerCenterX < o.x + o.width;
+        return inGapLeft || inGapRight || inGapCenter;
+      });
+
+      const groundY = surface.y;
+      const onGround = p.y >= groundY - PLAYER_HEIGHT - 5;
+
+      if (keys.down && !keys.up && onGround && surface.platform && p.state !== "jumping") {
+        // DOWN on a platform drops through it instead of sliding
+        this.dropThrough = surface.platform;
+        p.state = "falling";
+        p.height = PLAYER_HEIGHT;
+        p.y = groundY - PLAYER_HEIGHT;
+        this.slideLinger = 0;
+      } else if (keys.down && onGround && p.state !== "jumping" && !overGap) {
+        if (p.state !== "sliding") this.emit({ type: "slide", x: p.x + p.width / 2, y: groundY });
+        p.state = "sliding";
+        p.height = SLIDE_HEIGHT;
+        this.slideLinger = this.characterTuning.slideLingerTicks;
+      } else if (!keys.down && p.state === "sliding" && this.slideLinger > 0) {
+        this.slideLinger--;
+      } else if (!keys.down && p.state === "sliding") {
+        p.state = "running";
+        p.height = PLAYER_HEIGHT;
+        p.y = groundY - PLAYER_HEIGHT;
+      }
+
+      if (keys.up && onGround && p.state !== "swinging" && !overGap) {
+        p.vy = JUMP_FORCE;
+        p.state = "jumping";
+        p.height = PLAYER_HEIGHT; // Reset height if jumping from slide
+        this.emit({ type: "jump", x: p.x + p.width / 2, y: p.y + p.height });
+      }
+
+      const isAirborne = p.y + p.height < groundY - 5;
+      let gravityScale = 1;
+      if (keys.up && isAirborne && this.glideSeconds > 0) {
+        gravityScale = 0.2;
+        this.glideSeconds = Math.max(0, this.glideSeconds - 1 / SIMULATION_HZ);
+        if (p.vy > 2) p.vy = 2;
+      }
+
+      const feetBeforeMove = p.y + p.height;
+      p.vy += GRAVITY * this.tuning.gravity * gravityScale;
+      p.y += p.vy;
+      p.x += p.vx;
+
+      let onRamp = false;
+      let bounced = false;
+      let isOverGap = overGap; // Local copy for below logic
+
+      this.obstacles.forEach(obs => {
+        if (obs.type === "mushroom") {
+          const obsGroundY = this.getTerrainHeight(obs.x + obs.width / 2);
+          const dx = (p.x + p.width / 2) - (obs.x + obs.width / 2);
+          const dy = (p.y + p.height) - obsGroundY;
+          const dist = Math.sqrt(dx * dx + dy * dy);
+
+          if (dist < 40 && p.vy >= 0) {
+            p.vy = MUSHROOM_BOUNCE_FORCE; // High bounce
+            p.vx += MUSHROOM_SPEED_BOOST;
+            p.state = "jumping";
+            bounced = true;
+            this.emit({ type: "bounce", x: obs.x + obs.width / 2, y: obsGroundY });
+          }
+        }
+        if (obs.type === "ramp") {
+          const obsGroundY = this.getTerrainHeight(obs.x + obs.width / 2);
+          const rampProgress = (p.x + p.width / 2 - obs.x) / obs.width;
+          if (rampProgress > 0 && rampProgress < 1) {
+            const rampY = obsGroundY - (rampProgress * obs.height);
+            if (p.y + p.height > rampY && p.vy >= 0) {
+              p.y = rampY - p.height;
+              p.vy = 0;
+              onRamp = true;
+              if (keys.down) {
+                p.vy = -8 * this.characterTuning.rampLaunch;
+                p.vx += 3;
+              }
+            }
+          }
+        }
+        if (obs.type === "gap") {
+          const inGapLeft = playerLeftX > obs.x && playerLeftX < obs.x + obs.width;
+          const inGapRight = playerRightX > obs.x && playerRightX < obs.x + obs.width;
+          const inGapCenter = playerCenterX > obs.x && playerCenterX < obs.x + obs.width;
+          if (inGapLeft || inGapRight || inGapCenter) {
+            isOverGap = true;
+          }
+        }
+      });
+
+      // Platforms are one-way: only one the feet were above before this move can catch them
+      const landing = this.getSurface(p.x + p.width / 2, feetBeforeMove - 5);
+      if (landing.platform) isOverGap = false;
+
+      // Feet are still on the ground on the tick of a bounce; don't land straight away
+      if (!onRamp && !isOverGap && !bounced) {
+        const currentGroundY = landing.y;
+        const targetY = currentGroundY - (p.state === "sliding" ? SLIDE_HEIGHT : PLAYER_HEIGHT);
+        const playerBottom = p.y + p.height;
+
+        if (playerBottom >= currentGroundY - 2) {
+          if (p.state === "running" || p.state === "sliding") {
+            p.y = targetY;
+            p.vy = 0;
+          } else if (p.state === "jumping" || p.state === "falling") {
+            p.y = targetY;
+            p.vy = 0;
+            p.state = keys.down ? "sliding" : "running";
+            this.emit({ type: "land", x: p.x + p.width / 2, y: p.y + p.height });
+          }
+        } else if (playerBottom < currentGroundY - 15 && p.state !== "jumping") {
+          p.state = "falling";
+        }
+      } else if (isOverGap && p.state !== "swinging") {
+        // If we are over a gap and not swinging, we MUST fall.
+        // Even if we are "jumping", once we are over the pit, the abyss is the only ground.
+        p.state = "falling";
+      }
+    }
+
+    this.vines.forEach(vine => {
+      if (p.state !== "swinging" && !this.vineGrabCooldown) {
+        const playerX = p.x + p.width / 2;
+        const playerY = p.y + p.height / 2;
+        let closestDist = Infinity;
+        let closestPoint = { x: 0, y: 0 };
+
+        for (let i = 0; i <= 10; i++) {
+          const t = i / 10;
+          const point = getVinePoint(vine, t);
+          const dx = playerX - point.x;
+          const dy = playerY - point.y;
+          const dist = Math.sqrt(dx * dx + dy * dy);
+          if (dist < closestDist) {
+            closestDist = dist;
+            closestPoint = point;
+          }
+        }
+
+        // Manual Grab: Require UP key + reasonable radius
+        if (closestDist < this.upgradeTuning.vineGrabRadius && keys.up && (p.state === "jumping" || p.state === "falling")) {
+          p.state = "swinging";
+          p.onVine = vine;
+          p.vineLength = Math.max(40, Math.hypot(closestPoint.x - vine.x, closestPoint.y - vine.anchorY));
+          this.vineSwingTime = 0;
+          this.vineGrabCooldown = 15;
+
+          const entrySpeed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
+          vine.angularVelocity = entrySpeed * 0.01 * (p.vx > 0 ? 1 : -1);
+
+          p.vy = 0;
+          p.height = PLAYER_HEIGHT;
+          p.x = closestPoint.x - p.width / 2;
+          p.y = closestPoint.y - p.height / 2;
+          this.emit({ type: "vineGrab", x: closestPoint.x, y: closestPoint.y });
+        }
+      }
+    });
+
+    if (this.vineGrabCooldown > 0) {
+      this.vineGrabCooldown--;
+    }
+
+    this.obstacles = this.obstacles.filter(obs => {
+      if (this.checkCollision(p, obs)) {
+        // Special Handling for Wall Hit (Non-Lethal)
+        if (obs.type === "low_beam") {
+          // Slow down player significantly
+          p.vx = 2;
+          this.emit({ type: "wallHit", x: p.x + p.width / 2, y: p.y + p.height / 2 });
+          // Bounce back slightly to prevent sticking
+          p.x -= 20;
+          return true; // Keep obstacle
+        }
+
+        // A shield soaks up one lethal hit and takes the obstacle with it
+        if (this.powerUpTicks.shield > 0) {
+          this.powerUpTicks.shield = 0;
+          p.invincible = SIMULATION_HZ / 2;
+          this.emit({ type: "shieldBreak", x: p.x + p.width / 2, y: p.y + p.height / 2 });
+          return false;
+        }
+
+        // Lethal hit
+        this.emit({ type: "crash", obstacle: obs.type, x: p.x + p.width / 2, y: p.y + p.height / 2 });
+        this.bust();
+        return false;
+      }
+
+      // Check against end of obstacle to ensure large pits don't vanish
+      return obs.x + (obs.width || 60) > this.cameraX - 200;
+    });
+
+    this.vines = this.vines.filter(vine => {
+      return vine.x > this.cameraX - 200;
+    });
+
+    this.coinsList.forEach(coin => {
+      coin.rotation += 0.1;
+
+      if (!coin.collected && this.powerUpTicks.magnet > 0) {
+        const dx = (p.x + p.width / 2) - coin.x;
+        const dy = (p.y + p.height / 2) - coin.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < MAGNET_RADIUS && dist > 0) {
+          const pull = Math.min(dist, MAGNET_PULL);
+          coin.x += (dx / dist) * pull;
+          coin.y += (dy / dist) * pull;
+        }
+      }
+
+      if (!coin.collected) {
+        const dx = (p.x + p.width / 2) - coin.x;
+        const dy = (p.y + p.height / 2) - coin.y;
+        if (Math.sqrt(dx * dx + dy * dy) < 30) {
+          coin.collected = true;
+          this.coinValue += this.characterTuning.coinMultiplier;
+          this.coinsCollected = Math.floor(this.coinValue);
+          this.stats.coins = this.coinsCollected;
+          this.emit({ type: "coin", x: coin.x, y: coin.y });
+        }
+      }
+    });
+    this.coinsList = this.coinsList.filter(c => c.x > this.cameraX - 200);
+
+    for (const powerUp of this.powerUps) {
+      if (powerUp.collected) continue;
+      const dx = (p.x + p.width / 2) - powerUp.x;
+      const dy = (p.y + p.height / 2) - powerUp.y;
+      if (Math.sqrt(dx * dx + dy * dy) < POWER_UP_PICKUP_RADIUS) {
+        powerUp.collected = true;
+        this.collectPowerUp(powerUp.kind);
+        this.emit({ type: "powerUp", kind: powerUp.kind, x: powerUp.x, y: powerUp.y });
+      }
+    }
+    this.powerUps = this.powerUps.filter(pu => !pu.collected && pu.x > this.cameraX - 200);
+
+    // Memory Cleanup (levels are small, and a respawn can send the player back)
+    if (this.frameCount % 60 === 0 && !this.level) {
+      const cullX = this.cameraX - 1000;
+      this.terrain = this.terrain.filter(t => t.endX > cullX);
+      this.obstacles = this.obstacles.filter(o => o.x + o.width > cullX);
+      this.platforms = this.platforms.filter(pl => pl.x + pl.width > cullX);
+      this.coinsList = this.coinsList.filter(c => c.x > cullX || !c.collected);
+    }
+
+    // Camera Follow
+    const targetCamX = p.x - CANVAS_WIDTH * 0.3;
+    this.cameraX += (targetCamX - this.cameraX) * 0.1;
+
+    if (this.level) return;
+
+    if (this.pendingSetPiece) this.checkSetPiece(this.setPieceSlice(this.pendingSetPiece));
+    this.layOutTo(this.cameraX + CANVAS_WIDTH + LAYOUT_AHEAD);
+    this.terrain = this.terrain.filter(seg => seg.endX > this.cameraX - 200);
+  }
+
+  // Lays the course out up to x a step at a time. Every draw is tied to a
+  // step rather than to where the camera is on a given tick, so a seed makes
+  // the same course however it's played. A set piece still being checked
+  // holds it up, since a re-roll changes what comes after.
+  private layOutTo(x: number) {
+    while (!this.pendingSetPiece && this.layoutX + LAYOUT_STEP <= x) {
+      this.layoutX += LAYOUT_STEP;
+      this.layOutAt(this.layoutX);
+    }
+  }
+
+  private layOutAt(spawnX: number) {
+    const spawnBiome = BIOMES[getBiomeAt(spawnX)];
+
+    if (spawnX - this.lastObstacleX > (800 + this.rng.next() * 800) * this.tuning.obstacleSpacing * spawnBiome.obstacleSpacing) {
+      this.spawnObstacle(spawnX);
+    }
+
+    if (spawnX - this.lastVineX > (1200 + this.rng.next() * 1200) * spawnBiome.vineSpacing) {
+      this.spawnVine(spawnX);
+    }
+
+    const platformLayer = spawnBiome.platforms;
+    if (platformLayer && spawnX - this.lastPlatformX > platformLayer.spacing * (1 + this.rng.next())) {
+      this.spawnPlatform(spawnX, platformLayer.kinds);
+    }
+
+    if (spawnX - this.lastCoinX > (400 + this.rng.next() * 400) * this.tuning.coinSpacing) {
+      const groundY = this.getTerrainHeight(spawnX);
+      this.spawnCoin(spawnX, groundY);
+    }
+
+    if (spawnX - this.lastPowerUpX > POWER_UP_SPACING * (1 + this.rng.next())) {
+      this.spawnPowerUp(spawnX, this.getTerrainHeight(spawnX));
+    }
+
+    if (this.nextTerrainX < spawnX + 500) {
+      this.generateTerrain(this.nextTerrainX, 10);
+    }
+  }
+}
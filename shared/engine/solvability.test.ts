@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getAutopilotInput } from "./autopilot";
+import { BASE_GROUND_Y } from "./constants";
+import { HeistSimulation } from "./simulation";
+import { SolutionSearch, createSectionProbe, type CourseLayout } from "./solvability";
+import type { Obstacle, Vine } from "./types";
+
+// Flat ground with the given obstacles and vines on it
+function course(obstacles: Obstacle[], vines: Vine[] = []): CourseLayout {
+  return {
+    terrain: [{ startX: 0, endX: 6000, startY: BASE_GROUND_Y, endY: BASE_GROUND_Y }],
+    obstacles,
+    vines,
+    platforms: [],
+  };
+}
+
+function gap(x: number, width: number): Obstacle {
+  return { type: "gap", x, width, height: 300, passed: false };
+}
+
+// Searches the section from fromX to toX to the end
+function search(layout: CourseLayout, fromX: number, toX: number) {
+  const probe = createSectionProbe(layout, fromX, toX);
+  const search = new SolutionSearch(new HeistSimulation(1, [], undefined, "classic", probe.level), probe.goalX);
+  search.advance(Infinity);
+  return search;
+}
+
+describe("SolutionSearch", () => {
+  it("proves a plain gap with most of its budget to spare", () => {
+    const result = search(course([gap(1000, 200)]), 1000, 1200);
+    assert.ok(result.solution);
+    assert.ok(result.ticksLeft > 2000, `only ${result.ticksLeft} ticks left`);
+  });
+
+  it("proves a chasm laid out the way the generator does", () => {
+    // As spawnChasm places them: a vine before the lip and one over the middle
+    const chasmX = 1500;
+    const width = 1150;
+    const vines: Vine[] = [
+      { x: chasmX - 140, anchorY: 20, length: 240, angle: -Math.PI / 6, angularVelocity: 0 },
+      { x: chasmX + width * 0.45, anchorY: 30, length: 220, angle: -Math.PI / 10, angularVelocity: 0 },
+    ];
+    assert.ok(search(course([gap(chasmX, width)], vines), 1000, chasmX + width).solution);
+  });
+
+  it("gives up on a chasm nothing crosses", () => {
+    assert.equal(search(course([gap(1000, 1200)]), 1000, 2200).solution, null);
+  });
+});
+
+describe("set piece checks", () => {
+  it("re-rolls a set piece that can't be crossed", () => {
+    const sim = new HeistSimulation(22);
+    const internals = sim as unknown as {
+      pendingSetPiece: { pattern: string; x: number; search: SolutionSearch } | null;
+      searchSection(fromX: number, toX: number): SolutionSearch;
+    };
+    const rerolled: number[] = [];
+    sim.events.on("sectionRerolled", (event) => rerolled.push(event.x));
+
+    // Run until a chasm is waiting on its check
+    for (let tick = 0; tick < 3000 && internals.pendingSetPiece?.pattern !== "chasm"; tick++) {
+      sim.step(getAutopilotInput(sim));
+    }
+    const pending = internals.pendingSetPiece;
+    assert.ok(pending, "expected a chasm to come up");
+    const chasm = sim.obstacles.find((o) => o.type === "gap" && o.x > pending.x);
+    assert.ok(chasm);
+
+    // Take its vines away and check it again, as though it had been laid out without them
+    sim.vines = sim.vines.filter((vine) => vine.x < pending.x);
+    pending.search = internals.searchSection(pending.x, chasm.x + chasm.width);
+    while (internals.pendingSetPiece === pending && sim.status === "running") sim.step(getAutopilotInput(sim));
+
+    assert.deepEqual(rerolled, [pending.x]);
+    assert.ok(!sim.obstacles.includes(chasm));
+  });
+});
@@ -0,0 +1,209 @@
+import { BASE_GROUND_Y, CANVAS_WIDTH, PLAYER_BASE_SPEED } from "./constants";
+import { LEVEL_VERSION, type Level } from "./level";
+import type { HeistSimulation } from "./simulation";
+import type { Obstacle, Platform, SimulationInput, TerrainSegment, Vine } from "./types";
+
+// Proves a stretch of course can be beaten by searching the headless
+// simulation for inputs that get through it. The generator runs this on its
+// set pieces (chasms and bounce-pad launches) and re-rolls any it can't prove.
+//
+// The search is best-first: the most promising state found so far branches
+// into a few ticks of running, holding UP (jump, grab) and holding DOWN
+// (slide), and states too close to one already seen are dropped. It gives up
+// after an amount of simulation set by the section's length, so "not found"
+// means "not proven"; the generator treats both the same. It can be run a
+// slice at a time, which lets the generator spread it over several ticks of
+// the run instead of stalling one.
+
+// Ticks an input is held before the search branches again
+const DECISION_TICKS = 6;
+// Simulated ticks per pixel of section before giving up, so longer sections
+// get longer. Counted rather than timed so the client and the server, which
+// re-simulates replays, always reach the same verdict. Most sections are
+// proven in under one per pixel; swinging across the odd chasm takes five.
+const TICKS_PER_PIXEL = 8;
+// Flat ground before the section and past its end
+const RUN_UP = 200;
+const LANDING = 150;
+// Where a run starts in a level (see level.ts)
+const START_X = CANVAS_WIDTH / 3;
+
+const ACTIONS: readonly SimulationInput[] = [
+  { up: false, down: false },
+  { up: true, down: false },
+  { up: false, down: true },
+];
+
+// The parts of a procedural course a section is cut out of
+export interface CourseLayout {
+  terrain: readonly TerrainSegment[];
+  obstacles: readonly Obstacle[];
+  vines: readonly Vine[];
+  platforms: readonly Platform[];
+}
+
+// A section of course rebuilt as a level on its own, and the x a run has to
+// reach, on its feet, to have got through it
+export interface SectionProbe {
+  level: Level;
+  goalX: number;
+}
+
+// Height of the ground at x on a segment, or the default ground where none has been generated yet
+function heightOn(segment: TerrainSegment | undefined, x: number) {
+  if (!segment) return BASE_GROUND_Y;
+  return segment.startY + (segment.endY - segment.startY) * ((x - segment.startX) / (segment.endX - segment.startX));
+}
+
+// Copies [fromX, toX) of the course's ground into level coordinates, flat
+// before and after it so the level's ground starts at 0 as levels must
+function cutTerrain(terrain: readonly TerrainSegment[], fromX: number, toX: number, shift: number): TerrainSegment[] {
+  const breaks = [fromX, toX, ...terrain.flatMap((s) => [s.startX, s.endX]).filter((x) => x > fromX && x < toX)];
+  const xs = Array.from(new Set(breaks)).sort((a, b) => a - b);
+  const cut = xs.slice(0, -1).map((startX, i) => {
+    const endX = xs[i + 1];
+    const segment = terrain.find((s) => startX >= s.startX && startX < s.endX);
+    return { startX: startX - shift, endX: endX - shift, startY: heightOn(segment, startX), endY: heightOn(segment, endX) };
+  });
+  return [{ startX: 0, endX: cut[0].startX, startY: cut[0].startY, endY: cut[0].startY }, ...cut];
+}
+
+// Rebuilds the course from fromX to toX as a level with no chase, so the
+// section is judged on its own: nothing before it, and no police behind.
+export function createSectionProbe(course: CourseLayout, fromX: number, toX: number): SectionProbe {
+  const shift = fromX - RUN_UP - START_X;
+  const goalX = toX + LANDING - shift;
+  const overlaps = (x: number, width: number) => x + width > fromX && x < toX;
+
+  const level: Level = {
+    version: LEVEL_VERSION,
+    id: "section-probe",
+    name: "Section probe",
+    description: "",
+    biome: "city",
+    chase: false,
+    terrain: cutTerrain(course.terrain, fromX, toX + LANDING + CANVAS_WIDTH, shift),
+    obstacles: course.obstacles
+      .filter((o) => overlaps(o.x, o.width))
+      .map(({ type, x, width, height }) => ({ type, x: x - shift, width, height })),
+    platforms: course.platforms
+      .filter((platform) => overlaps(platform.x, platform.width))
+      .map(({ kind, x, y, width }) => ({ kind, x: x - shift, y, width })),
+    // Vines are reached from a little way before where they hang
+    vines: course.vines
+      .filter((vine) => overlaps(vine.x - RUN_UP, RUN_UP * 2))
+      .map(({ x, length, angle, anchorY }) => ({ x: x - shift, length, angle, anchorY })),
+    coins: [],
+    powerUps: [],
+    checkpoints: [],
+    // Well out of reach, so the helicopter never comes for the probe
+    extraction: { x: goalX + CANVAS_WIDTH * 3, y: 100 },
+  };
+  return { level, goalX };
+}
+
+function hasGotThrough(sim: HeistSimulation, goalX: number) {
+  const { player } = sim;
+  return player.x >= goalX && (player.state === "running" || player.state === "sliding");
+}
+
+// Ranks states for the search: getting ahead of running pace is better,
+// sinking below the ground line (into a pit) is much worse
+function promise(sim: HeistSimulation) {
+  const { player } = sim;
+  return player.x - PLAYER_BASE_SPEED * sim.frameCount - 3 * Math.max(0, player.y + player.height - BASE_GROUND_Y);
+}
+
+// States this close together play out alike, so the search keeps one of them
+function stateKey(sim: HeistSimulation) {
+  const { player } = sim;
+  const vine = player.onVine;
+  return [
+    Math.round(player.x / 8),
+    Math.round(player.y / 8),
+    Math.round(player.vx),
+    Math.round(player.vy),
+    player.state,
+    vine ? sim.vines.indexOf(vine) : -1,
+    vine ? Math.round(vine.angle * 20) : 0,
+  ].join(":");
+}
+
+interface SearchNode {
+  sim: HeistSimulation;
+  parent: SearchNode | null;
+  input: SimulationInput;
+  score: number;
+}
+
+function inputsTo(node: SearchNode): SimulationInput[] {
+  const inputs: SimulationInput[] = [];
+  for (let at: SearchNode | null = node; at?.parent; at = at.parent) {
+    for (let i = 0; i < DECISION_TICKS; i++) inputs.push(at.input);
+  }
+  return inputs.reverse();
+}
+
+// Looks for inputs that take the run from where `start` is to goalX without
+// being busted. `start` isn't advanced.
+export class SolutionSearch {
+  private frontier: SearchNode[];
+  private seen: Set<string>;
+  private ticks = 0;
+  private budget: number;
+  // The inputs found, null if the search gave up, undefined while it's still going
+  solution: SimulationInput[] | null | undefined = undefined;
+
+  constructor(start: HeistSimulation, private goalX: number) {
+    this.budget = Math.ceil((goalX - start.player.x) * TICKS_PER_PIXEL);
+    this.frontier = [{ sim: start, parent: null, input: ACTIONS[0], score: 0 }];
+    this.seen = new Set([stateKey(start)]);
+  }
+
+  // Searches for about `ticks` more simulated ticks (a whole branch at a
+  // time); returns whether the search is over
+  advance(ticks: number): boolean {
+    const stopAt = Math.min(this.ticks + ticks, this.budget);
+    while (this.solution === undefined && this.frontier.length > 0 && this.ticks < stopAt) {
+      this.expandBest();
+    }
+    if (this.solution === undefined && (this.frontier.length === 0 || this.ticks >= this.budget)) {
+      this.solution = null;
+    }
+    return this.solution !== undefined;
+  }
+
+  // Simulated ticks the search can still spend before it gives up
+  get ticksLeft() {
+    return this.budget - this.ticks;
+  }
+
+  private expandBest() {
+    const { frontier } = this;
+    // The frontier stays small enough that scanning it beats keeping it sorted
+    let best = 0;
+    for (let i = 1; i < frontier.length; i++) {
+      if (frontier[i].score > frontier[best].score) best = i;
+    }
+    const node = frontier[best];
+    frontier[best] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    for (const input of ACTIONS) {
+      const sim = node.sim.clone();
+      for (let i = 0; i < DECISION_TICKS && sim.status === "running"; i++) sim.step(input);
+      this.ticks += DECISION_TICKS;
+      if (sim.status !== "running") continue;
+
+      const child = { sim, parent: node, input, score: promise(sim) };
+      if (hasGotThrough(sim, this.goalX)) {
+        this.solution = inputsTo(child);
+        return;
+      }
+      const key = stateKey(sim);
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+      frontier.push(child);
+    }
+  }
+}
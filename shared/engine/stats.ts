@@ -0,0 +1,103 @@
+import { z } from "zod";
+import type { SimulationEvent } from "./types";
+
+// Counters kept for every run and summed into a player's lifetime totals
+export const STAT_IDS = [
+  "runs",
+  "distance",
+  "coins",
+  "jumps",
+  "slides",
+  "vineSwings",
+  "chasmsCrossed",
+  "nearMisses",
+  "timesBusted",
+  "escapes",
+] as const;
+
+export type StatId = typeof STAT_IDS[number];
+
+export const STAT_NAMES: Record<StatId, string> = {
+  runs: "Runs",
+  distance: "Distance (m)",
+  coins: "Coins",
+  jumps: "Jumps",
+  slides: "Slides",
+  vineSwings: "Vine swings",
+  chasmsCrossed: "Chasms crossed",
+  nearMisses: "Near-misses",
+  timesBusted: "Times busted",
+  escapes: "Escapes",
+};
+
+const statValue = z.number().int().min(0).default(0);
+
+export const runStatsSchema = z.object({
+  runs: statValue,
+  distance: statValue,
+  coins: statValue,
+  jumps: statValue,
+  slides: statValue,
+  vineSwings: statValue,
+  chasmsCrossed: statValue,
+  nearMisses: statValue,
+  timesBusted: statValue,
+  escapes: statValue,
+});
+
+export type RunStats = z.infer<typeof runStatsSchema>;
+
+export function createRunStats(): RunStats {
+  return {
+    runs: 0,
+    distance: 0,
+    coins: 0,
+    jumps: 0,
+    slides: 0,
+    vineSwings: 0,
+    chasmsCrossed: 0,
+    nearMisses: 0,
+    timesBusted: 0,
+    escapes: 0,
+  };
+}
+
+// Counts one simulation event into a run's stats. Distance and coins are
+// totals rather than events, so the simulation sets those itself.
+export function tallyEvent(stats: RunStats, event: SimulationEvent) {
+  switch (event.type) {
+    case "jump":
+      stats.jumps++;
+      break;
+    case "slide":
+      stats.slides++;
+      break;
+    case "vineGrab":
+      stats.vineSwings++;
+      break;
+    case "chasmCrossed":
+      stats.chasmsCrossed++;
+      break;
+    case "nearMiss":
+      stats.nearMisses++;
+      break;
+    // A run counts once it has ended, either way
+    case "busted":
+      stats.runs = 1;
+      stats.timesBusted++;
+      break;
+    case "victory":
+      stats.runs = 1;
+      stats.escapes++;
+      break;
+  }
+}
+
+export function addStats(a: RunStats, b: RunStats): RunStats {
+  return Object.fromEntries(STAT_IDS.map((id) => [id, a[id] + b[id]])) as RunStats;
+}
+
+// Per-stat maximum, for tracking a player's best single run
+export function maxStats(a: RunStats, b: RunStats): RunStats {
+  return Object.fromEntries(STAT_IDS.map((id) => [id, Math.max(a[id], b[id])])) as RunStats;
+}
@@ -0,0 +1,147 @@
+import type { BiomeId, SetPiece } from "./biomes";
+
+export interface Obstacle {
+  x: number;
+  type: "spike" | "mushroom" | "gap" | "ramp" | "low_beam" | "warning";
+  width: number;
+  height: number;
+  passed: boolean;
+}
+
+export interface Vine {
+  x: number;
+  anchorY: number;
+  length: number;
+  angle: number;
+  angularVelocity: number;
+}
+
+export interface Coin {
+  x: number;
+  y: number;
+  collected: boolean;
+  rotation: number;
+}
+
+export interface TerrainSegment {
+  startX: number;
+  endX: number;
+  startY: number;
+  endY: number;
+}
+
+export type PoliceState = "pursuing" | "braking" | "jumping" | "flying";
+
+export interface PoliceCar {
+  x: number;
+  speed: number;
+  state: PoliceState;
+  altitude: number; // Height above the road while jumping or flying
+  climb: number; // Vertical speed during a jump, positive is up
+}
+
+export type PowerUpKind = "magnet" | "shield" | "smokeBomb" | "speedBurst";
+
+export interface PowerUp {
+  x: number;
+  y: number;
+  kind: PowerUpKind;
+  collected: boolean;
+}
+
+export type PlatformKind = "ledge" | "fireEscape" | "awning";
+
+// One-way surface above the ground: the player lands on it from above, jumps
+// up through it from below and drops through it with DOWN.
+export interface Platform {
+  x: number;
+  y: number; // Top surface
+  width: number;
+  kind: PlatformKind;
+}
+
+export type PursuerKind = "police" | "motorbike" | "k9" | "helicopter";
+
+// Motorbike cops and K-9 units. "halted" covers a bike wiped out on a spike
+// or a dog stopped at a gap too wide to leap; they drop out of the chase.
+export interface GroundPursuer {
+  kind: "motorbike" | "k9";
+  x: number;
+  speed: number;
+  state: "chasing" | "leaping" | "halted";
+  altitude: number;
+  climb: number;
+  haltedTicks: number;
+}
+
+export interface PoliceHelicopter {
+  kind: "helicopter";
+  x: number;
+  y: number;
+  sweep: number; // Spotlight swing phase
+  spotlightX: number; // Where the beam meets the ground
+  lit: boolean; // Player is inside the beam this tick
+  heat: number;
+  ticksLeft: number; // Leaves once this runs out
+}
+
+export type Pursuer = GroundPursuer | PoliceHelicopter;
+
+export interface Player {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  width: number;
+  height: number;
+  state: "running" | "jumping" | "sliding" | "swinging" | "falling";
+  animFrame: number;
+  onVine: Vine | null;
+  vineLength: number;
+  invincible: number;
+}
+
+export interface Plane {
+  x: number;
+  y: number;
+  vx: number;
+  state: "hidden" | "entering" | "waiting" | "departing";
+  rotorAngle: number; // For helicopter animation
+}
+
+export interface SimulationInput {
+  up: boolean;
+  down: boolean;
+}
+
+export type SimulationStatus = "running" | "busted" | "escaped";
+
+// Things that happened during a tick that the presentation layer may want to
+// react to (sound, particles, screen shake). Positions are in world space.
+export type SimulationEvent =
+  | { type: "jump"; x: number; y: number }
+  | { type: "land"; x: number; y: number }
+  | { type: "slide"; x: number; y: number }
+  | { type: "bounce"; x: number; y: number }
+  | { type: "slideBoost"; x: number; y: number; speed: number }
+  | { type: "vineGrab"; x: number; y: number }
+  | { type: "vineRelease"; x: number; y: number }
+  | { type: "coin"; x: number; y: number }
+  | { type: "powerUp"; kind: PowerUpKind; x: number; y: number }
+  | { type: "shieldBreak"; x: number; y: number }
+  | { type: "wallHit"; x: number; y: number }
+  | { type: "crash"; obstacle: Obstacle["type"]; x: number; y: number }
+  | { type: "chasmCrossed"; x: number; y: number; width: number }
+  | { type: "nearMiss"; x: number; y: number }
+  | { type: "caught"; x: number; y: number; by: PursuerKind }
+  | { type: "pursuerArrived"; kind: Pursuer["kind"]; x: number; y: number }
+  | { type: "pursuerLeap"; kind: GroundPursuer["kind"]; x: number; y: number }
+  | { type: "pursuerHalted"; kind: GroundPursuer["kind"]; x: number; y: number }
+  | { type: "spotlight"; x: number; y: number }
+  | { type: "biomeEntered"; biome: BiomeId; x: number; y: number }
+  | { type: "checkpoint"; x: number; y: number }
+  // The generator couldn't prove a set piece at x can be got through and laid out another
+  | { type: "sectionRerolled"; pattern: SetPiece; x: number }
+  | { type: "respawn"; x: number; y: number }
+  | { type: "busted" }
+  | { type: "victory" };
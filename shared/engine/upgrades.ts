@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { CHECKPOINT_DISTANCE, GLIDE_CHARGE_SECONDS, SECOND_CHECKPOINT_DISTANCE, VINE_GRAB_RADIUS } from "./constants";
+
+// Permanent upgrades bought with banked coins. Like modifiers they change the
+// simulation, so a replay carries the levels it was played with.
+export const UPGRADE_IDS = ["glide", "vineReach", "secondCheckpoint", "powerUpDuration"] as const;
+
+export type UpgradeId = typeof UPGRADE_IDS[number];
+
+// One cost per level; the number of costs is the maximum level
+export const UPGRADES: Record<UpgradeId, { name: string; description: string; costs: readonly number[] }> = {
+  glide: { name: "Longer Glide", description: "Each glide charge lasts 25% longer", costs: [50, 120, 250] },
+  vineReach: { name: "Long Arms", description: "Grab vines from 15% further away", costs: [40, 100, 200] },
+  secondCheckpoint: { name: "Second Checkpoint", description: "Another checkpoint with its own respawn at 15,000m", costs: [400] },
+  powerUpDuration: { name: "Lasting Power-ups", description: "Power-ups last 20% longer", costs: [60, 150, 300] },
+};
+
+const upgradeLevel = (id: UpgradeId) => z.number().int().min(0).max(UPGRADES[id].costs.length).default(0);
+
+export const upgradeLevelsSchema = z.object({
+  glide: upgradeLevel("glide"),
+  vineReach: upgradeLevel("vineReach"),
+  secondCheckpoint: upgradeLevel("secondCheckpoint"),
+  powerUpDuration: upgradeLevel("powerUpDuration"),
+});
+
+export type UpgradeLevels = z.infer<typeof upgradeLevelsSchema>;
+
+export const NO_UPGRADES: UpgradeLevels = { glide: 0, vineReach: 0, secondCheckpoint: 0, powerUpDuration: 0 };
+
+// Whether every level in `levels` is covered by what `owned` has bought
+export function ownsUpgrades(owned: UpgradeLevels, levels: UpgradeLevels) {
+  return UPGRADE_IDS.every(id => levels[id] <= owned[id]);
+}
+
+export interface UpgradeTuning {
+  glideChargeSeconds: number;
+  vineGrabRadius: number;
+  // Distances that each unlock one checkpoint respawn, in order
+  checkpoints: number[];
+  powerUpDuration: number;
+}
+
+export function getUpgradeTuning(levels: UpgradeLevels): UpgradeTuning {
+  return {
+    glideChargeSeconds: GLIDE_CHARGE_SECONDS * (1 + 0.25 * levels.glide),
+    vineGrabRadius: VINE_GRAB_RADIUS * (1 + 0.15 * levels.vineReach),
+    checkpoints: levels.secondCheckpoint > 0 ? [CHECKPOINT_DISTANCE, SECOND_CHECKPOINT_DISTANCE] : [CHECKPOINT_DISTANCE],
+    powerUpDuration: 1 + 0.2 * levels.powerUpDuration,
+  };
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { ACHIEVEMENTS, ACHIEVEMENT_IDS, getEarnedAchievements } from "./achievements";
+import { CHARACTERS, CHARACTER_IDS, type CharacterId } from "./engine/characters";
+import { addStats, createRunStats, maxStats, runStatsSchema, type RunStats } from "./engine/stats";
+import { NO_UPGRADES, UPGRADES, upgradeLevelsSchema, type UpgradeId } from "./engine/upgrades";
+
+// A player's persistent progress: banked coins, bought upgrades, unlocked
+// characters, lifetime stats and achievements. Guests
+// keep it in localStorage, accounts on the server; both use this format.
+// Bump PROFILE_VERSION when the shape changes and migrate older versions in
+// parseSaveProfile.
+export const PROFILE_VERSION = 3;
+
+export const saveProfileSchema = z.object({
+  version: z.literal(PROFILE_VERSION),
+  coins: z.number().int().min(0),
+  upgrades: upgradeLevelsSchema,
+  // Characters bought with coins; free ones are never listed
+  characters: z.array(z.enum(CHARACTER_IDS)),
+  stats: z.object({ lifetime: runStatsSchema, best: runStatsSchema }),
+  achievements: z.array(z.enum(ACHIEVEMENT_IDS)),
+});
+
+// Version 2 predates stats and achievements, version 1 character unlocks too
+const saveProfileV2Schema = saveProfileSchema.omit({ version: true, stats: true, achievements: true }).extend({
+  version: z.literal(2),
+});
+const saveProfileV1Schema = saveProfileV2Schema.omit({ version: true, characters: true }).extend({
+  version: z.literal(1),
+});
+
+export type SaveProfile = z.infer<typeof saveProfileSchema>;
+
+export function createSaveProfile(): SaveProfile {
+  return {
+    version: PROFILE_VERSION,
+    coins: 0,
+    upgrades: { ...NO_UPGRADES },
+    characters: [],
+    stats: { lifetime: createRunStats(), best: createRunStats() },
+    achievements: [],
+  };
+}
+
+// Reads a stored profile, migrating older versions one step at a time;
+// anything unreadable starts over from a fresh one.
+export function parseSaveProfile(data: unknown): SaveProfile {
+  const v1 = saveProfileV1Schema.safeParse(data);
+  if (v1.success) data = { ...v1.data, version: 2, characters: [] };
+  const v2 = saveProfileV2Schema.safeParse(data);
+  if (v2.success) {
+    data = { ...v2.data, version: 3, stats: { lifetime: createRunStats(), best: createRunStats() }, achievements: [] };
+  }
+  const parseResult = saveProfileSchema.safeParse(data);
+  return parseResult.success ? parseResult.data : createSaveProfile();
+}
+
+// Price of the next level, or null once the upgrade is maxed out
+export function getUpgradeCost(profile: SaveProfile, id: UpgradeId): number | null {
+  return UPGRADES[id].costs[profile.upgrades[id]] ?? null;
+}
+
+// The profile after buying the next level, or null if it can't be bought
+export function purchaseUpgrade(profile: SaveProfile, id: UpgradeId): SaveProfile | null {
+  const cost = getUpgradeCost(profile, id);
+  if (cost === null || profile.coins < cost) return null;
+  return {
+    ...profile,
+    coins: profile.coins - cost,
+    upgrades: { ...profile.upgrades, [id]: profile.upgrades[id] + 1 },
+  };
+}
+
+// Banks a finished run's coins, adds its stats and awards any achievements it completes
+export function addRunToProfile(profile: SaveProfile, run: RunStats): SaveProfile {
+  const stats = {
+    lifetime: addStats(profile.stats.lifetime, run),
+    best: maxStats(profile.stats.best, run),
+  };
+  const earned = getEarnedAchievements(stats).filter((id) => !profile.achievements.includes(id));
+  return {
+    ...profile,
+    coins: profile.coins + run.coins,
+    stats,
+    achievements: [...profile.achievements, ...earned],
+  };
+}
+
+// Free characters, ones bought with coins, and ones unlocked by an achievement
+export function ownsCharacter(profile: SaveProfile, id: CharacterId) {
+  return (
+    CHARACTERS[id].cost === 0 ||
+    profile.characters.includes(id) ||
+    profile.achievements.some((achievement) => ACHIEVEMENTS[achievement].unlocks === id)
+  );
+}
+
+// The profile after unlocking a character, or null if it can't be bought
+export function purchaseCharacter(profile: SaveProfile, id: CharacterId): SaveProfile | null {
+  const { cost } = CHARACTERS[id];
+  if (ownsCharacter(profile, id) || profile.coins < cost) return null;
+  return {
+    ...profile,
+    coins: profile.coins - cost,
+    characters: [...profile.characters, id],
+  };
+}
@@ -1,33 +1,339 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, date, jsonb, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { replaySchema, type Replay } from "./engine/replay";
+import { CHARACTER_IDS, type CharacterId } from "./engine/characters";
+import type { ModifierId } from "./engine/modifiers";
+import { UPGRADE_IDS } from "./engine/upgrades";
+import type { SaveProfile } from "./profile";
+import { levelSchema, type Level } from "./engine/level";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-});
+}, (table) => [
+  // Names that differ only in case would pass for one another on leaderboards
+  uniqueIndex("users_username_lower_idx").on(sql`lower(${table.username})`),
+]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  // Usernames double as leaderboard names, hence the same 12 character limit
+  username: z.string().trim().min(3).max(12).regex(/^[A-Za-z0-9_]+$/, "Letters, numbers and _ only"),
+  password: z.string().min(6).max(128),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API exposes about a user; never includes the password hash
+export type PublicUser = Pick<User, "id" | "username">;
 
 export const highScores = pgTable("high_scores", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
   playerName: text("player_name").notNull(),
   score: integer("score").notNull(),
   distance: integer("distance").notNull(),
   coins: integer("coins").notNull(),
-});
+  // Taken from the verified replay; runs saved before characters had traits show as classic
+  character: text("character").$type<CharacterId>().notNull().default("classic"),
+  // The verified run, served as a ghost; null for scores saved before replays were kept
+  replay: jsonb("replay").$type<Replay>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("high_scores_created_at_idx").on(table.createdAt),
+]);
 
-export const insertHighScoreSchema = createInsertSchema(highScores).omit({
+export const insertHighScoreSchema = createInsertSchema(highScores, {
+  character: z.enum(CHARACTER_IDS).optional(),
+  replay: replaySchema.nullable().optional(),
+}).omit({
   id: true,
+  createdAt: true,
 });
 
 export type InsertHighScore = z.infer<typeof insertHighScoreSchema>;
 export type HighScore = typeof highScores.$inferSelect;
+
+// Clients submit the replay of a finished run; the server re-simulates it and
+// stores its own result. The claimed numbers must match that result. The
+// player is always the logged-in user, never a name from the request.
+export const submitHighScoreSchema = z.object({
+  score: z.number().int().min(0),
+  distance: z.number().int().min(0),
+  coins: z.number().int().min(0),
+  replay: replaySchema,
+});
+
+export type SubmitHighScore = z.infer<typeof submitHighScoreSchema>;
+
+export const leaderboardPeriods = ["day", "week", "all"] as const;
+export type LeaderboardPeriod = typeof leaderboardPeriods[number];
+
+// Query string for GET /api/highscores. Periods are calendar windows in UTC:
+// "day" starts at midnight, "week" on Monday.
+export const leaderboardQuerySchema = z.object({
+  period: z.enum(leaderboardPeriods).default("all"),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+  // Centre the page on this player's rank instead of using offset
+  around: z.string().trim().min(1).max(12).optional(),
+});
+
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+// Every run is stored; a leaderboard ranks each player's best run in the period.
+// Replays are left out of listings and fetched per entry as ghosts.
+export type LeaderboardEntry = Omit<HighScore, "replay"> & { rank: number };
+
+export interface LeaderboardPage {
+  period: LeaderboardPeriod;
+  total: number;
+  offset: number;
+  entries: LeaderboardEntry[];
+}
+
+// The daily challenge: one seed and set of modifiers shared by every player for
+// a UTC calendar day (date is "YYYY-MM-DD").
+export interface DailyChallenge {
+  date: string;
+  seed: number;
+  modifiers: ModifierId[];
+}
+
+// One ranked attempt per account per day: the first finished run counts.
+export const dailyScores = pgTable("daily_scores", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  playerName: text("player_name").notNull(),
+  challengeDate: date("challenge_date", { mode: "string" }).notNull(),
+  score: integer("score").notNull(),
+  distance: integer("distance").notNull(),
+  coins: integer("coins").notNull(),
+  character: text("character").$type<CharacterId>().notNull().default("classic"),
+  replay: jsonb("replay").$type<Replay>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("daily_scores_user_date_idx").on(table.userId, table.challengeDate),
+  index("daily_scores_date_score_idx").on(table.challengeDate, table.score),
+]);
+
+export const insertDailyScoreSchema = createInsertSchema(dailyScores, {
+  character: z.enum(CHARACTER_IDS).optional(),
+  replay: replaySchema.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertDailyScore = z.infer<typeof insertDailyScoreSchema>;
+export type DailyScore = typeof dailyScores.$inferSelect;
+
+// The ranked attempt is claimed when the run starts, so leaving a bad run
+// doesn't earn another go; its score is posted against it when the run ends.
+export const dailyAttempts = pgTable("daily_attempts", {
+  userId: varchar("user_id").notNull().references(() => users.id),
+  challengeDate: date("challenge_date", { mode: "string" }).notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.challengeDate] }),
+]);
+
+export type DailyAttempt = typeof dailyAttempts.$inferSelect;
+
+// GET /api/daily: today's challenge plus the caller's ranked attempt, if any.
+// `started` is set once the attempt has begun, before it has a score.
+export interface DailyChallengeStatus extends DailyChallenge {
+  started: boolean;
+  attempt: DailyScore | null;
+}
+
+// Query string for GET /api/daily/scores; defaults to today's board
+export const dailyLeaderboardQuerySchema = leaderboardQuerySchema.omit({ period: true }).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export type DailyLeaderboardQuery = z.infer<typeof dailyLeaderboardQuerySchema>;
+
+export type DailyLeaderboardEntry = Omit<DailyScore, "replay"> & { rank: number };
+
+export interface DailyLeaderboardPage {
+  date: string;
+  total: number;
+  offset: number;
+  entries: DailyLeaderboardEntry[];
+}
+
+// Save profiles of signed-in players (see shared/profile.ts); guests keep
+// theirs in localStorage
+export const profiles = pgTable("profiles", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  data: jsonb("data").$type<SaveProfile>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Runs whose coins have already been banked, so a replay can't be cashed in twice
+export const bankedRuns = pgTable("banked_runs", {
+  userId: varchar("user_id").notNull().references(() => users.id),
+  runKey: text("run_key").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.runKey] }),
+]);
+
+// POST /api/profile/runs: the server re-simulates the run and banks the coins
+// and stats it actually produced
+export const bankRunSchema = z.object({
+  replay: replaySchema,
+});
+
+export const purchaseUpgradeSchema = z.object({
+  upgrade: z.enum(UPGRADE_IDS),
+});
+
+export type PurchaseUpgrade = z.infer<typeof purchaseUpgradeSchema>;
+
+export const purchaseCharacterSchema = z.object({
+  character: z.enum(CHARACTER_IDS),
+});
+
+export type PurchaseCharacter = z.infer<typeof purchaseCharacterSchema>;
+
+// Levels saved from the editor, one row per author and level id. Only their
+// author can read them.
+export const levelDrafts = pgTable("level_drafts", {
+  userId: varchar("user_id").notNull().references(() => users.id),
+  levelId: text("level_id").notNull(),
+  data: jsonb("data").$type<Level>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.levelId] }),
+]);
+
+// GET /api/levels/drafts lists these; the level itself is fetched by id
+export interface LevelDraftSummary {
+  levelId: string;
+  name: string;
+  updatedAt: Date;
+}
+
+// Levels players have published for everyone to play. The id is the level's
+// own id, unique across the story and every author, and a published level
+// never changes so its leaderboard stays fair.
+export const communityLevels = pgTable("community_levels", {
+  id: text("id").primaryKey(),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  authorName: text("author_name").notNull(),
+  data: jsonb("data").$type<Level>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("community_levels_created_at_idx").on(table.createdAt),
+]);
+
+export type CommunityLevelRow = typeof communityLevels.$inferSelect;
+export type InsertCommunityLevel = Omit<CommunityLevelRow, "createdAt">;
+
+// One rating per player per level; rating again replaces it
+export const levelRatings = pgTable("level_ratings", {
+  levelId: text("level_id").notNull().references(() => communityLevels.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  stars: integer("stars").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.levelId, table.userId] }),
+]);
+
+// Each player's best escape on each community level
+export const levelScores = pgTable("level_scores", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  levelId: text("level_id").notNull().references(() => communityLevels.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  playerName: text("player_name").notNull(),
+  score: integer("score").notNull(),
+  distance: integer("distance").notNull(),
+  coins: integer("coins").notNull(),
+  character: text("character").$type<CharacterId>().notNull().default("classic"),
+  replay: jsonb("replay").$type<Replay>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("level_scores_level_user_idx").on(table.levelId, table.userId),
+  index("level_scores_level_score_idx").on(table.levelId, table.score),
+]);
+
+export const insertLevelScoreSchema = createInsertSchema(levelScores, {
+  character: z.enum(CHARACTER_IDS).optional(),
+  replay: replaySchema.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLevelScore = z.infer<typeof insertLevelScoreSchema>;
+export type LevelScore = typeof levelScores.$inferSelect;
+
+// POST /api/levels: the level plus a run that beats it, which the server
+// re-simulates to prove the level can be finished
+export const publishLevelSchema = z.object({
+  level: levelSchema,
+  replay: replaySchema,
+});
+
+export type PublishLevel = z.infer<typeof publishLevelSchema>;
+
+export const rateLevelSchema = z.object({
+  stars: z.number().int().min(1).max(5),
+});
+
+// Query string for GET /api/levels. "top" is by average rating, "new" by publish date.
+export const levelListQuerySchema = z.object({
+  sort: z.enum(["top", "new"]).default("top"),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type LevelListQuery = z.infer<typeof levelListQuerySchema>;
+
+// A community level as listed: everything but its layout
+export interface CommunityLevelSummary {
+  id: string;
+  name: string;
+  description: string;
+  biome: Level["biome"];
+  chase: boolean;
+  authorId: string;
+  authorName: string;
+  createdAt: Date;
+  // Average stars, null until someone rates it
+  rating: number | null;
+  ratings: number;
+}
+
+export interface CommunityLevel extends CommunityLevelSummary {
+  level: Level;
+}
+
+export interface CommunityLevelPage {
+  total: number;
+  offset: number;
+  levels: CommunityLevelSummary[];
+}
+
+// Query string for GET /api/levels/:id/scores
+export const levelLeaderboardQuerySchema = leaderboardQuerySchema.omit({ period: true });
+
+export type LevelLeaderboardQuery = z.infer<typeof levelLeaderboardQuerySchema>;
+
+export type LevelLeaderboardEntry = Omit<LevelScore, "replay"> & { rank: number };
+
+export interface LevelLeaderboardPage {
+  levelId: string;
+  total: number;
+  offset: number;
+  entries: LevelLeaderboardEntry[];
+}
@@ -0,0 +1,13 @@
+import { levelSchema, type Level } from "./engine/level";
+import firstJob from "./levels/first-job.json";
+import overTheRooftops from "./levels/over-the-rooftops.json";
+import downTheDrain from "./levels/down-the-drain.json";
+
+// Story mode: hand-built levels played in this order, each unlocked by
+// clearing the one before. Parsing here means a broken level file fails
+// loudly at startup rather than mid-run.
+export const STORY_LEVELS: readonly Level[] = [firstJob, overTheRooftops, downTheDrain].map((file) => levelSchema.parse(file));
+
+export function getStoryLevel(id: string): Level | null {
+  return STORY_LEVELS.find((level) => level.id === id) ?? null;
+}